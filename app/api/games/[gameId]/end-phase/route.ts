@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { extractUserIdentity } from '@/lib/api-auth';
+import { getGame, getGameScenario } from '@/lib/api-db';
+import { executeCommand, saveGameChange } from '@/lib/game-commands';
+import { contract } from '@/shared/contract';
+import { getPlayerView } from '@/shared/visibility';
+import {
+  validatePathParams,
+  validateResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from '@/lib/ts-rest-adapter';
+
+// POST /api/games/[gameId]/end-phase - End the current phase
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const user = await extractUserIdentity(request);
+    const userId = user?.userId;
+
+    if (!userId) {
+      return createErrorResponse(401, 'Authentication required - userId not found in token');
+    }
+
+    const pathParams = await params;
+    const validation = validatePathParams(contract.endPhase, pathParams);
+    if (!validation.valid) {
+      return createErrorResponse(400, validation.error, user);
+    }
+
+    const { gameId } = validation.data;
+
+    const game = await getGame(gameId);
+
+    if (!game) {
+      return createErrorResponse(404, 'Game not found', user);
+    }
+
+    const scenario = await getGameScenario(game);
+    if (!scenario) {
+      return createErrorResponse(404, `Scenario not found: ${game.scenarioId}`, user);
+    }
+
+    const result = executeCommand(game, scenario, userId, { type: 'endPhase' });
+    if (!result.valid) {
+      return createErrorResponse(result.status, result.error, user);
+    }
+
+    const saved = await saveGameChange(result.game, result.events);
+    if (!saved.valid) {
+      return createErrorResponse(saved.status, saved.error, user);
+    }
+
+    const response = { gameId, game: getPlayerView(saved.game, scenario, userId) };
+    const responseValidation = validateResponse(contract.endPhase, 200, response);
+    if (!responseValidation.valid) {
+      console.error('Response validation failed:', responseValidation.error);
+    }
+
+    return createSuccessResponse(200, response, user);
+  } catch (error) {
+    console.error('Error ending phase:', error);
+    return createErrorResponse(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
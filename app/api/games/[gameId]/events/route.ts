@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { extractUserIdentity } from '@/lib/api-auth';
+import { getGame, getGameEvents } from '@/lib/api-db';
+import { contract } from '@/shared/contract';
+import { isFogActive } from '@/shared/visibility';
+import {
+  validatePathParams,
+  validateQueryParams,
+  validateResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from '@/lib/ts-rest-adapter';
+
+// GET /api/games/[gameId]/events - Get a game's events, optionally after a sequence number
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ gameId: string }> }
+) {
+  try {
+    const user = await extractUserIdentity(request);
+
+    if (!user || !user.userId) {
+      return createErrorResponse(401, 'Authentication required');
+    }
+
+    const pathParams = await params;
+    const validation = validatePathParams(contract.getGameEvents, pathParams);
+    if (!validation.valid) {
+      return createErrorResponse(400, validation.error, user);
+    }
+
+    const { gameId } = validation.data;
+
+    const { searchParams } = new URL(request.url);
+    const queryValidation = validateQueryParams(contract.getGameEvents, searchParams);
+    if (!queryValidation.valid) {
+      return createErrorResponse(400, queryValidation.error, user);
+    }
+
+    const query = queryValidation.data || {};
+    const since = query.since ?? 0;
+    const limit = query.limit;
+
+    if (limit !== undefined && (limit < 1 || limit > 1000)) {
+      return createErrorResponse(400, 'limit must be between 1 and 1000', user);
+    }
+
+    const game = await getGame(gameId);
+
+    if (!game) {
+      return createErrorResponse(404, 'Game not found', user);
+    }
+
+    // Events would reveal hidden unit movements, so the log is withheld until the game ends
+    if (isFogActive(game)) {
+      return createErrorResponse(403, 'Game history is hidden by fog of war until the game is finished', user);
+    }
+
+    const result = await getGameEvents(gameId, since, limit);
+
+    const response = { gameId, events: result.events, hasMore: result.hasMore };
+    const responseValidation = validateResponse(contract.getGameEvents, 200, response);
+    if (!responseValidation.valid) {
+      console.error('Response validation failed:', responseValidation.error);
+    }
+
+    return createSuccessResponse(200, response, user);
+  } catch (error) {
+    console.error('Error getting game events:', error);
+    return createErrorResponse(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
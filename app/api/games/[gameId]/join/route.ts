@@ -1,8 +1,11 @@
 import { NextRequest } from 'next/server';
 import { extractUserIdentity } from '@/lib/api-auth';
-import { getGame, saveGame } from '@/lib/api-db';
+import { getGame, getGameScenario } from '@/lib/api-db';
+import { saveGameChange } from '@/lib/game-commands';
 import { Game } from '@/shared/types';
 import { contract } from '@/shared/contract';
+import { createGameEvents } from '@/shared/events';
+import { getListedGame, getPlayerView, isFogActive } from '@/shared/visibility';
 import {
   validatePathParams,
   validateResponse,
@@ -51,20 +54,30 @@ export async function POST(
 
     const playerName = user?.username || user?.email || `User-${userId.substring(0, 8)}`;
     
+    const player2 = {
+      name: playerName,
+      userId: userId
+    };
+    const events = createGameEvents(game, { type: 'playerJoined', player: player2 }, { playerIndex: 2 });
     const updatedGame: Game = {
       ...game,
-      player2: {
-        name: playerName,
-        userId: userId
-      },
+      player2,
       player2Id: userId,
       status: 'active',
+      eventSeq: events[events.length - 1].seq,
       updatedAt: new Date().toISOString()
     };
     
-    await saveGame(updatedGame);
+    // Two players joining at once both see an open seat - the first save wins and the other gets a 409
+    const saved = await saveGameChange(updatedGame, events);
+    if (!saved.valid) {
+      return createErrorResponse(saved.status, saved.error, user);
+    }
+    
+    const scenario = isFogActive(saved.game) ? await getGameScenario(saved.game) : null;
+    const visibleGame = scenario ? getPlayerView(saved.game, scenario, userId) : getListedGame(saved.game);
     
-    const response = { gameId, game: updatedGame };
+    const response = { gameId, game: visibleGame };
     const responseValidation = validateResponse(contract.joinGame, 200, response);
     if (!responseValidation.valid) {
       console.error('Response validation failed:', responseValidation.error);
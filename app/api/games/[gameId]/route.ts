@@ -1,7 +1,8 @@
 import { NextRequest } from 'next/server';
 import { extractUserIdentity } from '@/lib/api-auth';
-import { getGame, deleteGame } from '@/lib/api-db';
+import { getGame, getGameScenario, deleteGame, ConditionalWriteError } from '@/lib/api-db';
 import { contract } from '@/shared/contract';
+import { getListedGame, getPlayerView, isFogActive } from '@/shared/visibility';
 import {
   validatePathParams,
   validateResponse,
@@ -36,7 +37,11 @@ export async function GET(
       return createErrorResponse(404, 'Game not found', user);
     }
     
-    const response = { gameId, game };
+    // Under fog of war the scenario's terrain decides which enemy units this user can see
+    const scenario = isFogActive(game) ? await getGameScenario(game) : null;
+    const visibleGame = scenario ? getPlayerView(game, scenario, user.userId) : getListedGame(game);
+    
+    const response = { gameId, game: visibleGame };
     const responseValidation = validateResponse(contract.getGame, 200, response);
     if (!responseValidation.valid) {
       console.error('Response validation failed:', responseValidation.error);
@@ -80,7 +85,14 @@ export async function DELETE(
       return createErrorResponse(403, 'Only the game creator can delete the game', user);
     }
     
-    await deleteGame(gameId);
+    try {
+      await deleteGame(game);
+    } catch (error) {
+      if (error instanceof ConditionalWriteError) {
+        return createErrorResponse(409, 'The game was changed by another request - reload it and try again', user);
+      }
+      throw error;
+    }
     
     const response = {
       message: 'Game deleted successfully',
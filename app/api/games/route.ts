@@ -1,9 +1,18 @@
 import { NextRequest } from 'next/server';
 import { extractUserIdentity } from '@/lib/api-auth';
-import { saveGame, getAllGames } from '@/lib/api-db';
+import { saveGameWithEvents, getAllGames, ConditionalWriteError, InvalidPageTokenError } from '@/lib/api-db';
 import { v4 as uuidv4 } from 'uuid';
 import { Game } from '@/shared/types';
 import { contract } from '@/shared/contract';
+import { GAME_PHASES } from '@/shared/turns';
+import { createUnitsFromScenario } from '@/shared/units';
+import { getOutOfSupplyUnitIds, setSupplyStatus } from '@/shared/supply';
+import { applySchedule } from '@/shared/reinforcements';
+import { createGameEvents } from '@/shared/events';
+import { getListedGame, getPlayerView } from '@/shared/visibility';
+import { hasUnpublishedChanges } from '@/shared/versions';
+import { canModifyScenario } from '@/shared/ownership';
+import { createGameSeed } from '@/lib/game-rng';
 import {
   validateRequestBody,
   validateQueryParams,
@@ -35,31 +44,72 @@ export async function POST(request: NextRequest) {
     const { scenarioId } = validation.data;
     
     // Import getScenario from api-db
-    const { getScenario } = await import('@/lib/api-db');
-    const scenario = await getScenario(scenarioId);
-    if (!scenario) {
+    const { getScenario, getScenarioVersion, publishScenario } = await import('@/lib/api-db');
+    const draft = await getScenario(scenarioId);
+    if (!draft) {
       return createErrorResponse(400, `Scenario not found: ${scenarioId}`, user);
     }
     
+    // Games pin a published version so later edits to the draft never reach a game in progress.
+    // The owner's unpublished edits are published now; anyone else plays the latest published version.
+    // Scenarios from before ownership have no owner to publish them, so the first game on one does.
+    const isOwner = canModifyScenario(draft, user.userId);
+    const republish = hasUnpublishedChanges(draft) && isOwner;
+    const published = draft.publishedVersion && !republish ? await getScenarioVersion(scenarioId, draft.publishedVersion) : null;
+    if (!published && !isOwner && draft.ownerId) {
+      return createErrorResponse(409, 'Scenario has no published version', user);
+    }
+    let scenario = published;
+    if (!scenario) {
+      try {
+        scenario = await publishScenario(draft, user.userId);
+      } catch (error) {
+        if (!(error instanceof ConditionalWriteError)) {
+          throw error;
+        }
+        // Another request published the scenario first - play the version it published
+        const current = await getScenario(scenarioId);
+        scenario = current?.publishedVersion ? await getScenarioVersion(scenarioId, current.publishedVersion) : null;
+        if (!scenario) {
+          return createErrorResponse(409, 'The scenario was changed by another request - try again', user);
+        }
+      }
+    }
+    
     const playerName = user.username || user.email || `User-${user.userId.substring(0, 8)}`;
     
     const gameId = uuidv4();
-    const game: Game = {
+    const setupGame: Game = {
       gameId,
       status: 'waiting',
       scenarioId,
+      scenarioVersion: scenario.version,
       player1: { 
         name: playerName, 
         userId: user.userId
       },
       player1Id: user.userId,
       turnNumber: 1,
+      currentPlayerIndex: 1,
+      phase: GAME_PHASES[0],
+      units: createUnitsFromScenario(scenario),
+      combatLog: [],
+      fogOfWar: scenario.fogOfWar ?? false,
+      ...createGameSeed(),
+      rngRolls: [],
       createdAt: new Date().toISOString()
     };
     
-    await saveGame(game);
+    // The game opens in player 1's turn 1 reinforcement phase, so their scheduled units arrive now.
+    // Supply is known from the start so the first player's units move at the right allowance.
+    const scheduledGame = applySchedule(setupGame, scenario, 1, 1);
+    const units = scheduledGame.units || [];
+    const newGame: Game = { ...scheduledGame, units: setSupplyStatus(units, getOutOfSupplyUnitIds(scenario, units)) };
     
-    const response = { gameId, game };
+    const events = createGameEvents(newGame, { type: 'gameCreated', game: newGame }, { playerIndex: 1 });
+    const game = await saveGameWithEvents({ ...newGame, eventSeq: events[0].seq }, events);
+    
+    const response = { gameId, game: getPlayerView(game, scenario, user.userId) };
     const responseValidation = validateResponse(contract.createGame, 200, response);
     if (!responseValidation.valid) {
       console.error('Response validation failed:', responseValidation.error);
@@ -94,15 +144,28 @@ export async function GET(request: NextRequest) {
     const playerId = query.playerId;
     const player1Id = query.player1Id;
     const player2Id = query.player2Id;
+    const status = query.status;
     
     if (limit && (limit < 1 || limit > 100)) {
       return createErrorResponse(400, 'limit must be between 1 and 100', user);
     }
     
-    const result = await getAllGames(limit, nextToken, playerId, player1Id, player2Id);
+    if (status && !playerId) {
+      return createErrorResponse(400, 'status can only be used with playerId', user);
+    }
+    
+    let result;
+    try {
+      result = await getAllGames(limit, nextToken, playerId, player1Id, player2Id, status);
+    } catch (error) {
+      if (error instanceof InvalidPageTokenError) {
+        return createErrorResponse(400, error.message, user);
+      }
+      throw error;
+    }
     
     const response = {
-      games: result.items,
+      games: result.items.map(getListedGame),
       count: result.items.length,
       hasMore: result.hasMore,
       nextToken: result.nextToken,
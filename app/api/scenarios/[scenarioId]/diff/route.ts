@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { extractUserIdentity } from '@/lib/api-auth';
+import { getScenario, getScenarioVersion } from '@/lib/api-db';
+import { Scenario } from '@/shared/types';
+import { contract } from '@/shared/contract';
+import { diffScenarios } from '@/shared/versions';
+import {
+  validatePathParams,
+  validateQueryParams,
+  validateResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from '@/lib/ts-rest-adapter';
+
+// GET /api/scenarios/[scenarioId]/diff - Compare two versions (either may be the draft)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ scenarioId: string }> }
+) {
+  try {
+    const user = await extractUserIdentity(request);
+    
+    if (!user || !user.userId) {
+      return createErrorResponse(401, 'Authentication required');
+    }
+    
+    const pathParams = await params;
+    const pathValidation = validatePathParams(contract.diffScenarioVersions, pathParams);
+    if (!pathValidation.valid) {
+      return createErrorResponse(400, pathValidation.error, user);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryValidation = validateQueryParams(contract.diffScenarioVersions, searchParams);
+    if (!queryValidation.valid) {
+      return createErrorResponse(400, queryValidation.error, user);
+    }
+
+    const { scenarioId } = pathValidation.data;
+    const from: number | 'draft' = queryValidation.data.from;
+    const to: number | 'draft' = queryValidation.data.to ?? 'draft';
+
+    const draft = await getScenario(scenarioId);
+    if (!draft) {
+      return createErrorResponse(404, `Scenario not found: ${scenarioId}`, user);
+    }
+
+    const load = async (revision: number | 'draft'): Promise<Scenario | null> =>
+      revision === 'draft' ? draft : getScenarioVersion(scenarioId, revision);
+    const [before, after] = await Promise.all([load(from), load(to)]);
+    if (!before || !after) {
+      return createErrorResponse(404, `Version ${!before ? from : to} of scenario ${scenarioId} not found`, user);
+    }
+    
+    const response = { scenarioId, from, to, diff: diffScenarios(before, after) };
+    const responseValidation = validateResponse(contract.diffScenarioVersions, 200, response);
+    if (!responseValidation.valid) {
+      console.error('Response validation failed:', responseValidation.error);
+    }
+    
+    return createSuccessResponse(200, response, user);
+  } catch (error) {
+    console.error('Error diffing scenario versions:', error);
+    return createErrorResponse(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { extractUserIdentity } from '@/lib/api-auth';
+import { getScenario, getScenarioVersion } from '@/lib/api-db';
+import { contract } from '@/shared/contract';
+import { createScenarioBundle } from '@/shared/bundle';
+import {
+  validatePathParams,
+  validateQueryParams,
+  validateResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from '@/lib/ts-rest-adapter';
+
+// GET /api/scenarios/[scenarioId]/export - Download a scenario as a portable bundle
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ scenarioId: string }> }
+) {
+  try {
+    const user = await extractUserIdentity(request);
+    
+    if (!user || !user.userId) {
+      return createErrorResponse(401, 'Authentication required');
+    }
+    
+    const pathParams = await params;
+    const pathValidation = validatePathParams(contract.exportScenario, pathParams);
+    if (!pathValidation.valid) {
+      return createErrorResponse(400, pathValidation.error, user);
+    }
+
+    const { searchParams } = new URL(request.url);
+    const queryValidation = validateQueryParams(contract.exportScenario, searchParams);
+    if (!queryValidation.valid) {
+      return createErrorResponse(400, queryValidation.error, user);
+    }
+
+    const { scenarioId } = pathValidation.data;
+    const version: number | undefined = queryValidation.data?.version;
+
+    const source = version !== undefined ? await getScenarioVersion(scenarioId, version) : await getScenario(scenarioId);
+    if (!source) {
+      return createErrorResponse(404, version !== undefined
+        ? `Version ${version} of scenario ${scenarioId} not found`
+        : `Scenario not found: ${scenarioId}`, user);
+    }
+    
+    const bundle = createScenarioBundle(source, new Date().toISOString());
+    const responseValidation = validateResponse(contract.exportScenario, 200, bundle);
+    if (!responseValidation.valid) {
+      console.error('Response validation failed:', responseValidation.error);
+    }
+    
+    // No user in the body - the bundle is saved as-is and imported elsewhere
+    return createSuccessResponse(200, bundle);
+  } catch (error) {
+    console.error('Error exporting scenario:', error);
+    return createErrorResponse(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
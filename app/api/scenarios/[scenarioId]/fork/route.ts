@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { extractUserIdentity } from '@/lib/api-auth';
+import { getScenario, getScenarioVersion, saveScenario } from '@/lib/api-db';
+import { v4 as uuidv4 } from 'uuid';
+import { contract } from '@/shared/contract';
+import { forkScenario } from '@/shared/versions';
+import {
+  validatePathParams,
+  validateRequestBody,
+  validateResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from '@/lib/ts-rest-adapter';
+
+// POST /api/scenarios/[scenarioId]/fork - Copy a scenario into a new one owned by the caller
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ scenarioId: string }> }
+) {
+  try {
+    const user = await extractUserIdentity(request);
+    
+    if (!user || !user.userId) {
+      return createErrorResponse(401, 'Authentication required');
+    }
+    
+    const pathParams = await params;
+    const pathValidation = validatePathParams(contract.forkScenario, pathParams);
+    if (!pathValidation.valid) {
+      return createErrorResponse(400, pathValidation.error, user);
+    }
+
+    const body = await request.json();
+    const bodyValidation = validateRequestBody(contract.forkScenario, body);
+    if (!bodyValidation.valid) {
+      return createErrorResponse(400, bodyValidation.error, user);
+    }
+
+    const { scenarioId: sourceId } = pathValidation.data;
+    const { title, version } = bodyValidation.data;
+
+    // Any scenario can be forked - the copy belongs to the caller, so ownership of the source does not matter
+    const source = version !== undefined ? await getScenarioVersion(sourceId, version) : await getScenario(sourceId);
+    if (!source) {
+      return createErrorResponse(404, version !== undefined
+        ? `Version ${version} of scenario ${sourceId} not found`
+        : `Scenario not found: ${sourceId}`, user);
+    }
+    
+    const scenarioId = uuidv4();
+    const scenario = forkScenario(source, {
+      scenarioId,
+      ownerId: user.userId,
+      createdBy: user.username || user.email || `User-${user.userId.substring(0, 8)}`,
+      title,
+      createdAt: new Date().toISOString(),
+    });
+    
+    await saveScenario(scenario);
+    
+    const response = { scenarioId, scenario };
+    const responseValidation = validateResponse(contract.forkScenario, 200, response);
+    if (!responseValidation.valid) {
+      console.error('Response validation failed:', responseValidation.error);
+    }
+    
+    return createSuccessResponse(200, response, user);
+  } catch (error) {
+    console.error('Error forking scenario:', error);
+    return createErrorResponse(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -3,6 +3,11 @@ import { extractUserIdentity } from '@/lib/api-auth';
 import { getScenario, updateScenario, deleteScenario } from '@/lib/api-db';
 import { Scenario, Hex } from '@/shared/types';
 import { contract } from '@/shared/contract';
+import { validateOrderOfBattle } from '@/shared/units';
+import { validateVictoryConditions } from '@/shared/victory';
+import { validateSupplyRules } from '@/shared/supply';
+import { validateSchedule } from '@/shared/reinforcements';
+import { canModifyScenario } from '@/shared/ownership';
 import {
   validatePathParams,
   validateRequestBody,
@@ -76,21 +81,19 @@ export async function PUT(
       return createErrorResponse(404, `Scenario not found: ${scenarioId}`, user);
     }
 
+    if (!canModifyScenario(existing, user.userId)) {
+      return createErrorResponse(403, 'Only the scenario owner can change it', user);
+    }
+
     const body = await request.json();
     const bodyValidation = validateRequestBody(contract.updateScenario, body);
     if (!bodyValidation.valid) {
       return createErrorResponse(400, bodyValidation.error, user);
     }
 
-    const { title, description, columns, rows, turns, hexes } = bodyValidation.data;
-    
-    // Ensure existing hexes have rivers property (migration for backward compatibility)
-    const existingHexes = existing.hexes ? existing.hexes.map(hex => ({
-      ...hex,
-      rivers: hex.rivers ?? 0,
-      roads: hex.roads ?? 0
-    })) : undefined;
+    const { title, description, columns, rows, turns, hexes, unitTypes, startingUnits, combatResultsTable, fogOfWar, victoryHexes, victoryConditions, reinforcements, withdrawals, rules } = bodyValidation.data;
     
+    // Ownership comes from the stored scenario and is never taken from the request body
     const updatedScenario: Scenario = {
       ...existing,
       title: title !== undefined ? title : existing.title,
@@ -98,10 +101,31 @@ export async function PUT(
       columns: columns !== undefined ? columns : existing.columns,
       rows: rows !== undefined ? rows : existing.rows,
       turns: turns !== undefined ? turns : existing.turns,
-      hexes: hexes !== undefined ? hexes : existingHexes,
+      hexes: hexes !== undefined ? hexes : existing.hexes,
+      unitTypes: unitTypes !== undefined ? unitTypes : existing.unitTypes,
+      startingUnits: startingUnits !== undefined ? startingUnits : existing.startingUnits,
+      combatResultsTable: combatResultsTable !== undefined ? combatResultsTable : existing.combatResultsTable,
+      fogOfWar: fogOfWar !== undefined ? fogOfWar : existing.fogOfWar,
+      victoryHexes: victoryHexes !== undefined ? victoryHexes : existing.victoryHexes,
+      victoryConditions: victoryConditions !== undefined ? victoryConditions : existing.victoryConditions,
+      reinforcements: reinforcements !== undefined ? reinforcements : existing.reinforcements,
+      withdrawals: withdrawals !== undefined ? withdrawals : existing.withdrawals,
+      rules: rules !== undefined ? rules : existing.rules,
       updatedAt: new Date().toISOString()
     };
     
+    // Starting units must reference defined unit types, fit on the (possibly resized) map and respect the stacking limit
+    const orderOfBattle = validateOrderOfBattle(updatedScenario);
+    if (!orderOfBattle.valid) {
+      return createErrorResponse(400, orderOfBattle.error, user);
+    }
+    
+    // Victory hexes and conditions must also fit the map and turn count
+    const victory = validateVictoryConditions(updatedScenario);
+    if (!victory.valid) {
+      return createErrorResponse(400, victory.error, user);
+    }
+    
     // Validate hexes if provided
     if (hexes && Array.isArray(hexes)) {
       const hexMap = new Map<string, Hex>();
@@ -123,6 +147,17 @@ export async function PUT(
       updatedScenario.hexes = allHexes;
     }
     
+    // Supply sources and reinforcement entry hexes are checked against the final terrain
+    const schedule = validateSchedule(updatedScenario);
+    if (!schedule.valid) {
+      return createErrorResponse(400, schedule.error, user);
+    }
+    
+    const supply = validateSupplyRules(updatedScenario);
+    if (!supply.valid) {
+      return createErrorResponse(400, supply.error, user);
+    }
+    
     await updateScenario(updatedScenario);
     
     const response = { scenarioId, scenario: updatedScenario };
@@ -162,6 +197,10 @@ export async function DELETE(
     if (!existing) {
       return createErrorResponse(404, `Scenario not found: ${scenarioId}`, user);
     }
+
+    if (!canModifyScenario(existing, user.userId)) {
+      return createErrorResponse(403, 'Only the scenario owner can delete it', user);
+    }
     
     await deleteScenario(scenarioId);
     
@@ -0,0 +1,48 @@
+import { NextRequest } from 'next/server';
+import { extractUserIdentity } from '@/lib/api-auth';
+import { getScenarioVersion } from '@/lib/api-db';
+import { contract } from '@/shared/contract';
+import {
+  validatePathParams,
+  validateResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from '@/lib/ts-rest-adapter';
+
+// GET /api/scenarios/[scenarioId]/versions/[version] - Get a published version
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ scenarioId: string; version: string }> }
+) {
+  try {
+    const user = await extractUserIdentity(request);
+    
+    if (!user || !user.userId) {
+      return createErrorResponse(401, 'Authentication required');
+    }
+    
+    const pathParams = await params;
+    const validation = validatePathParams(contract.getScenarioVersion, pathParams);
+    if (!validation.valid) {
+      return createErrorResponse(400, validation.error, user);
+    }
+
+    const { scenarioId, version: versionNumber } = validation.data;
+
+    const version = await getScenarioVersion(scenarioId, versionNumber);
+    if (!version) {
+      return createErrorResponse(404, `Version ${versionNumber} of scenario ${scenarioId} not found`, user);
+    }
+    
+    const response = { scenarioId, version };
+    const responseValidation = validateResponse(contract.getScenarioVersion, 200, response);
+    if (!responseValidation.valid) {
+      console.error('Response validation failed:', responseValidation.error);
+    }
+    
+    return createSuccessResponse(200, response, user);
+  } catch (error) {
+    console.error('Error getting scenario version:', error);
+    return createErrorResponse(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
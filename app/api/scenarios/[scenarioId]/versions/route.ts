@@ -0,0 +1,109 @@
+import { NextRequest } from 'next/server';
+import { extractUserIdentity } from '@/lib/api-auth';
+import { ConditionalWriteError, getScenario, getScenarioVersions, publishScenario } from '@/lib/api-db';
+import { contract } from '@/shared/contract';
+import { canModifyScenario } from '@/shared/ownership';
+import { hasUnpublishedChanges } from '@/shared/versions';
+import {
+  validatePathParams,
+  validateResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from '@/lib/ts-rest-adapter';
+
+// GET /api/scenarios/[scenarioId]/versions - List published versions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ scenarioId: string }> }
+) {
+  try {
+    const user = await extractUserIdentity(request);
+    
+    if (!user || !user.userId) {
+      return createErrorResponse(401, 'Authentication required');
+    }
+    
+    const pathParams = await params;
+    const validation = validatePathParams(contract.getScenarioVersions, pathParams);
+    if (!validation.valid) {
+      return createErrorResponse(400, validation.error, user);
+    }
+
+    const { scenarioId } = validation.data;
+
+    const scenario = await getScenario(scenarioId);
+    if (!scenario) {
+      return createErrorResponse(404, `Scenario not found: ${scenarioId}`, user);
+    }
+    
+    const versions = await getScenarioVersions(scenarioId);
+    
+    const response = { scenarioId, versions };
+    const responseValidation = validateResponse(contract.getScenarioVersions, 200, response);
+    if (!responseValidation.valid) {
+      console.error('Response validation failed:', responseValidation.error);
+    }
+    
+    return createSuccessResponse(200, response, user);
+  } catch (error) {
+    console.error('Error getting scenario versions:', error);
+    return createErrorResponse(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+// POST /api/scenarios/[scenarioId]/versions - Publish the draft as a new version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ scenarioId: string }> }
+) {
+  try {
+    const user = await extractUserIdentity(request);
+    
+    if (!user || !user.userId) {
+      return createErrorResponse(401, 'Authentication required');
+    }
+    
+    const pathParams = await params;
+    const validation = validatePathParams(contract.publishScenario, pathParams);
+    if (!validation.valid) {
+      return createErrorResponse(400, validation.error, user);
+    }
+
+    const { scenarioId } = validation.data;
+
+    const scenario = await getScenario(scenarioId);
+    if (!scenario) {
+      return createErrorResponse(404, `Scenario not found: ${scenarioId}`, user);
+    }
+
+    if (!canModifyScenario(scenario, user.userId)) {
+      return createErrorResponse(403, 'Only the scenario owner can publish it', user);
+    }
+
+    if (!hasUnpublishedChanges(scenario)) {
+      return createErrorResponse(409, `Version ${scenario.publishedVersion} is already up to date with the draft`, user);
+    }
+    
+    let version;
+    try {
+      version = await publishScenario(scenario, user.userId);
+    } catch (error) {
+      // Another publish claimed this version number first
+      if (error instanceof ConditionalWriteError) {
+        return createErrorResponse(409, 'The scenario was published concurrently - reload and try again', user);
+      }
+      throw error;
+    }
+    
+    const response = { scenarioId, version };
+    const responseValidation = validateResponse(contract.publishScenario, 200, response);
+    if (!responseValidation.valid) {
+      console.error('Response validation failed:', responseValidation.error);
+    }
+    
+    return createSuccessResponse(200, response, user);
+  } catch (error) {
+    console.error('Error publishing scenario:', error);
+    return createErrorResponse(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { extractUserIdentity } from '@/lib/api-auth';
+import { saveScenario } from '@/lib/api-db';
+import { buildNewScenario } from '@/lib/scenario-create';
+import { contract } from '@/shared/contract';
+import { migrateScenarioBundle } from '@/shared/bundle';
+import {
+  validateRequestBody,
+  validateResponse,
+  createErrorResponse,
+  createSuccessResponse,
+} from '@/lib/ts-rest-adapter';
+
+// POST /api/scenarios/import - Create a scenario from a bundle
+export async function POST(request: NextRequest) {
+  try {
+    const user = await extractUserIdentity(request);
+    
+    if (!user || !user.userId) {
+      return createErrorResponse(401, 'Authentication required');
+    }
+
+    const body = await request.json();
+    const validation = validateRequestBody(contract.importScenario, body);
+    if (!validation.valid) {
+      return createErrorResponse(400, validation.error, user);
+    }
+
+    const migration = migrateScenarioBundle(validation.data);
+    if (!migration.valid) {
+      return createErrorResponse(400, migration.error, user);
+    }
+
+    // Once migrated, a bundle's scenario is exactly what creating a scenario accepts
+    const content = validateRequestBody(contract.createScenario, migration.scenario);
+    if (!content.valid) {
+      return createErrorResponse(400, content.error.replace('Invalid request body', 'Invalid bundle scenario'), user);
+    }
+
+    const result = buildNewScenario(content.data, {
+      ownerId: user.userId,
+      createdBy: user.username || user.email || `User-${user.userId.substring(0, 8)}`,
+    });
+    if (!result.valid) {
+      return createErrorResponse(400, result.error, user);
+    }
+    
+    const { scenario } = result;
+    const { scenarioId } = scenario;
+    
+    await saveScenario(scenario);
+    
+    const response = { scenarioId, scenario };
+    const responseValidation = validateResponse(contract.importScenario, 200, response);
+    if (!responseValidation.valid) {
+      console.error('Response validation failed:', responseValidation.error);
+    }
+    
+    return createSuccessResponse(200, response, user);
+  } catch (error) {
+    console.error('Error importing scenario:', error);
+    return createErrorResponse(500, error instanceof Error ? error.message : 'Unknown error');
+  }
+}
@@ -1,8 +1,7 @@
 import { NextRequest } from 'next/server';
 import { extractUserIdentity } from '@/lib/api-auth';
 import { getAllScenarios, saveScenario } from '@/lib/api-db';
-import { v4 as uuidv4 } from 'uuid';
-import { Scenario, Hex } from '@/shared/types';
+import { buildNewScenario } from '@/lib/scenario-create';
 import { contract } from '@/shared/contract';
 import {
   validateRequestBody,
@@ -36,12 +35,13 @@ export async function GET(request: NextRequest) {
     const query = validation.data || {};
     const limit = query.limit;
     const nextToken = query.nextToken;
+    const ownerId = query.mine ? user.userId : undefined;
     
     if (limit && (limit < 1 || limit > 100)) {
       return createErrorResponse(400, 'limit must be between 1 and 100', user);
     }
     
-    const result = await getAllScenarios(limit, nextToken);
+    const result = await getAllScenarios(limit, nextToken, ownerId);
     
     const response = {
       scenarios: result.items,
@@ -77,49 +77,16 @@ export async function POST(request: NextRequest) {
       return createErrorResponse(400, validation.error, user);
     }
 
-    const { title, description, columns, rows, turns, hexes } = validation.data;
-    
-    const scenarioId = uuidv4();
-    
-    // Generate default hexes if not provided
-    const defaultHexes: Hex[] = [];
-    if (!hexes || !Array.isArray(hexes)) {
-      // Generate all hexes with default 'clear' terrain
-      for (let row = 0; row < rows; row++) {
-        for (let col = 0; col < columns; col++) {
-          defaultHexes.push({ row, column: col, terrain: 'clear', rivers: 0, roads: 0 });
-        }
-      }
-    } else {
-      // Create a map of provided hexes
-      const hexMap = new Map<string, Hex>();
-      for (const hex of hexes) {
-        if (hex.row >= 0 && hex.row < rows && hex.column >= 0 && hex.column < columns) {
-          hexMap.set(`${hex.row},${hex.column}`, hex);
-        }
-      }
-      
-      // Fill in all hexes, using provided ones or defaulting to 'clear'
-      for (let row = 0; row < rows; row++) {
-        for (let col = 0; col < columns; col++) {
-          const key = `${row},${col}`;
-          const providedHex = hexMap.get(key);
-          defaultHexes.push(providedHex || { row, column: col, terrain: 'clear', rivers: 0, roads: 0 });
-        }
-      }
+    const result = buildNewScenario(validation.data, {
+      ownerId: user.userId,
+      createdBy: user.username || user.email || `User-${user.userId.substring(0, 8)}`,
+    });
+    if (!result.valid) {
+      return createErrorResponse(400, result.error, user);
     }
     
-    const scenario: Scenario = {
-      scenarioId,
-      title,
-      description,
-      columns,
-      rows,
-      turns,
-      hexes: defaultHexes,
-      createdAt: new Date().toISOString(),
-      queryKey: 'ALL_SCENARIOS'
-    };
+    const { scenario } = result;
+    const { scenarioId } = scenario;
     
     await saveScenario(scenario);
     
@@ -1,18 +1,48 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Header from "@/components/Header";
 import HexGrid from "@/components/HexGrid";
+import { OrderOfBattlePanel } from "./OrderOfBattlePanel";
+import { VictoryPanel } from "./VictoryPanel";
+import { SupplyPanel } from "./SupplyPanel";
+import { SchedulePanel } from "./SchedulePanel";
+import { VersionsPanel } from "./VersionsPanel";
+import { TiledImportPanel } from "./TiledImportPanel";
+import { canModifyScenario } from "@/shared/ownership";
 import {
   getAllScenarios,
   createScenario,
   updateScenario,
   deleteScenario,
+  exportScenario,
+  importScenario,
+  forkScenario,
   getScenario,
+  getScenarioVersions,
+  publishScenario,
+  diffScenarioVersions,
   type Scenario,
 } from "@/lib/scenario-api";
 import { useAuth } from "@/lib/auth-client";
+import { hasSide, setSide } from "@/shared/hex";
+import {
+  flattenStartingUnits,
+  groupStartingUnits,
+  type UnitPlacement,
+} from "@/shared/units";
+import type {
+  Hex,
+  Reinforcement,
+  ScenarioDiff,
+  ScenarioRules,
+  ScenarioVersionSummary,
+  UnitType,
+  VictoryCondition,
+  VictoryHex,
+  Withdrawal,
+} from "@/shared/types";
 
 const TERRAIN_TYPES = [
   "clear",
@@ -28,6 +58,8 @@ export function EditorClient() {
   const router = useRouter();
   const { isAuthenticated, isLoading } = useAuth();
   const [scenarios, setScenarios] = useState<Scenario[]>([]);
+  const [mineOnly, setMineOnly] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [currentScenario, setCurrentScenario] = useState<Scenario | null>(null);
   const [selectedTerrain, setSelectedTerrain] = useState("clear");
   const [loading, setLoading] = useState(false);
@@ -41,6 +73,8 @@ export function EditorClient() {
   const [columns, setColumns] = useState(12);
   const [rows, setRows] = useState(10);
   const [turns, setTurns] = useState(15);
+  const [fogOfWar, setFogOfWar] = useState(false);
+  const [rules, setRules] = useState<ScenarioRules>({});
   const [isEditing, setIsEditing] = useState(false);
   const [hexes, setHexes] = useState<
     Array<{ row: number; column: number; terrain: string; rivers: number; roads: number }>
@@ -53,6 +87,23 @@ export function EditorClient() {
     row: number;
     column: number;
   } | null>(null);
+  const [unitTypes, setUnitTypes] = useState<Record<string, UnitType>>({});
+  const [placements, setPlacements] = useState<UnitPlacement[]>([]);
+  const [victoryHexes, setVictoryHexes] = useState<VictoryHex[]>([]);
+  const [reinforcements, setReinforcements] = useState<Reinforcement[]>([]);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [versions, setVersions] = useState<ScenarioVersionSummary[]>([]);
+  const [comparison, setComparison] = useState<{
+    version: number;
+    diff: ScenarioDiff;
+  } | null>(null);
+  const [victoryConditions, setVictoryConditions] = useState<
+    VictoryCondition[]
+  >([]);
+  // What clicking a hex on the map does while editing
+  const [editLayer, setEditLayer] = useState<"terrain" | "units">("terrain");
+  const [placementSide, setPlacementSide] = useState(1);
+  const [placementUnitType, setPlacementUnitType] = useState("");
   const [selectedHexRivers, setSelectedHexRivers] = useState<number>(0);
   const [selectedHexRoads, setSelectedHexRoads] = useState<number>(0);
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -65,10 +116,24 @@ export function EditorClient() {
   const [newScenarioColumns, setNewScenarioColumns] = useState(12);
   const [newScenarioRows, setNewScenarioRows] = useState(10);
   const [newScenarioTurns, setNewScenarioTurns] = useState(15);
+  const [newScenarioHexes, setNewScenarioHexes] = useState<Hex[]>([]);
 
   // Flag to track if there are unsaved changes
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
 
+  // Unit counters for HexGrid, labelled with the unit type name
+  const unitCounters = useMemo(
+    () =>
+      placements.map((placement) => ({
+        unitType: placement.unitType,
+        ownerPlayerIndex: placement.playerIndex,
+        hexX: placement.hexX,
+        hexY: placement.hexY,
+        label: unitTypes[placement.unitType]?.name,
+      })),
+    [placements, unitTypes]
+  );
+
   // Redirect to home page if not authenticated, but preserve the intended destination
   useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -91,7 +156,7 @@ export function EditorClient() {
     setTimeout(() => setMessage(null), 5000);
   }
 
-  async function loadScenarios() {
+  async function loadScenarios(mine: boolean = mineOnly) {
     if (!isAuthenticated) {
       showMessage("Please login to view scenarios", "error");
       return;
@@ -99,8 +164,9 @@ export function EditorClient() {
 
     try {
       setLoading(true);
-      const response = await getAllScenarios();
+      const response = await getAllScenarios(100, null, null, mine);
       setScenarios(response.scenarios || []);
+      setCurrentUserId(response.user?.userId ?? null);
     } catch (error: any) {
       showMessage(`Error loading scenarios: ${error.message}`, "error");
     } finally {
@@ -135,8 +201,19 @@ export function EditorClient() {
       setColumns(scenario.columns);
       setRows(scenario.rows);
       setTurns(scenario.turns);
+      setFogOfWar(scenario.fogOfWar ?? false);
+      setRules(scenario.rules || {});
       // Ensure all hexes have rivers and roads properties (default to 0)
       setHexes((scenario.hexes || []).map(hex => ({ ...hex, rivers: hex.rivers ?? 0, roads: hex.roads ?? 0 })));
+      setUnitTypes(scenario.unitTypes || {});
+      setPlacements(flattenStartingUnits(scenario.startingUnits));
+      setVictoryHexes(scenario.victoryHexes || []);
+      setVictoryConditions(scenario.victoryConditions || []);
+      setReinforcements(scenario.reinforcements || []);
+      setWithdrawals(scenario.withdrawals || []);
+      setVersions((await getScenarioVersions(scenarioId)).versions);
+      setComparison(null);
+      setPlacementUnitType(Object.keys(scenario.unitTypes || {})[0] || "");
       // Clear selected and hovered hexes when loading a new scenario
       setSelectedHex(null);
       setHoveredHex(null);
@@ -169,6 +246,16 @@ export function EditorClient() {
     setRows(10);
     setTurns(15);
     setHexes([]);
+    setUnitTypes({});
+    setPlacements([]);
+    setFogOfWar(false);
+    setRules({});
+    setVictoryHexes([]);
+    setVictoryConditions([]);
+    setReinforcements([]);
+    setWithdrawals([]);
+    setVersions([]);
+    setComparison(null);
     // Clear selected and hovered hexes
     setSelectedHex(null);
     setHoveredHex(null);
@@ -196,7 +283,15 @@ export function EditorClient() {
         columns,
         rows,
         turns,
+        fogOfWar,
+        rules,
         hexes,
+        unitTypes,
+        startingUnits: groupStartingUnits(placements),
+        victoryHexes,
+        victoryConditions,
+        reinforcements,
+        withdrawals,
       };
 
       if (currentScenario) {
@@ -223,6 +318,95 @@ export function EditorClient() {
     }
   }
 
+  async function handleDuplicate(scenarioId: string) {
+    try {
+      setLoading(true);
+      const response = await forkScenario(scenarioId);
+      showMessage("Scenario duplicated", "success");
+      await loadScenarios();
+      // Open the copy so it can be edited straight away
+      await handleLoadScenario(response.scenario.scenarioId);
+    } catch (error: any) {
+      showMessage(`Error duplicating scenario: ${error.message}`, "error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleExport(scenarioId: string) {
+    try {
+      const bundle = await exportScenario(scenarioId);
+      const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${
+        bundle.scenario.title.replace(/[^a-z0-9]+/gi, "-").toLowerCase() ||
+        "scenario"
+      }.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      showMessage(`Error exporting scenario: ${error.message}`, "error");
+    }
+  }
+
+  async function handleImport(file: File) {
+    try {
+      setLoading(true);
+      let bundle: unknown;
+      try {
+        bundle = JSON.parse(await file.text());
+      } catch {
+        showMessage(`${file.name} is not valid JSON`, "error");
+        return;
+      }
+      const response = await importScenario(bundle);
+      showMessage("Scenario imported", "success");
+      await loadScenarios();
+      await handleLoadScenario(response.scenario.scenarioId);
+    } catch (error: any) {
+      showMessage(`Error importing scenario: ${error.message}`, "error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handlePublish() {
+    if (!currentScenario) return;
+
+    try {
+      setLoading(true);
+      const { version } = await publishScenario(currentScenario.scenarioId);
+      const { versions } = await getScenarioVersions(
+        currentScenario.scenarioId
+      );
+      setVersions(versions);
+      setComparison(null);
+      showMessage(`Published version ${version.version}`, "success");
+    } catch (error: any) {
+      showMessage(`Error publishing scenario: ${error.message}`, "error");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleCompareVersion(version: number) {
+    if (!currentScenario) return;
+
+    try {
+      const { diff } = await diffScenarioVersions(
+        currentScenario.scenarioId,
+        version
+      );
+      setComparison({ version, diff });
+    } catch (error: any) {
+      showMessage(`Error comparing versions: ${error.message}`, "error");
+    }
+  }
+
   async function handleDelete() {
     if (!currentScenario) return;
 
@@ -246,6 +430,16 @@ export function EditorClient() {
       setRows(10);
       setTurns(15);
       setHexes([]);
+      setUnitTypes({});
+      setPlacements([]);
+      setFogOfWar(false);
+      setRules({});
+      setVictoryHexes([]);
+      setVictoryConditions([]);
+      setReinforcements([]);
+      setWithdrawals([]);
+      setVersions([]);
+      setComparison(null);
       setHasUnsavedChanges(false);
       setIsEditing(false);
       setShowEditForm(false);
@@ -269,6 +463,33 @@ export function EditorClient() {
       return;
     }
 
+    // In units mode, clicking places a unit instead of painting terrain
+    if (editLayer === "units") {
+      if (!placementUnitType) return;
+      const stacked = placements.filter(
+        (p) =>
+          p.playerIndex === placementSide && p.hexX === column && p.hexY === row
+      ).length;
+      if (rules.stackingLimit !== undefined && stacked >= rules.stackingLimit) {
+        showMessage(
+          `Stacking limit reached: at most ${rules.stackingLimit} units per hex`,
+          "error"
+        );
+        return;
+      }
+      setPlacements([
+        ...placements,
+        {
+          playerIndex: placementSide,
+          unitType: placementUnitType,
+          hexX: column,
+          hexY: row,
+        },
+      ]);
+      if (isEditing) setHasUnsavedChanges(true);
+      return;
+    }
+
     const existingIndex = hexes.findIndex(
       (h) => h.row === row && h.column === column
     );
@@ -317,11 +538,60 @@ export function EditorClient() {
   }
 
   // Resize functions
+  // Keep victory hexes, hold-hex targets, supply sources and reinforcement entry hexes on the same map hexes when the map is resized
+  function remapHexReferences(
+    remap: (coord: { row: number; column: number }) => {
+      row: number;
+      column: number;
+    } | null
+  ) {
+    setVictoryHexes(
+      victoryHexes.flatMap((hex) => {
+        const coord = remap(hex);
+        return coord ? [{ ...hex, ...coord }] : [];
+      })
+    );
+    setVictoryConditions(
+      victoryConditions.flatMap((condition): VictoryCondition[] => {
+        if (condition.type !== "holdHex") return [condition];
+        const coord = remap(condition.hex);
+        return coord ? [{ ...condition, hex: coord }] : [];
+      })
+    );
+    setReinforcements(
+      reinforcements.flatMap((reinforcement) => {
+        const entryHexes = reinforcement.entryHexes.flatMap((hex) => {
+          const coord = remap(hex);
+          return coord ? [coord] : [];
+        });
+        // A reinforcement with no entry hexes left on the map is dropped
+        return entryHexes.length > 0 ? [{ ...reinforcement, entryHexes }] : [];
+      })
+    );
+    if (rules.supply) {
+      setRules({
+        ...rules,
+        supply: {
+          ...rules.supply,
+          sources: rules.supply.sources.map((source) => ({
+            ...source,
+            hexes: source.hexes?.flatMap((hex) => {
+              const coord = remap(hex);
+              return coord ? [coord] : [];
+            }),
+          })),
+        },
+      });
+    }
+  }
+
   function addColumnLeft() {
     if (!isEditing) return;
     setColumns(columns + 1);
     // Shift all existing hexes' columns to the right
     setHexes(hexes.map((h) => ({ ...h, column: h.column + 1 })));
+    setPlacements(placements.map((p) => ({ ...p, hexX: p.hexX + 1 })));
+    remapHexReferences((c) => ({ ...c, column: c.column + 1 }));
     setHasUnsavedChanges(true);
   }
 
@@ -341,6 +611,12 @@ export function EditorClient() {
         .filter((h) => h.column !== 0)
         .map((h) => ({ ...h, column: h.column - 1 }))
     );
+    setPlacements(
+      placements
+        .filter((p) => p.hexX !== 0)
+        .map((p) => ({ ...p, hexX: p.hexX - 1 }))
+    );
+    remapHexReferences((c) => (c.column === 0 ? null : { ...c, column: c.column - 1 }));
     setHasUnsavedChanges(true);
   }
 
@@ -350,6 +626,8 @@ export function EditorClient() {
     setColumns(newColumns);
     // Remove hexes in the rightmost column
     setHexes(hexes.filter((h) => h.column < newColumns));
+    setPlacements(placements.filter((p) => p.hexX < newColumns));
+    remapHexReferences((c) => (c.column < newColumns ? c : null));
     setHasUnsavedChanges(true);
   }
 
@@ -358,6 +636,8 @@ export function EditorClient() {
     setRows(rows + 1);
     // Shift all existing hexes' rows down
     setHexes(hexes.map((h) => ({ ...h, row: h.row + 1 })));
+    setPlacements(placements.map((p) => ({ ...p, hexY: p.hexY + 1 })));
+    remapHexReferences((c) => ({ ...c, row: c.row + 1 }));
     setHasUnsavedChanges(true);
   }
 
@@ -375,6 +655,12 @@ export function EditorClient() {
     setHexes(
       hexes.filter((h) => h.row !== 0).map((h) => ({ ...h, row: h.row - 1 }))
     );
+    setPlacements(
+      placements
+        .filter((p) => p.hexY !== 0)
+        .map((p) => ({ ...p, hexY: p.hexY - 1 }))
+    );
+    remapHexReferences((c) => (c.row === 0 ? null : { ...c, row: c.row - 1 }));
     setHasUnsavedChanges(true);
   }
 
@@ -384,6 +670,8 @@ export function EditorClient() {
     setRows(newRows);
     // Remove hexes in the bottommost row
     setHexes(hexes.filter((h) => h.row < newRows));
+    setPlacements(placements.filter((p) => p.hexY < newRows));
+    remapHexReferences((c) => (c.row < newRows ? c : null));
     setHasUnsavedChanges(true);
   }
 
@@ -446,7 +734,7 @@ export function EditorClient() {
         columns: newScenarioColumns,
         rows: newScenarioRows,
         turns: newScenarioTurns,
-        hexes: [], // Optional - start with empty hexes
+        hexes: newScenarioHexes, // Empty unless a Tiled map was imported
       };
 
       const response = await createScenario(scenarioData);
@@ -459,6 +747,7 @@ export function EditorClient() {
       setNewScenarioColumns(12);
       setNewScenarioRows(10);
       setNewScenarioTurns(15);
+      setNewScenarioHexes([]);
 
       // Refresh scenarios list
       await loadScenarios();
@@ -472,6 +761,10 @@ export function EditorClient() {
     }
   }
 
+  // Other users' scenarios can be viewed but not saved or deleted
+  const canModifyCurrent =
+    !currentScenario || canModifyScenario(currentScenario, currentUserId);
+
   // Show loading state while checking authentication or redirecting
   if (isLoading || !isAuthenticated) {
     return (
@@ -507,9 +800,14 @@ export function EditorClient() {
                 </button>
                 <button
                   type="button"
-                  className="px-4 py-2 bg-red-500 hover:bg-red-600 text-white rounded transition-colors text-sm font-medium"
+                  className="px-4 py-2 bg-red-500 hover:bg-red-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded transition-colors text-sm font-medium"
                   onClick={() => void handleDelete()}
-                  disabled={loading}
+                  disabled={loading || !canModifyCurrent}
+                  title={
+                    canModifyCurrent
+                      ? undefined
+                      : "Only the scenario owner can delete it"
+                  }
                 >
                   Delete
                 </button>
@@ -517,7 +815,12 @@ export function EditorClient() {
                   type="button"
                   className="px-4 py-2 bg-green-500 hover:bg-green-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white rounded transition-colors text-sm font-medium"
                   onClick={() => void handleSave()}
-                  disabled={!hasUnsavedChanges || loading}
+                  disabled={!hasUnsavedChanges || loading || !canModifyCurrent}
+                  title={
+                    canModifyCurrent
+                      ? undefined
+                      : "Only the scenario owner can save changes"
+                  }
                 >
                   Save
                 </button>
@@ -729,6 +1032,19 @@ export function EditorClient() {
                         </div>
                       </div>
 
+                      <TiledImportPanel
+                        onImport={({ columns, rows, hexes, fileName }) => {
+                          setNewScenarioColumns(columns);
+                          setNewScenarioRows(rows);
+                          setNewScenarioHexes(hexes);
+                          if (!newScenarioTitle.trim()) {
+                            setNewScenarioTitle(
+                              fileName.replace(/\.(tmx|tmj|json)$/i, "")
+                            );
+                          }
+                        }}
+                      />
+
                       <div className="grid grid-cols-2 gap-2">
                         <button
                           type="submit"
@@ -747,6 +1063,7 @@ export function EditorClient() {
                             setNewScenarioColumns(12);
                             setNewScenarioRows(10);
                             setNewScenarioTurns(15);
+                            setNewScenarioHexes([]);
                           }}
                         >
                           Cancel
@@ -767,6 +1084,23 @@ export function EditorClient() {
                       <p className="text-sm text-gray-600 mb-4">
                         Select hex to apply changes
                       </p>
+                      {/* Map click mode - paint terrain or place units */}
+                      <div className="grid grid-cols-2 gap-2 mb-6">
+                        {(["terrain", "units"] as const).map((layer) => (
+                          <button
+                            key={layer}
+                            type="button"
+                            className={`px-3 py-1.5 text-sm font-medium rounded transition-colors ${
+                              editLayer === layer
+                                ? "bg-blue-500 hover:bg-blue-600 text-white"
+                                : "bg-gray-200 hover:bg-gray-300 text-gray-800"
+                            }`}
+                            onClick={() => setEditLayer(layer)}
+                          >
+                            {layer === "terrain" ? "Paint terrain" : "Place units"}
+                          </button>
+                        ))}
+                      </div>
                       {/* Terrain type dropdown */}
                       <div className="mb-6">
                         <label
@@ -803,11 +1137,13 @@ export function EditorClient() {
                             <label className="cursor-pointer hover:bg-gray-50 rounded p-2 transition-colors">
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRivers & (1 << 0)) !== 0}
+                                checked={hasSide(selectedHexRivers, 0)}
                                 onChange={(e) => {
-                                  const newRivers = e.target.checked
-                                    ? selectedHexRivers | (1 << 0)
-                                    : selectedHexRivers & ~(1 << 0);
+                                  const newRivers = setSide(
+                                    selectedHexRivers,
+                                    0,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRivers(newRivers);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -838,11 +1174,13 @@ export function EditorClient() {
                               </span>
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRivers & (1 << 5)) !== 0}
+                                checked={hasSide(selectedHexRivers, 5)}
                                 onChange={(e) => {
-                                  const newRivers = e.target.checked
-                                    ? selectedHexRivers | (1 << 5)
-                                    : selectedHexRivers & ~(1 << 5);
+                                  const newRivers = setSide(
+                                    selectedHexRivers,
+                                    5,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRivers(newRivers);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -867,11 +1205,13 @@ export function EditorClient() {
                             <label className="flex items-center gap-2 cursor-pointer hover:bg-gray-50 rounded p-2 transition-colors">
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRivers & (1 << 1)) !== 0}
+                                checked={hasSide(selectedHexRivers, 1)}
                                 onChange={(e) => {
-                                  const newRivers = e.target.checked
-                                    ? selectedHexRivers | (1 << 1)
-                                    : selectedHexRivers & ~(1 << 1);
+                                  const newRivers = setSide(
+                                    selectedHexRivers,
+                                    1,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRivers(newRivers);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -905,11 +1245,13 @@ export function EditorClient() {
                               </span>
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRivers & (1 << 4)) !== 0}
+                                checked={hasSide(selectedHexRivers, 4)}
                                 onChange={(e) => {
-                                  const newRivers = e.target.checked
-                                    ? selectedHexRivers | (1 << 4)
-                                    : selectedHexRivers & ~(1 << 4);
+                                  const newRivers = setSide(
+                                    selectedHexRivers,
+                                    4,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRivers(newRivers);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -934,11 +1276,13 @@ export function EditorClient() {
                             <label className="flex items-center gap-2 cursor-pointer hover:bg-gray-50 rounded p-2 transition-colors">
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRivers & (1 << 2)) !== 0}
+                                checked={hasSide(selectedHexRivers, 2)}
                                 onChange={(e) => {
-                                  const newRivers = e.target.checked
-                                    ? selectedHexRivers | (1 << 2)
-                                    : selectedHexRivers & ~(1 << 2);
+                                  const newRivers = setSide(
+                                    selectedHexRivers,
+                                    2,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRivers(newRivers);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -969,11 +1313,13 @@ export function EditorClient() {
                             <label className="cursor-pointer hover:bg-gray-50 rounded p-2 transition-colors">
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRivers & (1 << 3)) !== 0}
+                                checked={hasSide(selectedHexRivers, 3)}
                                 onChange={(e) => {
-                                  const newRivers = e.target.checked
-                                    ? selectedHexRivers | (1 << 3)
-                                    : selectedHexRivers & ~(1 << 3);
+                                  const newRivers = setSide(
+                                    selectedHexRivers,
+                                    3,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRivers(newRivers);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -1015,11 +1361,13 @@ export function EditorClient() {
                             <label className="cursor-pointer hover:bg-gray-50 rounded p-2 transition-colors">
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRoads & (1 << 0)) !== 0}
+                                checked={hasSide(selectedHexRoads, 0)}
                                 onChange={(e) => {
-                                  const newRoads = e.target.checked
-                                    ? selectedHexRoads | (1 << 0)
-                                    : selectedHexRoads & ~(1 << 0);
+                                  const newRoads = setSide(
+                                    selectedHexRoads,
+                                    0,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRoads(newRoads);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -1050,11 +1398,13 @@ export function EditorClient() {
                               </span>
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRoads & (1 << 5)) !== 0}
+                                checked={hasSide(selectedHexRoads, 5)}
                                 onChange={(e) => {
-                                  const newRoads = e.target.checked
-                                    ? selectedHexRoads | (1 << 5)
-                                    : selectedHexRoads & ~(1 << 5);
+                                  const newRoads = setSide(
+                                    selectedHexRoads,
+                                    5,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRoads(newRoads);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -1079,11 +1429,13 @@ export function EditorClient() {
                             <label className="flex items-center gap-2 cursor-pointer hover:bg-gray-50 rounded p-2 transition-colors">
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRoads & (1 << 1)) !== 0}
+                                checked={hasSide(selectedHexRoads, 1)}
                                 onChange={(e) => {
-                                  const newRoads = e.target.checked
-                                    ? selectedHexRoads | (1 << 1)
-                                    : selectedHexRoads & ~(1 << 1);
+                                  const newRoads = setSide(
+                                    selectedHexRoads,
+                                    1,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRoads(newRoads);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -1117,11 +1469,13 @@ export function EditorClient() {
                               </span>
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRoads & (1 << 4)) !== 0}
+                                checked={hasSide(selectedHexRoads, 4)}
                                 onChange={(e) => {
-                                  const newRoads = e.target.checked
-                                    ? selectedHexRoads | (1 << 4)
-                                    : selectedHexRoads & ~(1 << 4);
+                                  const newRoads = setSide(
+                                    selectedHexRoads,
+                                    4,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRoads(newRoads);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -1146,11 +1500,13 @@ export function EditorClient() {
                             <label className="flex items-center gap-2 cursor-pointer hover:bg-gray-50 rounded p-2 transition-colors">
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRoads & (1 << 2)) !== 0}
+                                checked={hasSide(selectedHexRoads, 2)}
                                 onChange={(e) => {
-                                  const newRoads = e.target.checked
-                                    ? selectedHexRoads | (1 << 2)
-                                    : selectedHexRoads & ~(1 << 2);
+                                  const newRoads = setSide(
+                                    selectedHexRoads,
+                                    2,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRoads(newRoads);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -1181,11 +1537,13 @@ export function EditorClient() {
                             <label className="cursor-pointer hover:bg-gray-50 rounded p-2 transition-colors">
                               <input
                                 type="checkbox"
-                                checked={(selectedHexRoads & (1 << 3)) !== 0}
+                                checked={hasSide(selectedHexRoads, 3)}
                                 onChange={(e) => {
-                                  const newRoads = e.target.checked
-                                    ? selectedHexRoads | (1 << 3)
-                                    : selectedHexRoads & ~(1 << 3);
+                                  const newRoads = setSide(
+                                    selectedHexRoads,
+                                    3,
+                                    e.target.checked
+                                  );
                                   setSelectedHexRoads(newRoads);
                                   if (selectedHex) {
                                     const existingIndex = hexes.findIndex(
@@ -1215,6 +1573,113 @@ export function EditorClient() {
                       </div>
                     </section>
 
+                    {/* Order of battle - unit types and starting units */}
+                    <section className="pt-4 pb-4 border-b border-gray-200">
+                      <h2 className="text-xl font-semibold mb-2 text-gray-800">
+                        Order of Battle
+                      </h2>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Define unit types, then use &quot;Place units&quot; to
+                        set up each side
+                      </p>
+                      <OrderOfBattlePanel
+                        unitTypes={unitTypes}
+                        placements={placements}
+                        placementSide={placementSide}
+                        placementUnitType={placementUnitType}
+                        selectedHex={selectedHex}
+                        onUnitTypesChange={(newUnitTypes) => {
+                          setUnitTypes(newUnitTypes);
+                          if (isEditing) setHasUnsavedChanges(true);
+                        }}
+                        onPlacementsChange={(newPlacements) => {
+                          setPlacements(newPlacements);
+                          if (isEditing) setHasUnsavedChanges(true);
+                        }}
+                        onPlacementSideChange={setPlacementSide}
+                        onPlacementUnitTypeChange={setPlacementUnitType}
+                      />
+                    </section>
+
+                    {/* Victory - victory point hexes and sudden-death conditions */}
+                    <section className="pt-4 pb-4 border-b border-gray-200">
+                      <h2 className="text-xl font-semibold mb-2 text-gray-800">
+                        Victory
+                      </h2>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Select a hex on the map to make it a victory hex
+                      </p>
+                      <VictoryPanel
+                        victoryHexes={victoryHexes}
+                        victoryConditions={victoryConditions}
+                        selectedHex={selectedHex}
+                        turns={turns}
+                        onVictoryHexesChange={(newVictoryHexes) => {
+                          setVictoryHexes(newVictoryHexes);
+                          if (isEditing) setHasUnsavedChanges(true);
+                        }}
+                        onVictoryConditionsChange={(newVictoryConditions) => {
+                          setVictoryConditions(newVictoryConditions);
+                          if (isEditing) setHasUnsavedChanges(true);
+                        }}
+                      />
+                    </section>
+
+                    {/* Schedule - reinforcements and withdrawals by turn */}
+                    <section className="pt-4 pb-4 border-b border-gray-200">
+                      <h2 className="text-xl font-semibold mb-2 text-gray-800">
+                        Reinforcements
+                      </h2>
+                      <p className="text-sm text-gray-600 mb-4">
+                        Units arrive or leave at the start of their side&apos;s
+                        reinforcement phase
+                      </p>
+                      <SchedulePanel
+                        unitTypes={unitTypes}
+                        reinforcements={reinforcements}
+                        withdrawals={withdrawals}
+                        selectedHex={selectedHex}
+                        turns={turns}
+                        onReinforcementsChange={(newReinforcements) => {
+                          setReinforcements(newReinforcements);
+                          if (isEditing) setHasUnsavedChanges(true);
+                        }}
+                        onWithdrawalsChange={(newWithdrawals) => {
+                          setWithdrawals(newWithdrawals);
+                          if (isEditing) setHasUnsavedChanges(true);
+                        }}
+                      />
+                    </section>
+
+                    {/* Versions - published snapshots that games pin */}
+                    {currentScenario && (
+                      <section className="pt-4 pb-4 border-b border-gray-200">
+                        <h2 className="text-xl font-semibold mb-2 text-gray-800">
+                          Versions
+                        </h2>
+                        <p className="text-sm text-gray-600 mb-4">
+                          Games play the version they were created from, so
+                          saved changes reach new games only once published
+                        </p>
+                        <VersionsPanel
+                          versions={versions}
+                          comparison={comparison}
+                          canPublish={
+                            canModifyCurrent && !hasUnsavedChanges && !loading
+                          }
+                          publishDisabledReason={
+                            canModifyCurrent
+                              ? "Save your changes before publishing"
+                              : "Only the scenario owner can publish it"
+                          }
+                          onPublish={() => void handlePublish()}
+                          onCompare={(version) =>
+                            void handleCompareVersion(version)
+                          }
+                        />
+                      </section>
+                    )}
+
                     {/* Edit Scenario controls */}
                     <section className="pt-4 overflow-y-auto flex-1">
                       <h2 className="text-xl font-semibold mb-4 text-gray-800">
@@ -1450,6 +1915,143 @@ export function EditorClient() {
                             </div>
                           </div>
                         </div>
+
+                        {/* Fog of war - enemy units only visible within spotting range */}
+                        <div className="mb-4">
+                          <label className="flex items-center gap-2 font-medium text-gray-800">
+                            <input
+                              type="checkbox"
+                              checked={fogOfWar}
+                              onChange={(e) => {
+                                setFogOfWar(e.target.checked);
+                                if (isEditing) setHasUnsavedChanges(true);
+                              }}
+                            />
+                            Fog of war
+                          </label>
+                        </div>
+
+                        {/* Movement rules - zones of control and stacking */}
+                        <div className="mb-4">
+                          <label className="flex items-center gap-2 font-medium text-gray-800 mb-2">
+                            <input
+                              type="checkbox"
+                              checked={!!rules.zoneOfControl}
+                              onChange={(e) => {
+                                setRules({
+                                  ...rules,
+                                  zoneOfControl: e.target.checked
+                                    ? {
+                                        stopOnEntering: true,
+                                        leaveCost: 0,
+                                        riversNegate: true,
+                                      }
+                                    : undefined,
+                                });
+                                if (isEditing) setHasUnsavedChanges(true);
+                              }}
+                            />
+                            Zones of control
+                          </label>
+                          {rules.zoneOfControl && (
+                            <div className="ml-6 mb-2 space-y-1 text-sm text-gray-700">
+                              <label className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={rules.zoneOfControl.stopOnEntering}
+                                  onChange={(e) => {
+                                    setRules({
+                                      ...rules,
+                                      zoneOfControl: {
+                                        ...rules.zoneOfControl!,
+                                        stopOnEntering: e.target.checked,
+                                      },
+                                    });
+                                    if (isEditing) setHasUnsavedChanges(true);
+                                  }}
+                                />
+                                Stop on entering
+                              </label>
+                              <label className="flex items-center gap-2">
+                                <input
+                                  type="checkbox"
+                                  checked={rules.zoneOfControl.riversNegate}
+                                  onChange={(e) => {
+                                    setRules({
+                                      ...rules,
+                                      zoneOfControl: {
+                                        ...rules.zoneOfControl!,
+                                        riversNegate: e.target.checked,
+                                      },
+                                    });
+                                    if (isEditing) setHasUnsavedChanges(true);
+                                  }}
+                                />
+                                Rivers negate zones of control
+                              </label>
+                              <label className="flex items-center gap-2">
+                                Cost to leave
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={0.5}
+                                  value={rules.zoneOfControl.leaveCost}
+                                  onChange={(e) => {
+                                    setRules({
+                                      ...rules,
+                                      zoneOfControl: {
+                                        ...rules.zoneOfControl!,
+                                        leaveCost: Math.max(
+                                          parseFloat(e.target.value) || 0,
+                                          0
+                                        ),
+                                      },
+                                    });
+                                    if (isEditing) setHasUnsavedChanges(true);
+                                  }}
+                                  className="w-16 p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+                                />
+                              </label>
+                            </div>
+                          )}
+                          <div className="flex items-center gap-2">
+                            <label
+                              htmlFor="scenario-stacking-limit"
+                              className="font-medium text-gray-800 whitespace-nowrap min-w-[120px]"
+                            >
+                              Stacking limit
+                            </label>
+                            <input
+                              type="number"
+                              id="scenario-stacking-limit"
+                              value={rules.stackingLimit ?? ""}
+                              onChange={(e) => {
+                                const limit = parseInt(e.target.value);
+                                setRules({
+                                  ...rules,
+                                  stackingLimit: limit >= 1 ? limit : undefined,
+                                });
+                                if (isEditing) setHasUnsavedChanges(true);
+                              }}
+                              placeholder="Unlimited"
+                              min={1}
+                              className="flex-1 p-2 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+                            />
+                          </div>
+                        </div>
+
+                        {/* Supply - sources per side and out-of-supply penalties */}
+                        <div className="mb-4">
+                          <SupplyPanel
+                            supply={rules.supply}
+                            hexes={hexes}
+                            selectedHex={selectedHex}
+                            onSupplyChange={(supply) => {
+                              setRules({ ...rules, supply });
+                              if (isEditing) setHasUnsavedChanges(true);
+                            }}
+                          />
+                        </div>
                       </form>
                     </section>
                   </div>
@@ -1461,7 +2063,7 @@ export function EditorClient() {
                     Scenarios
                   </h2>
                   {/* Action buttons - below Scenarios title, always visible */}
-                  <div className="grid grid-cols-2 gap-2 mb-4">
+                  <div className="grid grid-cols-2 gap-2 mb-2">
                     <button
                       className="px-3 py-1.5 text-sm font-medium rounded transition-colors bg-green-500 hover:bg-green-600 text-white"
                       onClick={() => {
@@ -1484,6 +2086,16 @@ export function EditorClient() {
                         setRows(10);
                         setTurns(15);
                         setHexes([]);
+                        setUnitTypes({});
+                        setPlacements([]);
+                        setFogOfWar(false);
+                        setRules({});
+                        setVictoryHexes([]);
+                        setVictoryConditions([]);
+                        setReinforcements([]);
+                        setWithdrawals([]);
+                        setVersions([]);
+                        setComparison(null);
                         setSelectedHex(null);
                         setHoveredHex(null);
                         setHasUnsavedChanges(false);
@@ -1499,7 +2111,32 @@ export function EditorClient() {
                     >
                       Refresh
                     </button>
+                    <label className="px-3 py-1.5 text-sm font-medium rounded transition-colors bg-gray-500 hover:bg-gray-600 text-white cursor-pointer">
+                      Import
+                      <input
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          // Clear the input so the same file can be imported again
+                          e.target.value = "";
+                          if (file) void handleImport(file);
+                        }}
+                      />
+                    </label>
                   </div>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 mb-4">
+                    <input
+                      type="checkbox"
+                      checked={mineOnly}
+                      onChange={(e) => {
+                        setMineOnly(e.target.checked);
+                        void loadScenarios(e.target.checked);
+                      }}
+                    />
+                    My scenarios only
+                  </label>
                   <div className="space-y-2">
                     {loading && !showCreateForm && !showEditForm ? (
                       <p className="text-center text-gray-500 py-4">
@@ -1617,12 +2254,41 @@ export function EditorClient() {
                                 <p className="text-sm text-gray-600 mb-2">
                                   {scenario.columns}×{scenario.rows},{" "}
                                   {scenario.turns} turns
+                                  {scenario.createdBy &&
+                                    `, by ${scenario.createdBy}`}
                                 </p>
+                                {scenario.forkedFrom && (
+                                  <p className="text-xs text-gray-500 mb-2">
+                                    Forked from {scenario.forkedFrom.title}
+                                    {scenario.forkedFrom.version !== undefined &&
+                                      ` v${scenario.forkedFrom.version}`}
+                                  </p>
+                                )}
                                 {scenario.description && (
                                   <p className="text-sm text-gray-600">
                                     {scenario.description}
                                   </p>
                                 )}
+                                <button
+                                  type="button"
+                                  className="mt-2 px-3 py-1 text-xs font-medium rounded transition-colors bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800"
+                                  onClick={() =>
+                                    void handleDuplicate(scenario.scenarioId)
+                                  }
+                                  disabled={loading}
+                                >
+                                  Duplicate
+                                </button>
+                                <button
+                                  type="button"
+                                  className="mt-2 ml-2 px-3 py-1 text-xs font-medium rounded transition-colors bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800"
+                                  onClick={() =>
+                                    void handleExport(scenario.scenarioId)
+                                  }
+                                  disabled={loading}
+                                >
+                                  Download
+                                </button>
                               </div>
                             )}
                           </div>
@@ -1643,6 +2309,8 @@ export function EditorClient() {
                 columns={columns}
                 rows={rows}
                 hexes={hexes}
+                units={unitCounters}
+                highlightedHexes={victoryHexes}
                 selectedTerrain={selectedTerrain}
                 onHexClick={handleHexClick}
                 onHexHover={handleHexHover}
@@ -0,0 +1,268 @@
+"use client";
+
+import { useState } from "react";
+import type { UnitType } from "@/shared/types";
+import type { UnitPlacement } from "@/shared/units";
+import { DEFAULT_SPOTTING_RANGE } from "@/shared/visibility";
+
+const EMPTY_UNIT_TYPE: UnitType = {
+  name: "",
+  movement: 4,
+  attack: 2,
+  defense: 2,
+  health: 2,
+  range: 1,
+  spottingRange: DEFAULT_SPOTTING_RANGE,
+};
+
+const UNIT_TYPE_FIELDS: Array<{
+  key: "movement" | "attack" | "defense" | "health" | "range" | "spottingRange";
+  label: string;
+}> = [
+  { key: "movement", label: "Move" },
+  { key: "attack", label: "Att" },
+  { key: "defense", label: "Def" },
+  { key: "health", label: "Steps" },
+  { key: "range", label: "Range" },
+  { key: "spottingRange", label: "Spot" },
+];
+
+interface OrderOfBattlePanelProps {
+  unitTypes: Record<string, UnitType>;
+  placements: UnitPlacement[];
+  placementSide: number;
+  placementUnitType: string;
+  selectedHex: { row: number; column: number } | null;
+  onUnitTypesChange: (unitTypes: Record<string, UnitType>) => void;
+  onPlacementsChange: (placements: UnitPlacement[]) => void;
+  onPlacementSideChange: (playerIndex: number) => void;
+  onPlacementUnitTypeChange: (unitTypeId: string) => void;
+}
+
+// Derive a unique unit type id from its display name
+function makeUnitTypeId(name: string, existing: Record<string, UnitType>) {
+  const base =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "unit";
+  let id = base;
+  for (let suffix = 2; existing[id]; suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+export function OrderOfBattlePanel({
+  unitTypes,
+  placements,
+  placementSide,
+  placementUnitType,
+  selectedHex,
+  onUnitTypesChange,
+  onPlacementsChange,
+  onPlacementSideChange,
+  onPlacementUnitTypeChange,
+}: OrderOfBattlePanelProps) {
+  const [newUnitType, setNewUnitType] = useState<UnitType>(EMPTY_UNIT_TYPE);
+
+  function handleAddUnitType() {
+    if (!newUnitType.name.trim()) return;
+    const id = makeUnitTypeId(newUnitType.name, unitTypes);
+    onUnitTypesChange({
+      ...unitTypes,
+      [id]: { ...newUnitType, name: newUnitType.name.trim() },
+    });
+    if (!placementUnitType) {
+      onPlacementUnitTypeChange(id);
+    }
+    setNewUnitType(EMPTY_UNIT_TYPE);
+  }
+
+  function handleRemoveUnitType(id: string) {
+    const placed = placements.filter((p) => p.unitType === id).length;
+    if (
+      placed > 0 &&
+      !confirm(
+        `Removing this unit type will also remove ${placed} placed unit(s). Continue?`
+      )
+    ) {
+      return;
+    }
+    const remaining = { ...unitTypes };
+    delete remaining[id];
+    onUnitTypesChange(remaining);
+    onPlacementsChange(placements.filter((p) => p.unitType !== id));
+    if (placementUnitType === id) {
+      onPlacementUnitTypeChange(Object.keys(remaining)[0] || "");
+    }
+  }
+
+  const unitsOnSelectedHex = selectedHex
+    ? placements
+        .map((placement, index) => ({ placement, index }))
+        .filter(
+          ({ placement }) =>
+            placement.hexY === selectedHex.row &&
+            placement.hexX === selectedHex.column
+        )
+    : [];
+
+  return (
+    <div>
+      {/* Unit types defined for this scenario */}
+      <div className="mb-6">
+        <h3 className="block mb-2 font-medium text-gray-800">Unit Types</h3>
+        {Object.keys(unitTypes).length === 0 ? (
+          <p className="text-sm text-gray-500 italic mb-2">
+            No unit types defined
+          </p>
+        ) : (
+          <ul className="space-y-1 mb-3">
+            {Object.entries(unitTypes).map(([id, unitType]) => (
+              <li
+                key={id}
+                className="flex items-center justify-between gap-2 text-sm bg-gray-50 rounded px-2 py-1"
+              >
+                <span>
+                  <span className="font-medium">{unitType.name}</span>{" "}
+                  <span className="text-xs text-gray-500">
+                    M{unitType.movement} A{unitType.attack} D{unitType.defense}{" "}
+                    S{unitType.health} R{unitType.range} V
+                    {unitType.spottingRange ?? DEFAULT_SPOTTING_RANGE}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className="text-xs text-red-600 hover:text-red-700"
+                  onClick={() => handleRemoveUnitType(id)}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleAddUnitType();
+          }}
+          className="p-2 bg-gray-50 rounded border border-gray-200"
+        >
+          <input
+            type="text"
+            value={newUnitType.name}
+            onChange={(e) =>
+              setNewUnitType({ ...newUnitType, name: e.target.value })
+            }
+            placeholder="Unit type name (e.g. Infantry)"
+            className="w-full p-2 mb-2 border border-gray-300 rounded text-sm bg-white text-gray-900"
+          />
+          <div className="grid grid-cols-6 gap-1 mb-2">
+            {UNIT_TYPE_FIELDS.map((field) => (
+              <label key={field.key} className="text-xs text-gray-600">
+                {field.label}
+                <input
+                  type="number"
+                  min={field.key === "health" ? 1 : 0}
+                  value={newUnitType[field.key] ?? ""}
+                  onChange={(e) =>
+                    setNewUnitType({
+                      ...newUnitType,
+                      [field.key]: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+                />
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            className="w-full px-3 py-1.5 text-sm font-medium rounded transition-colors bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white"
+            disabled={!newUnitType.name.trim()}
+          >
+            Add unit type
+          </button>
+        </form>
+      </div>
+
+      {/* Placement controls - clicking a hex places a unit with these settings */}
+      <div className="mb-6">
+        <h3 className="block mb-2 font-medium text-gray-800">Place Units</h3>
+        <div className="grid grid-cols-2 gap-2 mb-2">
+          <select
+            value={placementSide}
+            onChange={(e) => onPlacementSideChange(parseInt(e.target.value))}
+            className="p-2 border border-gray-300 rounded text-sm bg-white text-gray-900"
+          >
+            <option value={1}>Player 1</option>
+            <option value={2}>Player 2</option>
+          </select>
+          <select
+            value={placementUnitType}
+            onChange={(e) => onPlacementUnitTypeChange(e.target.value)}
+            className="p-2 border border-gray-300 rounded text-sm bg-white text-gray-900"
+            disabled={Object.keys(unitTypes).length === 0}
+          >
+            {Object.entries(unitTypes).map(([id, unitType]) => (
+              <option key={id} value={id}>
+                {unitType.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <p className="text-sm text-gray-600">
+          Click a hex on the map to place a unit.{" "}
+          {[1, 2]
+            .map(
+              (side) =>
+                `Player ${side}: ${
+                  placements.filter((p) => p.playerIndex === side).length
+                }`
+            )
+            .join(", ")}
+        </p>
+      </div>
+
+      {/* Units on the selected hex */}
+      <div className="mb-4">
+        <h3 className="block mb-2 font-medium text-gray-800">
+          Units on Selected Hex
+        </h3>
+        {!selectedHex ? (
+          <p className="text-sm text-gray-400 italic">No hex selected</p>
+        ) : unitsOnSelectedHex.length === 0 ? (
+          <p className="text-sm text-gray-400 italic">None</p>
+        ) : (
+          <ul className="space-y-1">
+            {unitsOnSelectedHex.map(({ placement, index }) => (
+              <li
+                key={index}
+                className="flex items-center justify-between text-sm bg-gray-50 rounded px-2 py-1"
+              >
+                <span>
+                  {unitTypes[placement.unitType]?.name || placement.unitType}{" "}
+                  <span className="text-xs text-gray-500">
+                    (Player {placement.playerIndex})
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className="text-xs text-red-600 hover:text-red-700"
+                  onClick={() =>
+                    onPlacementsChange(placements.filter((_, i) => i !== index))
+                  }
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { useState } from "react";
+import type {
+  HexCoordinate,
+  Reinforcement,
+  UnitType,
+  Withdrawal,
+} from "@/shared/types";
+
+type ScheduleKind = "arrival" | "withdrawal";
+
+const SIDE_DOT_CLASSES: Record<number, string> = {
+  1: "bg-blue-700",
+  2: "bg-red-700",
+};
+
+interface SchedulePanelProps {
+  unitTypes: Record<string, UnitType>;
+  reinforcements: Reinforcement[];
+  withdrawals: Withdrawal[];
+  selectedHex: { row: number; column: number } | null;
+  turns: number;
+  onReinforcementsChange: (reinforcements: Reinforcement[]) => void;
+  onWithdrawalsChange: (withdrawals: Withdrawal[]) => void;
+}
+
+function formatHex(coord: { row: number; column: number }) {
+  return `${coord.column + 1}-${coord.row + 1}`;
+}
+
+/**
+ * Timeline of reinforcements and withdrawals, grouped by turn
+ */
+export function SchedulePanel({
+  unitTypes,
+  reinforcements,
+  withdrawals,
+  selectedHex,
+  turns,
+  onReinforcementsChange,
+  onWithdrawalsChange,
+}: SchedulePanelProps) {
+  const unitTypeIds = Object.keys(unitTypes);
+  const [kind, setKind] = useState<ScheduleKind>("arrival");
+  const [playerIndex, setPlayerIndex] = useState(1);
+  const [unitType, setUnitType] = useState("");
+  const [count, setCount] = useState(1);
+  const [turn, setTurn] = useState(2);
+  const [entryHexes, setEntryHexes] = useState<HexCoordinate[]>([]);
+
+  const selectedUnitType = unitTypes[unitType] ? unitType : unitTypeIds[0];
+  const scheduleTurn = Math.min(Math.max(turn, 1), turns);
+  const canAdd =
+    !!selectedUnitType &&
+    count >= 1 &&
+    (kind === "withdrawal" || entryHexes.length > 0);
+
+  function handleAddEntryHex() {
+    if (!selectedHex) return;
+    if (
+      entryHexes.some(
+        (h) => h.row === selectedHex.row && h.column === selectedHex.column
+      )
+    ) {
+      return;
+    }
+    setEntryHexes([
+      ...entryHexes,
+      { row: selectedHex.row, column: selectedHex.column },
+    ]);
+  }
+
+  function handleAdd() {
+    if (!canAdd) return;
+    if (kind === "arrival") {
+      onReinforcementsChange([
+        ...reinforcements,
+        {
+          playerIndex,
+          turn: scheduleTurn,
+          unitType: selectedUnitType,
+          count,
+          entryHexes,
+        },
+      ]);
+      setEntryHexes([]);
+    } else {
+      onWithdrawalsChange([
+        ...withdrawals,
+        { playerIndex, turn: scheduleTurn, unitType: selectedUnitType, count },
+      ]);
+    }
+  }
+
+  // Only turns with something scheduled appear on the timeline
+  const timeline = Array.from({ length: turns }, (_, i) => i + 1)
+    .map((turnNumber) => ({
+      turnNumber,
+      arrivals: reinforcements
+        .map((reinforcement, index) => ({ reinforcement, index }))
+        .filter(({ reinforcement }) => reinforcement.turn === turnNumber),
+      departures: withdrawals
+        .map((withdrawal, index) => ({ withdrawal, index }))
+        .filter(({ withdrawal }) => withdrawal.turn === turnNumber),
+    }))
+    .filter(
+      ({ arrivals, departures }) => arrivals.length + departures.length > 0
+    );
+
+  const unitName = (id: string) => unitTypes[id]?.name || id;
+
+  return (
+    <div>
+      {timeline.length === 0 ? (
+        <p className="text-sm text-gray-500 italic mb-3">
+          No reinforcements or withdrawals scheduled
+        </p>
+      ) : (
+        <ol className="mb-4 border-l-2 border-gray-200 pl-3 space-y-2">
+          {timeline.map(({ turnNumber, arrivals, departures }) => (
+            <li key={turnNumber}>
+              <div className="text-xs font-semibold text-gray-500 uppercase">
+                Turn {turnNumber}
+              </div>
+              <ul className="space-y-1">
+                {arrivals.map(({ reinforcement, index }) => (
+                  <li
+                    key={`arrival-${index}`}
+                    className="flex items-center justify-between gap-2 text-sm bg-gray-50 rounded px-2 py-1"
+                  >
+                    <span className="flex items-center gap-2">
+                      <span
+                        className={`inline-block w-2 h-2 rounded-full ${
+                          SIDE_DOT_CLASSES[reinforcement.playerIndex] || ""
+                        }`}
+                      />
+                      +{reinforcement.count} {unitName(reinforcement.unitType)}
+                      <span className="text-xs text-gray-500">
+                        at {reinforcement.entryHexes.map(formatHex).join(", ")}
+                      </span>
+                    </span>
+                    <button
+                      type="button"
+                      className="text-xs text-red-600 hover:text-red-700"
+                      onClick={() =>
+                        onReinforcementsChange(
+                          reinforcements.filter((_, i) => i !== index)
+                        )
+                      }
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+                {departures.map(({ withdrawal, index }) => (
+                  <li
+                    key={`withdrawal-${index}`}
+                    className="flex items-center justify-between gap-2 text-sm bg-gray-50 rounded px-2 py-1"
+                  >
+                    <span className="flex items-center gap-2">
+                      <span
+                        className={`inline-block w-2 h-2 rounded-full ${
+                          SIDE_DOT_CLASSES[withdrawal.playerIndex] || ""
+                        }`}
+                      />
+                      −{withdrawal.count} {unitName(withdrawal.unitType)}
+                      <span className="text-xs text-gray-500">withdrawn</span>
+                    </span>
+                    <button
+                      type="button"
+                      className="text-xs text-red-600 hover:text-red-700"
+                      onClick={() =>
+                        onWithdrawalsChange(
+                          withdrawals.filter((_, i) => i !== index)
+                        )
+                      }
+                    >
+                      Remove
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {unitTypeIds.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">
+          Define unit types to schedule reinforcements
+        </p>
+      ) : (
+        <div className="p-2 bg-gray-50 rounded border border-gray-200">
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as ScheduleKind)}
+              className="p-1 border border-gray-300 rounded text-sm bg-white text-gray-900"
+            >
+              <option value="arrival">Reinforcement</option>
+              <option value="withdrawal">Withdrawal</option>
+            </select>
+            <select
+              value={playerIndex}
+              onChange={(e) => setPlayerIndex(parseInt(e.target.value))}
+              className="p-1 border border-gray-300 rounded text-sm bg-white text-gray-900"
+            >
+              <option value={1}>Player 1</option>
+              <option value={2}>Player 2</option>
+            </select>
+            <select
+              value={selectedUnitType}
+              onChange={(e) => setUnitType(e.target.value)}
+              className="col-span-2 p-1 border border-gray-300 rounded text-sm bg-white text-gray-900"
+            >
+              {unitTypeIds.map((id) => (
+                <option key={id} value={id}>
+                  {unitTypes[id].name}
+                </option>
+              ))}
+            </select>
+            <label className="text-xs text-gray-600">
+              Count
+              <input
+                type="number"
+                min={1}
+                value={count}
+                onChange={(e) => setCount(parseInt(e.target.value) || 1)}
+                className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Turn
+              <input
+                type="number"
+                min={1}
+                max={turns}
+                value={turn}
+                onChange={(e) => setTurn(parseInt(e.target.value) || 1)}
+                className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+              />
+            </label>
+          </div>
+          {kind === "arrival" && (
+            <div className="mb-2">
+              <div className="flex flex-wrap gap-1 mb-1">
+                {entryHexes.map((hex, index) => (
+                  <button
+                    key={`${hex.row},${hex.column}`}
+                    type="button"
+                    title="Remove entry hex"
+                    className="px-2 py-0.5 text-xs rounded bg-white border border-gray-300 text-gray-700 hover:border-red-400"
+                    onClick={() =>
+                      setEntryHexes(entryHexes.filter((_, i) => i !== index))
+                    }
+                  >
+                    {formatHex(hex)} ×
+                  </button>
+                ))}
+              </div>
+              <button
+                type="button"
+                className="w-full px-3 py-1 text-xs font-medium rounded transition-colors bg-gray-200 hover:bg-gray-300 disabled:opacity-50 text-gray-800"
+                onClick={handleAddEntryHex}
+                disabled={!selectedHex}
+              >
+                {selectedHex
+                  ? `Add entry hex ${formatHex(selectedHex)}`
+                  : "Select a hex to add an entry hex"}
+              </button>
+            </div>
+          )}
+          <button
+            type="button"
+            className="w-full px-3 py-1.5 text-sm font-medium rounded transition-colors bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white"
+            onClick={handleAdd}
+            disabled={!canAdd}
+          >
+            Add to schedule
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import type { MapEdge, SupplyRules, SupplySource } from "@/shared/types";
+
+const EDGES: MapEdge[] = ["north", "east", "south", "west"];
+
+const PLAYERS = [1, 2];
+
+// Reasonable starting values when supply is first switched on
+const DEFAULT_SUPPLY_RULES: SupplyRules = {
+  sources: [],
+  range: 6,
+  roadCost: 0.5,
+  movementMultiplier: 0.5,
+  combatMultiplier: 0.5,
+};
+
+interface SupplyPanelProps {
+  supply: SupplyRules | undefined;
+  hexes: Array<{ row: number; column: number; terrain: string }>;
+  selectedHex: { row: number; column: number } | null;
+  onSupplyChange: (supply: SupplyRules | undefined) => void;
+}
+
+function formatHex(coord: { row: number; column: number }) {
+  return `${coord.column + 1}-${coord.row + 1}`;
+}
+
+export function SupplyPanel({
+  supply,
+  hexes,
+  selectedHex,
+  onSupplyChange,
+}: SupplyPanelProps) {
+  const selectedTerrain = selectedHex
+    ? hexes.find(
+        (h) => h.row === selectedHex.row && h.column === selectedHex.column
+      )?.terrain ?? "clear"
+    : null;
+
+  function getSource(playerIndex: number): SupplySource {
+    return (
+      supply?.sources.find((s) => s.playerIndex === playerIndex) || {
+        playerIndex,
+      }
+    );
+  }
+
+  function updateSource(source: SupplySource) {
+    if (!supply) return;
+    onSupplyChange({
+      ...supply,
+      sources: [
+        ...supply.sources.filter((s) => s.playerIndex !== source.playerIndex),
+        source,
+      ].sort((a, b) => a.playerIndex - b.playerIndex),
+    });
+  }
+
+  function toggleEdge(playerIndex: number, edge: MapEdge) {
+    const source = getSource(playerIndex);
+    const edges = source.edges || [];
+    updateSource({
+      ...source,
+      edges: edges.includes(edge)
+        ? edges.filter((e) => e !== edge)
+        : [...edges, edge],
+    });
+  }
+
+  function addSelectedHex(playerIndex: number) {
+    if (!selectedHex) return;
+    const source = getSource(playerIndex);
+    updateSource({
+      ...source,
+      hexes: [
+        ...(source.hexes || []),
+        { row: selectedHex.row, column: selectedHex.column },
+      ],
+    });
+  }
+
+  function removeHex(playerIndex: number, index: number) {
+    const source = getSource(playerIndex);
+    updateSource({
+      ...source,
+      hexes: (source.hexes || []).filter((_, i) => i !== index),
+    });
+  }
+
+  function updateNumber(
+    field: "range" | "roadCost" | "movementMultiplier" | "combatMultiplier",
+    value: string
+  ) {
+    if (!supply) return;
+    const parsed = parseFloat(value);
+    if (Number.isNaN(parsed) || parsed < 0) return;
+    onSupplyChange({ ...supply, [field]: parsed });
+  }
+
+  return (
+    <div>
+      <label className="flex items-center gap-2 font-medium text-gray-800 mb-2">
+        <input
+          type="checkbox"
+          checked={!!supply}
+          onChange={(e) =>
+            onSupplyChange(e.target.checked ? DEFAULT_SUPPLY_RULES : undefined)
+          }
+        />
+        Supply lines
+      </label>
+      {supply && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2 text-xs text-gray-600">
+            <label>
+              Range (hexes)
+              <input
+                type="number"
+                min={0}
+                value={supply.range}
+                onChange={(e) => updateNumber("range", e.target.value)}
+                className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+              />
+            </label>
+            <label>
+              Range per road hex
+              <input
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={supply.roadCost}
+                onChange={(e) => updateNumber("roadCost", e.target.value)}
+                className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+              />
+            </label>
+            <label>
+              Unsupplied movement ×
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.25}
+                value={supply.movementMultiplier}
+                onChange={(e) =>
+                  updateNumber("movementMultiplier", e.target.value)
+                }
+                className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+              />
+            </label>
+            <label>
+              Unsupplied combat ×
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.25}
+                value={supply.combatMultiplier}
+                onChange={(e) =>
+                  updateNumber("combatMultiplier", e.target.value)
+                }
+                className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+              />
+            </label>
+          </div>
+
+          {PLAYERS.map((playerIndex) => {
+            const source = getSource(playerIndex);
+            return (
+              <div
+                key={playerIndex}
+                className="p-2 bg-gray-50 rounded border border-gray-200"
+              >
+                <h3 className="text-sm font-medium text-gray-800 mb-1">
+                  Player {playerIndex} sources
+                </h3>
+                <div className="flex flex-wrap gap-3 text-xs text-gray-700 mb-2">
+                  {EDGES.map((edge) => (
+                    <label key={edge} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={(source.edges || []).includes(edge)}
+                        onChange={() => toggleEdge(playerIndex, edge)}
+                      />
+                      {edge} edge
+                    </label>
+                  ))}
+                </div>
+                {(source.hexes || []).length > 0 && (
+                  <ul className="space-y-1 mb-2">
+                    {(source.hexes || []).map((hex, index) => (
+                      <li
+                        key={`${hex.row},${hex.column}`}
+                        className="flex items-center justify-between text-sm"
+                      >
+                        <span>Town {formatHex(hex)}</span>
+                        <button
+                          type="button"
+                          className="text-xs text-red-600 hover:text-red-700"
+                          onClick={() => removeHex(playerIndex, index)}
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <button
+                  type="button"
+                  className="w-full px-3 py-1.5 text-sm font-medium rounded transition-colors bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white"
+                  onClick={() => addSelectedHex(playerIndex)}
+                  disabled={
+                    !selectedHex ||
+                    selectedTerrain !== "town" ||
+                    (source.hexes || []).some(
+                      (h) =>
+                        h.row === selectedHex.row &&
+                        h.column === selectedHex.column
+                    )
+                  }
+                >
+                  {selectedHex && selectedTerrain === "town"
+                    ? `Add town ${formatHex(selectedHex)}`
+                    : "Select a town hex to add it"}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
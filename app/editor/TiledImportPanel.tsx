@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import type { Hex, TerrainType } from "@/shared/types";
+import {
+  getTiledTileIds,
+  importTiledMap,
+  parseTiledMap,
+  type TiledMap,
+} from "@/shared/tiled";
+
+const TERRAIN_OPTIONS: TerrainType[] = [
+  "clear",
+  "mountain",
+  "forest",
+  "water",
+  "desert",
+  "swamp",
+  "town",
+];
+
+interface TiledImportPanelProps {
+  onImport: (map: {
+    columns: number;
+    rows: number;
+    hexes: Hex[];
+    fileName: string;
+  }) => void;
+}
+
+/**
+ * Loads a Tiled .tmx/.tmj hex map and maps its tile ids to terrain
+ */
+export function TiledImportPanel({ onImport }: TiledImportPanelProps) {
+  const [fileName, setFileName] = useState("");
+  const [map, setMap] = useState<TiledMap | null>(null);
+  const [layerName, setLayerName] = useState<string | undefined>(undefined);
+  const [terrainByTileId, setTerrainByTileId] = useState<
+    Record<number, TerrainType>
+  >({});
+  const [error, setError] = useState<string | null>(null);
+  const [imported, setImported] = useState<string | null>(null);
+
+  const tileIds = map ? getTiledTileIds(map, layerName) : [];
+
+  async function handleFile(file: File) {
+    setFileName(file.name);
+    setImported(null);
+    const parsed = parseTiledMap(await file.text());
+    if (!parsed.valid) {
+      setMap(null);
+      setError(parsed.error);
+      return;
+    }
+    setMap(parsed.map);
+    setLayerName(parsed.map.layers[0]?.name);
+    setTerrainByTileId({});
+    setError(null);
+  }
+
+  function handleImport() {
+    if (!map) return;
+    // Tiles without a chosen terrain default to clear
+    const mapping = Object.fromEntries(
+      tileIds.map((id) => [id, terrainByTileId[id] ?? "clear"])
+    );
+    const result = importTiledMap(map, {
+      terrainByTileId: mapping,
+      layerName,
+    });
+    if (!result.valid) {
+      setError(result.error);
+      return;
+    }
+    setError(null);
+    setImported(
+      `${result.columns}×${result.rows} map imported${
+        result.rotated ? ", turned a quarter turn to make its hexes flat-top" : ""
+      }`
+    );
+    onImport({
+      columns: result.columns,
+      rows: result.rows,
+      hexes: result.hexes,
+      fileName,
+    });
+  }
+
+  return (
+    <div className="mb-4">
+      <label className="block mb-2 font-medium text-gray-800">
+        Tiled map (optional)
+        <input
+          type="file"
+          accept=".tmx,.tmj,.json"
+          className="block w-full mt-1 text-sm text-gray-700"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void handleFile(file);
+          }}
+        />
+      </label>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      {map && (
+        <div className="p-2 bg-white rounded border border-gray-200 space-y-2">
+          {map.layers.length > 1 && (
+            <select
+              value={layerName}
+              onChange={(e) => setLayerName(e.target.value)}
+              className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900"
+            >
+              {map.layers.map((layer) => (
+                <option key={layer.name} value={layer.name}>
+                  Layer: {layer.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {tileIds.length === 0 ? (
+            <p className="text-sm text-gray-500 italic">
+              The layer has no tiles - every hex will be clear
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 gap-1">
+              {tileIds.map((id) => (
+                <label
+                  key={id}
+                  className="flex items-center gap-2 text-xs text-gray-600"
+                >
+                  Tile {id}
+                  <select
+                    value={terrainByTileId[id] ?? "clear"}
+                    onChange={(e) =>
+                      setTerrainByTileId({
+                        ...terrainByTileId,
+                        [id]: e.target.value as TerrainType,
+                      })
+                    }
+                    className="flex-1 p-1 border border-gray-300 rounded text-sm bg-white text-gray-900"
+                  >
+                    {TERRAIN_OPTIONS.map((terrain) => (
+                      <option key={terrain} value={terrain}>
+                        {terrain}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+          )}
+          <button
+            type="button"
+            className="w-full px-3 py-1.5 text-sm font-medium rounded transition-colors bg-blue-500 hover:bg-blue-600 text-white"
+            onClick={handleImport}
+          >
+            Use this map
+          </button>
+          {imported && <p className="text-xs text-green-700">{imported}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import type { ScenarioDiff, ScenarioVersionSummary } from "@/shared/types";
+
+interface VersionsPanelProps {
+  versions: ScenarioVersionSummary[];
+  comparison: { version: number; diff: ScenarioDiff } | null;
+  canPublish: boolean;
+  publishDisabledReason?: string;
+  onPublish: () => void;
+  onCompare: (version: number) => void;
+}
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleString();
+}
+
+/**
+ * Published versions of the scenario, with a comparison of any of them against the draft
+ */
+export function VersionsPanel({
+  versions,
+  comparison,
+  canPublish,
+  publishDisabledReason,
+  onPublish,
+  onCompare,
+}: VersionsPanelProps) {
+  return (
+    <div>
+      {versions.length === 0 ? (
+        <p className="text-sm text-gray-500 italic mb-3">
+          Not published yet - the first game created from it publishes
+          version 1
+        </p>
+      ) : (
+        <ul className="space-y-1 mb-3">
+          {versions.map((version) => (
+            <li
+              key={version.version}
+              className="flex items-center justify-between gap-2 text-sm bg-gray-50 rounded px-2 py-1"
+            >
+              <span>
+                v{version.version}
+                <span className="ml-2 text-xs text-gray-500">
+                  {formatDate(version.publishedAt)}
+                </span>
+              </span>
+              <button
+                type="button"
+                className="text-xs text-blue-600 hover:text-blue-700"
+                onClick={() => onCompare(version.version)}
+              >
+                Compare with draft
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {comparison && (
+        <div className="mb-3 p-2 bg-gray-50 rounded border border-gray-200 text-sm">
+          <h3 className="font-medium text-gray-800 mb-1">
+            Draft changes since v{comparison.version}
+          </h3>
+          {comparison.diff.fields.length === 0 &&
+          comparison.diff.hexes.length === 0 ? (
+            <p className="text-gray-500 italic">No changes</p>
+          ) : (
+            <ul className="list-disc list-inside text-gray-700">
+              {comparison.diff.fields.map(({ field }) => (
+                <li key={field}>{field}</li>
+              ))}
+              {comparison.diff.hexes.length > 0 && (
+                <li>
+                  {comparison.diff.hexes.length} hex
+                  {comparison.diff.hexes.length === 1 ? "" : "es"}
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <button
+        type="button"
+        className="w-full px-3 py-1.5 text-sm font-medium rounded transition-colors bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white"
+        onClick={onPublish}
+        disabled={!canPublish}
+        title={canPublish ? undefined : publishDisabledReason}
+      >
+        Publish draft
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import { useState } from "react";
+import type { VictoryCondition, VictoryHex } from "@/shared/types";
+
+type ConditionType = VictoryCondition["type"];
+
+const CONDITION_LABELS: Record<ConditionType, string> = {
+  victoryPoints: "Reach victory points",
+  elimination: "Eliminate % of enemy units",
+  holdHex: "Hold hex at end of turn",
+};
+
+interface VictoryPanelProps {
+  victoryHexes: VictoryHex[];
+  victoryConditions: VictoryCondition[];
+  selectedHex: { row: number; column: number } | null;
+  turns: number;
+  onVictoryHexesChange: (victoryHexes: VictoryHex[]) => void;
+  onVictoryConditionsChange: (victoryConditions: VictoryCondition[]) => void;
+}
+
+// Map positions are shown 1-based, column first, as elsewhere in the editor
+function formatHex(coord: { row: number; column: number }) {
+  return `${coord.column + 1}-${coord.row + 1}`;
+}
+
+function describeCondition(condition: VictoryCondition) {
+  switch (condition.type) {
+    case "victoryPoints":
+      return `Player ${condition.playerIndex} wins at ${condition.points} VP`;
+    case "elimination":
+      return `Player ${condition.playerIndex} wins after eliminating ${condition.percent}% of enemy units`;
+    case "holdHex":
+      return `Player ${condition.playerIndex} wins holding ${formatHex(condition.hex)} at end of turn ${condition.turn}`;
+  }
+}
+
+export function VictoryPanel({
+  victoryHexes,
+  victoryConditions,
+  selectedHex,
+  turns,
+  onVictoryHexesChange,
+  onVictoryConditionsChange,
+}: VictoryPanelProps) {
+  const [hexPoints, setHexPoints] = useState(1);
+  const [hexController, setHexController] = useState(0);
+  const [conditionType, setConditionType] =
+    useState<ConditionType>("victoryPoints");
+  const [conditionPlayer, setConditionPlayer] = useState(1);
+  const [conditionValue, setConditionValue] = useState(5);
+
+  const selectedVictoryHex = selectedHex
+    ? victoryHexes.find(
+        (hex) =>
+          hex.row === selectedHex.row && hex.column === selectedHex.column
+      )
+    : undefined;
+
+  function handleAddVictoryHex() {
+    if (!selectedHex || selectedVictoryHex) return;
+    onVictoryHexesChange([
+      ...victoryHexes,
+      {
+        row: selectedHex.row,
+        column: selectedHex.column,
+        points: hexPoints,
+        ...(hexController > 0 && { initialController: hexController }),
+      },
+    ]);
+  }
+
+  function handleRemoveVictoryHex(hex: VictoryHex) {
+    onVictoryHexesChange(victoryHexes.filter((h) => h !== hex));
+    // Hold-hex conditions need the hex to be a victory hex
+    onVictoryConditionsChange(
+      victoryConditions.filter(
+        (c) =>
+          c.type !== "holdHex" ||
+          c.hex.row !== hex.row ||
+          c.hex.column !== hex.column
+      )
+    );
+  }
+
+  function handleAddCondition() {
+    let condition: VictoryCondition;
+    if (conditionType === "holdHex") {
+      if (!selectedVictoryHex) return;
+      condition = {
+        type: "holdHex",
+        playerIndex: conditionPlayer,
+        hex: { row: selectedVictoryHex.row, column: selectedVictoryHex.column },
+        turn: Math.min(Math.max(conditionValue, 1), turns),
+      };
+    } else if (conditionType === "elimination") {
+      condition = {
+        type: "elimination",
+        playerIndex: conditionPlayer,
+        percent: Math.min(Math.max(conditionValue, 1), 100),
+      };
+    } else {
+      condition = {
+        type: "victoryPoints",
+        playerIndex: conditionPlayer,
+        points: Math.max(conditionValue, 1),
+      };
+    }
+    onVictoryConditionsChange([...victoryConditions, condition]);
+  }
+
+  const valueLabel =
+    conditionType === "holdHex"
+      ? "Turn"
+      : conditionType === "elimination"
+      ? "Percent"
+      : "Points";
+
+  return (
+    <div>
+      {/* Victory point hexes */}
+      <div className="mb-6">
+        <h3 className="block mb-2 font-medium text-gray-800">Victory Hexes</h3>
+        {victoryHexes.length === 0 ? (
+          <p className="text-sm text-gray-500 italic mb-2">
+            No victory hexes defined
+          </p>
+        ) : (
+          <ul className="space-y-1 mb-3">
+            {victoryHexes.map((hex) => (
+              <li
+                key={`${hex.row},${hex.column}`}
+                className="flex items-center justify-between gap-2 text-sm bg-gray-50 rounded px-2 py-1"
+              >
+                <span>
+                  <span className="font-medium">{formatHex(hex)}</span>{" "}
+                  <span className="text-xs text-gray-500">
+                    {hex.points} VP
+                    {hex.initialController
+                      ? `, held by player ${hex.initialController}`
+                      : ""}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className="text-xs text-red-600 hover:text-red-700"
+                  onClick={() => handleRemoveVictoryHex(hex)}
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="p-2 bg-gray-50 rounded border border-gray-200">
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <label className="text-xs text-gray-600">
+              Points
+              <input
+                type="number"
+                min={0}
+                value={hexPoints}
+                onChange={(e) => setHexPoints(parseInt(e.target.value) || 0)}
+                className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Held at start by
+              <select
+                value={hexController}
+                onChange={(e) => setHexController(parseInt(e.target.value))}
+                className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900"
+              >
+                <option value={0}>Nobody</option>
+                <option value={1}>Player 1</option>
+                <option value={2}>Player 2</option>
+              </select>
+            </label>
+          </div>
+          <button
+            type="button"
+            className="w-full px-3 py-1.5 text-sm font-medium rounded transition-colors bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white"
+            onClick={handleAddVictoryHex}
+            disabled={!selectedHex || !!selectedVictoryHex}
+          >
+            {selectedHex
+              ? `Make ${formatHex(selectedHex)} a victory hex`
+              : "Select a hex to add it"}
+          </button>
+        </div>
+      </div>
+
+      {/* Sudden-death victory conditions */}
+      <div className="mb-4">
+        <h3 className="block mb-2 font-medium text-gray-800">
+          Victory Conditions
+        </h3>
+        <p className="text-xs text-gray-500 mb-2">
+          Checked at the end of every player turn. Otherwise the player with
+          more victory points wins after the last turn.
+        </p>
+        {victoryConditions.length === 0 ? (
+          <p className="text-sm text-gray-500 italic mb-2">
+            No victory conditions defined
+          </p>
+        ) : (
+          <ul className="space-y-1 mb-3">
+            {victoryConditions.map((condition, index) => (
+              <li
+                key={index}
+                className="flex items-center justify-between gap-2 text-sm bg-gray-50 rounded px-2 py-1"
+              >
+                <span>{describeCondition(condition)}</span>
+                <button
+                  type="button"
+                  className="text-xs text-red-600 hover:text-red-700"
+                  onClick={() =>
+                    onVictoryConditionsChange(
+                      victoryConditions.filter((_, i) => i !== index)
+                    )
+                  }
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="p-2 bg-gray-50 rounded border border-gray-200">
+          <select
+            value={conditionType}
+            onChange={(e) => setConditionType(e.target.value as ConditionType)}
+            className="w-full p-2 mb-2 border border-gray-300 rounded text-sm bg-white text-gray-900"
+          >
+            {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+              <option key={type} value={type}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            <select
+              value={conditionPlayer}
+              onChange={(e) => setConditionPlayer(parseInt(e.target.value))}
+              className="p-1 border border-gray-300 rounded text-sm bg-white text-gray-900"
+            >
+              <option value={1}>Player 1</option>
+              <option value={2}>Player 2</option>
+            </select>
+            <label className="text-xs text-gray-600 flex items-center gap-1">
+              {valueLabel}
+              <input
+                type="number"
+                min={1}
+                value={conditionValue}
+                onChange={(e) =>
+                  setConditionValue(parseInt(e.target.value) || 0)
+                }
+                className="w-full p-1 border border-gray-300 rounded text-sm bg-white text-gray-900 text-center"
+              />
+            </label>
+          </div>
+          {conditionType === "holdHex" && (
+            <p className="text-xs text-gray-500 mb-2">
+              {selectedVictoryHex
+                ? `Hex: ${formatHex(selectedVictoryHex)}`
+                : "Select a victory hex on the map"}
+            </p>
+          )}
+          <button
+            type="button"
+            className="w-full px-3 py-1.5 text-sm font-medium rounded transition-colors bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white"
+            onClick={handleAddCondition}
+            disabled={conditionType === "holdHex" && !selectedVictoryHex}
+          >
+            Add condition
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
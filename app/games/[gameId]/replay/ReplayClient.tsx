@@ -0,0 +1,433 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Header from "@/components/Header";
+import HexGrid from "@/components/HexGrid";
+import { getAllGameEvents, getGame } from "@/lib/game-api";
+import {
+  getScenario,
+  getScenarioVersion,
+  type Scenario,
+} from "@/lib/scenario-api";
+import { useAuth } from "@/lib/auth-client";
+import { applyEvent } from "@/shared/events";
+import { verifyRolls } from "@/shared/rng";
+import type { Game, GameEvent, HexCoordinate } from "@/shared/types";
+
+const PLAYBACK_INTERVAL_MS = 1000;
+
+// Map positions are shown 1-based, column first, as in the editor
+function formatHex(coord: HexCoordinate) {
+  return `${coord.column + 1}-${coord.row + 1}`;
+}
+
+function describeEvent(event: GameEvent) {
+  switch (event.type) {
+    case "gameCreated":
+      return `Game created by ${event.game.player1.name}`;
+    case "snapshot":
+      return "Game state recorded";
+    case "playerJoined":
+      return `${event.player.name} joined as player 2`;
+    case "unitMoved":
+      return `Player ${event.playerIndex ?? "?"} moved ${event.unitId} from ${formatHex(event.from)} to ${formatHex(event.to)}`;
+    case "attackResolved":
+      return `Player ${event.combat.playerIndex} attacked ${formatHex(event.combat.target)}: ${event.combat.result} (rolled ${event.combat.dieRoll})`;
+    case "phaseEnded":
+      return event.next
+        ? `Phase ended - player ${event.next.currentPlayerIndex}, ${event.next.phase} phase`
+        : "Phase ended - game over";
+    case "turnEnded":
+      return event.next
+        ? `Turn ended - turn ${event.next.turnNumber}, player ${event.next.currentPlayerIndex}`
+        : "Turn ended - game over";
+    case "playerResigned":
+      return `Player ${event.playerIndex} resigned`;
+  }
+}
+
+// Hexes to highlight for the event just played
+function eventHexes(event: GameEvent | undefined): HexCoordinate[] {
+  if (!event) return [];
+  if (event.type === "unitMoved") return [event.from, event.to];
+  if (event.type === "attackResolved") return [event.combat.target];
+  if (
+    (event.type === "phaseEnded" || event.type === "turnEnded") &&
+    event.schedule
+  ) {
+    return event.schedule.arrived.map((unit) => ({
+      row: unit.hexY,
+      column: unit.hexX,
+    }));
+  }
+  return [];
+}
+
+async function sha256Hex(text: string) {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export function ReplayClient({ gameId }: { gameId: string }) {
+  const router = useRouter();
+  const { isAuthenticated, isLoading } = useAuth();
+  const [game, setGame] = useState<Game | null>(null);
+  const [events, setEvents] = useState<GameEvent[]>([]);
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [seedVerified, setSeedVerified] = useState<boolean | null>(null);
+
+  // Redirect to home page if not authenticated, but preserve the intended destination
+  useEffect(() => {
+    if (!isLoading && !isAuthenticated) {
+      if (typeof window !== "undefined") {
+        sessionStorage.setItem("authRedirect", `/games/${gameId}/replay`);
+      }
+      router.push("/");
+    }
+  }, [isLoading, isAuthenticated, router, gameId]);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    let cancelled = false;
+    async function load() {
+      setLoading(true);
+      setError(null);
+      try {
+        const { game } = await getGame(gameId);
+        // Replay on the version the game pinned - games from before versioning use the draft
+        const [allEvents, scenario] = await Promise.all([
+          getAllGameEvents(gameId),
+          game.scenarioVersion !== undefined
+            ? getScenarioVersion(game.scenarioId, game.scenarioVersion).then(
+                (response) => response.version
+              )
+            : getScenario(game.scenarioId).then(
+                (response) => response.scenario
+              ),
+        ]);
+        if (cancelled) return;
+        setGame(game);
+        setEvents(allEvents);
+        setScenario(scenario);
+        setStep(0);
+      } catch (e) {
+        if (!cancelled) {
+          setError(e instanceof Error ? e.message : "Failed to load game");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, gameId]);
+
+  // Game state after each event
+  const replay = useMemo(() => {
+    const states: Game[] = [];
+    try {
+      let state: Game | null = null;
+      for (const event of events) {
+        state = applyEvent(state, event);
+        states.push(state);
+      }
+      return { states, error: null };
+    } catch (e) {
+      return {
+        states,
+        error: e instanceof Error ? e.message : "Event log is invalid",
+      };
+    }
+  }, [events]);
+
+  const lastStep = Math.max(replay.states.length - 1, 0);
+  const current = replay.states[step];
+  const currentEvent = events[step];
+
+  // First step of each turn, for jump-to-turn
+  const turnStarts = useMemo(() => {
+    const starts = new Map<number, number>();
+    replay.states.forEach((state, index) => {
+      if (!starts.has(state.turnNumber)) starts.set(state.turnNumber, index);
+    });
+    return [...starts.entries()];
+  }, [replay.states]);
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= lastStep) {
+      setPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(step + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, step, lastStep]);
+
+  // Once the seed is revealed, check it against the hash published at creation
+  useEffect(() => {
+    if (!game?.rngSeed || !game.rngSeedHash) {
+      setSeedVerified(null);
+      return;
+    }
+    void sha256Hex(game.rngSeed).then((hash) =>
+      setSeedVerified(hash === game.rngSeedHash)
+    );
+  }, [game]);
+
+  const diceCheck = useMemo(
+    () => (game?.rngSeed ? verifyRolls(game.rngSeed, game.rngRolls || []) : null),
+    [game]
+  );
+
+  const unitCounters = useMemo(
+    () =>
+      (current?.units || []).map((unit) => ({
+        ...unit,
+        label: scenario?.unitTypes?.[unit.unitType]?.name,
+      })),
+    [current, scenario]
+  );
+
+  if (isLoading || !isAuthenticated) {
+    return (
+      <div className="min-h-screen min-w-full bg-slate-100 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-10 h-10 border-4 border-gray-300 border-t-blue-500 rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-gray-600">
+            {isLoading
+              ? "Checking authentication..."
+              : "Redirecting to login..."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const notice = loading
+    ? "Loading replay..."
+    : error
+    ? error
+    : game && game.status !== "finished"
+    ? "Replays are available once the game is finished."
+    : events.length === 0
+    ? "This game has no recorded history."
+    : null;
+
+  return (
+    <div className="h-screen min-w-full bg-slate-100 flex flex-col overflow-hidden">
+      <Header title="Game Replay" />
+      <div className="flex flex-1 mt-14 px-6 py-6 gap-6 items-stretch overflow-hidden">
+        <aside className="w-[360px] min-w-[360px] flex-shrink-0 bg-white border border-gray-200 rounded-lg overflow-hidden flex flex-col text-gray-800 shadow-sm">
+          {notice ? (
+            <section className="p-4">
+              <p className="text-sm text-gray-600">{notice}</p>
+            </section>
+          ) : (
+            <>
+              {/* Playback controls */}
+              <section className="p-4 border-b border-gray-200">
+                <h3 className="text-sm font-semibold mb-2 text-gray-700">
+                  {scenario?.title || game?.scenarioId}
+                </h3>
+                <div className="grid grid-cols-5 gap-1 mb-3">
+                  <button
+                    type="button"
+                    className="px-2 py-1.5 bg-gray-500 hover:bg-gray-600 disabled:bg-gray-300 text-white rounded text-sm"
+                    onClick={() => setStep(0)}
+                    disabled={step === 0}
+                    title="First event"
+                  >
+                    ⏮
+                  </button>
+                  <button
+                    type="button"
+                    className="px-2 py-1.5 bg-gray-500 hover:bg-gray-600 disabled:bg-gray-300 text-white rounded text-sm"
+                    onClick={() => setStep(Math.max(step - 1, 0))}
+                    disabled={step === 0}
+                    title="Step back"
+                  >
+                    ◀
+                  </button>
+                  <button
+                    type="button"
+                    className="px-2 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white rounded text-sm"
+                    onClick={() => setPlaying(!playing)}
+                    disabled={!playing && step >= lastStep}
+                  >
+                    {playing ? "Pause" : "Play"}
+                  </button>
+                  <button
+                    type="button"
+                    className="px-2 py-1.5 bg-gray-500 hover:bg-gray-600 disabled:bg-gray-300 text-white rounded text-sm"
+                    onClick={() => setStep(Math.min(step + 1, lastStep))}
+                    disabled={step >= lastStep}
+                    title="Step forward"
+                  >
+                    ▶
+                  </button>
+                  <button
+                    type="button"
+                    className="px-2 py-1.5 bg-gray-500 hover:bg-gray-600 disabled:bg-gray-300 text-white rounded text-sm"
+                    onClick={() => setStep(lastStep)}
+                    disabled={step >= lastStep}
+                    title="Last event"
+                  >
+                    ⏭
+                  </button>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={lastStep}
+                  value={step}
+                  onChange={(e) => setStep(parseInt(e.target.value))}
+                  className="w-full mb-2"
+                />
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-gray-600">
+                    Event {step + 1} of {events.length}
+                  </span>
+                  <select
+                    value=""
+                    onChange={(e) => {
+                      setPlaying(false);
+                      setStep(parseInt(e.target.value));
+                    }}
+                    className="p-1 border border-gray-300 rounded text-sm bg-white text-gray-900"
+                  >
+                    <option value="" disabled>
+                      Jump to turn...
+                    </option>
+                    {turnStarts.map(([turnNumber, index]) => (
+                      <option key={turnNumber} value={index}>
+                        Turn {turnNumber}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                {replay.error && (
+                  <p className="mt-2 text-sm text-red-600">
+                    History stops early: {replay.error}
+                  </p>
+                )}
+              </section>
+
+              {/* Current event and game state */}
+              <section className="p-4 border-b border-gray-200 text-sm">
+                {currentEvent && (
+                  <p className="mb-2 font-medium">
+                    {describeEvent(currentEvent)}
+                  </p>
+                )}
+                {current && (
+                  <p className="text-gray-600">
+                    Turn {current.turnNumber}
+                    {scenario ? ` of ${scenario.turns}` : ""} · Player{" "}
+                    {current.currentPlayerIndex ?? 1} ·{" "}
+                    {current.phase ?? "reinforcement"} phase
+                    {current.status === "finished" ? " · Game over" : ""}
+                  </p>
+                )}
+                {diceCheck && (
+                  <p
+                    className={`mt-2 text-xs ${
+                      diceCheck.valid && seedVerified !== false
+                        ? "text-green-700"
+                        : "text-red-600"
+                    }`}
+                  >
+                    {!diceCheck.valid
+                      ? `Dice check failed: ${diceCheck.error}`
+                      : seedVerified === false
+                      ? "Dice seed does not match the hash published at the start of the game"
+                      : `All ${game?.rngRolls?.length ?? 0} dice rolls verified against the game seed`}
+                  </p>
+                )}
+              </section>
+
+              {/* Combat log up to the current event, latest first */}
+              <div className="flex-1 overflow-y-auto p-4">
+                <h3 className="text-sm font-semibold mb-2 text-gray-700">
+                  Combat Log
+                </h3>
+                {(current?.combatLog || []).length === 0 ? (
+                  <p className="text-sm text-gray-400 italic">
+                    No combat yet
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {[...(current?.combatLog || [])]
+                      .reverse()
+                      .map((combat, index) => (
+                        <li
+                          key={`${combat.createdAt}-${index}`}
+                          className={`text-sm rounded px-2 py-1 ${
+                            index === 0 &&
+                            currentEvent?.type === "attackResolved"
+                              ? "bg-yellow-100"
+                              : "bg-gray-50"
+                          }`}
+                        >
+                          <div>
+                            Turn {combat.turnNumber}, player{" "}
+                            {combat.playerIndex} → {formatHex(combat.target)}:{" "}
+                            <span className="font-semibold">
+                              {combat.result}
+                            </span>
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {combat.attackStrength} vs {combat.defenseStrength}
+                            , column {combat.columnIndex + 1}
+                            {combat.columnShift !== 0
+                              ? ` (shift ${combat.columnShift})`
+                              : ""}
+                            , rolled {combat.dieRoll}
+                            {combat.losses.length > 0 &&
+                              ` - ${combat.losses
+                                .map((loss) =>
+                                  loss.eliminated
+                                    ? `${loss.unitId} eliminated`
+                                    : loss.retreatedTo
+                                    ? `${loss.unitId} retreated`
+                                    : `${loss.unitId} -${loss.stepsLost}`
+                                )
+                                .join(", ")}`}
+                          </div>
+                        </li>
+                      ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </aside>
+
+        <main className="flex-1 min-w-0 flex flex-col overflow-hidden">
+          <div className="flex-1 w-full overflow-auto rounded-lg border border-gray-200 bg-white p-4 shadow-inner flex items-start justify-start">
+            {scenario && current && !notice && (
+              <HexGrid
+                columns={scenario.columns}
+                rows={scenario.rows}
+                hexes={scenario.hexes}
+                units={unitCounters}
+                highlightedHexes={eventHexes(currentEvent)}
+              />
+            )}
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+export const dynamic = 'force-dynamic';
+
+import { ReplayClient } from './ReplayClient';
+
+export default async function ReplayPage({
+  params,
+}: {
+  params: Promise<{ gameId: string }>;
+}) {
+  const { gameId } = await params;
+  return <ReplayClient gameId={gameId} />;
+}
@@ -2,7 +2,11 @@
 
 import { useAuth, logout } from "@/lib/auth-client";
 
-export default function Header() {
+interface HeaderProps {
+  title?: string;
+}
+
+export default function Header({ title = "Scenario Editor" }: HeaderProps) {
   const { user, isLoading } = useAuth();
 
   function handleLogout() {
@@ -11,9 +15,7 @@ export default function Header() {
 
   return (
     <header className="fixed top-0 left-0 right-0 bg-gray-800 text-white h-14 px-6 flex justify-between items-center z-[1000] shadow-md">
-      <h1 className="text-lg font-semibold m-0 leading-none">
-        Scenario Editor
-      </h1>
+      <h1 className="text-lg font-semibold m-0 leading-none">{title}</h1>
       <div className="flex items-center gap-4">
         {isLoading ? (
           <span className="text-sm">Checking...</span>
@@ -1,6 +1,7 @@
 "use client";
 
 import { useEffect, useRef, useState } from "react";
+import { HEX_SIDES, hasSide, hexToPixel } from "@/shared/hex";
 
 const TERRAIN_COLORS: Record<string, string> = {
   clear: "#d2b48c",
@@ -20,11 +21,27 @@ interface Hex {
   roads?: number; // Bitmask for road sides
 }
 
+const PLAYER_COLORS: Record<number, string> = {
+  1: "#1d4ed8",
+  2: "#b91c1c",
+};
+
+interface UnitCounter {
+  unitType: string;
+  ownerPlayerIndex: number;
+  hexX: number; // Column
+  hexY: number; // Row
+  label?: string; // Text shown on the counter (defaults to unitType)
+  outOfSupply?: boolean; // Drawn faded with a dashed outline
+}
+
 interface HexGridProps {
   columns: number;
   rows: number;
   hexes?: Hex[];
   selectedTerrain?: string;
+  highlightedHexes?: Array<{ row: number; column: number }>; // e.g. reachable hexes from the movement engine
+  units?: UnitCounter[];
   onHexClick?: (row: number, column: number) => void;
   onHexHover?: (row: number | null, column: number | null) => void;
   onHexSelect?: (row: number | null, column: number | null) => void;
@@ -35,6 +52,8 @@ export default function HexGrid({
   rows,
   hexes = [],
   selectedTerrain = "clear",
+  highlightedHexes = [],
+  units = [],
   onHexClick,
   onHexHover,
   onHexSelect,
@@ -75,6 +94,15 @@ export default function HexGrid({
       const key = `${hex.row},${hex.column}`;
       hexMap.set(key, hex);
     });
+    // Group unit counters by hex so stacks can be drawn offset from each other
+    const unitsByHex = new Map<string, UnitCounter[]>();
+    units.forEach((unit) => {
+      const key = `${unit.hexY},${unit.hexX}`;
+      unitsByHex.set(key, [...(unitsByHex.get(key) || []), unit]);
+    });
+    const highlightedKeys = new Set(
+      highlightedHexes.map((hex) => `${hex.row},${hex.column}`)
+    );
 
     // Calculate hex size
     const hexSize = 28; // distance from center to left/right vertex
@@ -118,6 +146,16 @@ export default function HexGrid({
       "g"
     );
     roadLayer.setAttribute("id", "hex-road-layer");
+    const highlightLayer = document.createElementNS(
+      "http://www.w3.org/2000/svg",
+      "g"
+    );
+    highlightLayer.setAttribute("id", "hex-highlight-layer");
+    const unitLayer = document.createElementNS(
+      "http://www.w3.org/2000/svg",
+      "g"
+    );
+    unitLayer.setAttribute("id", "hex-unit-layer");
     const selectionLayer = document.createElementNS(
       "http://www.w3.org/2000/svg",
       "g"
@@ -148,11 +186,10 @@ export default function HexGrid({
         const key = `${row},${col}`;
         const hex = hexMap.get(key) || { row, column: col, terrain: "clear", rivers: 0, roads: 0 };
 
-        const x = col * horizontalSpacing;
-        const y = row * verticalSpacing + (col % 2 === 1 ? hexHeight / 2 : 0);
-
-        const centerX = x + hexWidth / 2;
-        const centerY = y + hexHeight / 2;
+        const { x: centerX, y: centerY } = hexToPixel(
+          { row, column: col },
+          hexSize
+        );
         const points = makeHexPoints(centerX, centerY);
 
         const basePolygon = document.createElementNS(
@@ -222,8 +259,8 @@ export default function HexGrid({
             [4, 3], // top left/Northwest (bit 5)
           ];
 
-          for (let bit = 0; bit < 6; bit++) {
-            if ((rivers & (1 << bit)) !== 0) {
+          for (const bit of HEX_SIDES) {
+            if (hasSide(rivers, bit)) {
               const [startIdx, endIdx] = sideConnections[bit];
               const start = pointCoords[startIdx];
               const end = pointCoords[endIdx];
@@ -270,8 +307,8 @@ export default function HexGrid({
             [4, 3], // top left/Northwest (bit 5)
           ];
 
-          for (let bit = 0; bit < 6; bit++) {
-            if ((roads & (1 << bit)) !== 0) {
+          for (const bit of HEX_SIDES) {
+            if (hasSide(roads, bit)) {
               const [startIdx, endIdx] = sideConnections[bit];
               const start = pointCoords[startIdx];
               const end = pointCoords[endIdx];
@@ -297,6 +334,70 @@ export default function HexGrid({
           }
         }
 
+        // Highlight polygon - translucent fill for hexes such as movement range
+        if (highlightedKeys.has(key)) {
+          const highlightPolygon = document.createElementNS(
+            "http://www.w3.org/2000/svg",
+            "polygon"
+          );
+          highlightPolygon.setAttribute("points", points.join(" "));
+          highlightPolygon.setAttribute("fill", "#FFFFFF");
+          highlightPolygon.setAttribute("fill-opacity", "0.35");
+          highlightPolygon.setAttribute("stroke", "none");
+          highlightPolygon.setAttribute("pointer-events", "none");
+          highlightLayer.appendChild(highlightPolygon);
+        }
+
+        // Unit counters - square counters coloured by side, stacked with a small offset
+        const hexUnits = unitsByHex.get(key) || [];
+        const counterSize = hexSize * 0.9;
+        const stackOffset = 3;
+        hexUnits.forEach((unit, index) => {
+          const offset = (index - (hexUnits.length - 1) / 2) * stackOffset;
+          const counterX = centerX - counterSize / 2 + offset;
+          const counterY = centerY - counterSize / 2 + offset + 3; // Leave room for the hex label
+          const counter = document.createElementNS(
+            "http://www.w3.org/2000/svg",
+            "rect"
+          );
+          counter.setAttribute("x", counterX.toString());
+          counter.setAttribute("y", counterY.toString());
+          counter.setAttribute("width", counterSize.toString());
+          counter.setAttribute("height", counterSize.toString());
+          counter.setAttribute("rx", "2");
+          counter.setAttribute(
+            "fill",
+            PLAYER_COLORS[unit.ownerPlayerIndex] || "#374151"
+          );
+          counter.setAttribute("stroke", "#111827");
+          counter.setAttribute("stroke-width", "1");
+          counter.setAttribute("pointer-events", "none");
+          if (unit.outOfSupply) {
+            counter.setAttribute("fill-opacity", "0.45");
+            counter.setAttribute("stroke-dasharray", "2 2");
+          }
+
+          const counterLabel = document.createElementNS(
+            "http://www.w3.org/2000/svg",
+            "text"
+          );
+          counterLabel.setAttribute("x", (counterX + counterSize / 2).toString());
+          counterLabel.setAttribute("y", (counterY + counterSize / 2).toString());
+          counterLabel.setAttribute("fill", "#ffffff");
+          counterLabel.setAttribute("font-size", (hexSize * 0.3).toString());
+          counterLabel.setAttribute(
+            "font-family",
+            'Inter, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif'
+          );
+          counterLabel.setAttribute("text-anchor", "middle");
+          counterLabel.setAttribute("dominant-baseline", "central");
+          counterLabel.setAttribute("pointer-events", "none");
+          counterLabel.textContent = (unit.label || unit.unitType).slice(0, 4);
+
+          unitLayer.appendChild(counter);
+          unitLayer.appendChild(counterLabel);
+        });
+
         // Selection polygon - yellow solid outline (always visible when selected)
         const selectionPolygon = document.createElementNS(
           "http://www.w3.org/2000/svg",
@@ -437,10 +538,12 @@ export default function HexGrid({
     svg.appendChild(baseLayer);
     svg.appendChild(riverLayer);
     svg.appendChild(roadLayer);
+    svg.appendChild(highlightLayer);
+    svg.appendChild(unitLayer);
     svg.appendChild(selectionLayer);
     svg.appendChild(hoverLayer);
     svg.appendChild(detectionLayer);
-  }, [columns, rows, hexes, selectedTerrain, selectedHex]);
+  }, [columns, rows, hexes, selectedTerrain, selectedHex, highlightedHexes, units]);
 
   if (columns === 0 || rows === 0) {
     return (
@@ -0,0 +1,60 @@
+/**
+ * API client for games (client-side)
+ * Uses the same API routes as the server-side API
+ */
+
+import { apiRequest } from "./api-client";
+import type { GameCommand } from "@/shared/commands";
+import type { CombatRecord, Game, GameEvent } from "@/shared/types";
+
+export interface GameEventsResponse {
+  gameId: string;
+  events: GameEvent[];
+  hasMore: boolean;
+}
+
+/**
+ * Get a specific game by ID
+ */
+export async function getGame(gameId: string, accessToken?: string | null): Promise<{ gameId: string; game: Game }> {
+  return await apiRequest('GET', `/api/games/${gameId}`, undefined, accessToken);
+}
+
+/**
+ * Get a page of a game's events after the given sequence number
+ */
+export async function getGameEvents(
+  gameId: string,
+  since: number = 0,
+  limit: number = 1000,
+  accessToken?: string | null
+): Promise<GameEventsResponse> {
+  return await apiRequest('GET', `/api/games/${gameId}/events?since=${since}&limit=${limit}`, undefined, accessToken);
+}
+
+/**
+ * Get every event of a game, following pages until the log is exhausted
+ */
+export async function getAllGameEvents(gameId: string, accessToken?: string | null): Promise<GameEvent[]> {
+  const events: GameEvent[] = [];
+  let since = 0;
+  for (;;) {
+    const page = await getGameEvents(gameId, since, 1000, accessToken);
+    events.push(...page.events);
+    if (!page.hasMore || page.events.length === 0) {
+      return events;
+    }
+    since = page.events[page.events.length - 1].seq;
+  }
+}
+
+/**
+ * Submit a command (move, attack, end phase, end turn, resign)
+ */
+export async function submitCommand(
+  gameId: string,
+  command: GameCommand,
+  accessToken?: string | null
+): Promise<{ gameId: string; game: Game; combat?: CombatRecord }> {
+  return await apiRequest('POST', `/api/games/${gameId}/commands`, command, accessToken);
+}
@@ -0,0 +1,52 @@
+import { Game, GameEvent, Scenario } from '@/shared/types';
+import { CommandResult, GameCommand, applyCommand } from '@/shared/commands';
+import { createGameEvents } from '@/shared/events';
+import { createDieRoller } from '@/shared/rng';
+import { getPlayerIndex } from '@/shared/turns';
+import { ensureGameSeed } from './game-rng';
+import { ConditionalWriteError, saveGameWithEvents } from './api-db';
+
+export type SavedGameChange = { valid: true; game: Game } | { valid: false; status: 409; error: string };
+
+export type ExecutedCommand =
+  | (Extract<CommandResult, { valid: true }> & { events: GameEvent[] })
+  | Extract<CommandResult, { valid: false }>;
+
+/**
+ * Apply a command with the game's seeded dice, recording any rolls it makes
+ * on the returned game and in the events to append. The caller persists both.
+ */
+export function executeCommand(game: Game, scenario: Scenario, userId: string, command: GameCommand): ExecutedCommand {
+  const seeded = ensureGameSeed(game);
+  const previousRolls = seeded.game.rngRolls || [];
+  const rolls = [...previousRolls];
+  const result = applyCommand(seeded.game, scenario, userId, command, createDieRoller(seeded.seed, rolls));
+  if (!result.valid) {
+    return result;
+  }
+  const events = createGameEvents(seeded.game, result.event, {
+    playerIndex: getPlayerIndex(game, userId) ?? undefined,
+    rolls: rolls.slice(previousRolls.length),
+  });
+  return {
+    ...result,
+    events,
+    game: { ...result.game, rngRolls: rolls, eventSeq: events[events.length - 1].seq },
+  };
+}
+
+/**
+ * Save a changed game and its events. If another request saved the game after
+ * it was read, nothing is written and the change is rejected with a 409 - the
+ * player reloads the game and tries again against its current state.
+ */
+export async function saveGameChange(game: Game, events: GameEvent[]): Promise<SavedGameChange> {
+  try {
+    return { valid: true, game: await saveGameWithEvents(game, events) };
+  } catch (error) {
+    if (error instanceof ConditionalWriteError) {
+      return { valid: false, status: 409, error: 'The game was changed by another request - reload it and try again' };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,29 @@
+import { createHash, randomBytes } from 'crypto';
+import { Game } from '@/shared/types';
+
+/**
+ * SHA-256 commitment for a game seed (hex), published with the game
+ */
+export function hashSeed(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * Fresh secret seed and its published hash for a new game
+ */
+export function createGameSeed(): { rngSeed: string; rngSeedHash: string } {
+  const rngSeed = randomBytes(32).toString('hex');
+  return { rngSeed, rngSeedHash: hashSeed(rngSeed) };
+}
+
+/**
+ * Seed for the game's dice. Games created before seeded dice existed are
+ * given (and must then save) a new seed the first time they roll.
+ */
+export function ensureGameSeed(game: Game): { game: Game; seed: string } {
+  if (game.rngSeed) {
+    return { game, seed: game.rngSeed };
+  }
+  const { rngSeed, rngSeedHash } = createGameSeed();
+  return { game: { ...game, rngSeed, rngSeedHash, rngRolls: game.rngRolls || [] }, seed: rngSeed };
+}
@@ -3,26 +3,20 @@
  * Uses the same API routes as the server-side API
  */
 
-import { createAuthClient } from "better-auth/react";
-
-// Use window.location.origin at runtime - always correct, no build-time config needed
-const getAPIBaseURL = () => {
-  if (typeof window === 'undefined') {
-    return process.env.NEXT_PUBLIC_API_URL || '';
-  }
-  // Use window.location.origin - API is on the same domain
-  return window.location.origin;
-};
-
-const API_BASE_URL = getAPIBaseURL();
-
-// Better Auth client for getting session tokens
-const authClient = typeof window !== 'undefined' 
-  ? createAuthClient({
-      baseURL: window.location.origin,
-      basePath: '/api/auth',
-    })
-  : null;
+import { apiRequest } from "./api-client";
+import type {
+  Reinforcement,
+  ScenarioBundle,
+  ScenarioDiff,
+  ScenarioLineage,
+  ScenarioRules,
+  ScenarioVersionSummary,
+  StartingUnit,
+  UnitType,
+  VictoryCondition,
+  VictoryHex,
+  Withdrawal,
+} from "@/shared/types";
 
 export interface Scenario {
   scenarioId: string;
@@ -38,7 +32,28 @@ export interface Scenario {
     rivers: number;
     roads: number;
   }>;
+  unitTypes?: Record<string, UnitType>;
+  startingUnits?: StartingUnit[];
+  fogOfWar?: boolean;
+  victoryHexes?: VictoryHex[];
+  victoryConditions?: VictoryCondition[];
+  reinforcements?: Reinforcement[];
+  withdrawals?: Withdrawal[];
+  rules?: ScenarioRules;
+  ownerId?: string;
+  createdBy?: string;
+  forkedFrom?: ScenarioLineage;
+  publishedVersion?: number;
+  publishedAt?: string;
   createdAt?: string;
+  updatedAt?: string;
+}
+
+// A published, immutable version of a scenario
+export interface ScenarioVersion extends Omit<Scenario, 'publishedVersion' | 'publishedAt'> {
+  version: number;
+  publishedAt: string;
+  publishedBy?: string;
 }
 
 export interface ScenariosResponse {
@@ -46,133 +61,25 @@ export interface ScenariosResponse {
   count: number;
   hasMore: boolean;
   nextToken?: string;
+  user?: { userId: string }; // The caller, as identified by the API - compare with Scenario.ownerId
 }
 
 /**
- * Get access token from Better Auth session (client-side)
- * Returns the Cognito ID token for API authentication
- */
-async function getAccessToken(): Promise<string | null> {
-  try {
-    if (!authClient || typeof window === 'undefined') {
-      return null;
-    }
-    
-    const sessionResponse = await authClient.getSession();
-    const sessionData = (sessionResponse && typeof sessionResponse === 'object' && 'data' in sessionResponse)
-      ? (sessionResponse as any).data
-      : (sessionResponse as any);
-    
-    // Check if user is authenticated
-    if (!sessionData?.user) {
-      // No session - user not logged in, return null silently
-      return null;
-    }
-    
-    // Try multiple possible paths for the ID token
-    // Better Auth client might return: { data: { session: { idToken, ... }, user: {...} } }
-    // or: { data: { idToken, user: {...} } }
-    // or: { session: { idToken, ... }, user: {...} }
-    let idToken = sessionData?.session?.idToken 
-      || sessionData?.idToken 
-      || (sessionData?.session && (sessionData.session as any).idToken)
-      || null;
-    
-    // If ID token is not in the session data, try fetching it from the session token endpoint
-    // This endpoint extracts the ID token from the server-side session
-    if (!idToken) {
-      try {
-        const tokenResponse = await fetch('/api/docs/session-token', {
-          credentials: 'include'
-        });
-        const tokenData = await tokenResponse.json();
-        if (tokenData.authenticated && tokenData.token) {
-          idToken = tokenData.token;
-        }
-      } catch (fetchError) {
-        // Silently fail - we'll try without token and let the API return 401
-      }
-    }
-    
-    return idToken;
-  } catch (e) {
-    // Silently return null - the API will handle authentication errors
-    return null;
-  }
-}
-
-/**
- * Make an authenticated API request
- */
-async function apiRequest(
-  method: string,
-  path: string,
-  body?: any,
-  accessToken?: string | null
-): Promise<any> {
-  const url = `${API_BASE_URL}${path}`;
-  
-  const headers: Record<string, string> = {};
-  
-  if (body) {
-    headers['Content-Type'] = 'application/json';
-  }
-  
-  const token = accessToken || await getAccessToken();
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
-  
-  const options: RequestInit = {
-    method,
-    headers,
-    credentials: 'include',
-    cache: 'no-store',
-  };
-  
-  if (body) {
-    options.body = JSON.stringify(body);
-  }
-  
-  let response: Response;
-  try {
-    response = await fetch(url, options);
-  } catch (error: any) {
-    console.error('[Scenario API Client] Fetch error:', error);
-    throw new Error(`Network error: ${error.message || 'Failed to fetch'}`);
-  }
-  
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({ error: 'Unknown error', Message: null }));
-    console.error('[Scenario API Client] API error:', {
-      status: response.status,
-      statusText: response.statusText,
-      error: errorData,
-      url,
-    });
-    
-    if (response.status === 403 && !token) {
-      throw new Error('Authentication required. Please log in.');
-    }
-    
-    throw new Error(errorData.error || errorData.Message || `API request failed: ${response.status} ${response.statusText}`);
-  }
-  
-  return await response.json();
-}
-
-/**
- * Get all scenarios
+ * Get all scenarios, or only the caller's own when `mine` is set
  */
 export async function getAllScenarios(
   limit: number = 100,
   nextToken?: string | null,
-  accessToken?: string | null
+  accessToken?: string | null,
+  mine: boolean = false
 ): Promise<ScenariosResponse> {
   let path = `/api/scenarios?limit=${limit}`;
   if (nextToken) {
     path += `&nextToken=${encodeURIComponent(nextToken)}`;
   }
+  if (mine) {
+    path += '&mine=true';
+  }
   return await apiRequest('GET', path, undefined, accessToken);
 }
 
@@ -208,3 +115,61 @@ export async function deleteScenario(scenarioId: string, accessToken?: string |
   return await apiRequest('DELETE', `/api/scenarios/${scenarioId}`, undefined, accessToken);
 }
 
+/**
+ * Export a scenario (its draft, or a published version) as a portable bundle
+ */
+export async function exportScenario(scenarioId: string, version?: number, accessToken?: string | null): Promise<ScenarioBundle> {
+  const query = version !== undefined ? `?version=${version}` : '';
+  return await apiRequest('GET', `/api/scenarios/${scenarioId}/export${query}`, undefined, accessToken);
+}
+
+/**
+ * Create a new scenario from a bundle - older bundle formats are migrated by the API
+ */
+export async function importScenario(bundle: unknown, accessToken?: string | null): Promise<{ scenario: Scenario }> {
+  return await apiRequest('POST', '/api/scenarios/import', bundle, accessToken);
+}
+
+/**
+ * Copy a scenario (its draft, or a published version) into a new scenario owned by the caller
+ */
+export async function forkScenario(
+  scenarioId: string,
+  options: { title?: string; version?: number } = {},
+  accessToken?: string | null
+): Promise<{ scenario: Scenario }> {
+  return await apiRequest('POST', `/api/scenarios/${scenarioId}/fork`, options, accessToken);
+}
+
+/**
+ * Publish the scenario's draft as a new immutable version
+ */
+export async function publishScenario(scenarioId: string, accessToken?: string | null): Promise<{ version: ScenarioVersion }> {
+  return await apiRequest('POST', `/api/scenarios/${scenarioId}/versions`, {}, accessToken);
+}
+
+/**
+ * List a scenario's published versions, newest first
+ */
+export async function getScenarioVersions(scenarioId: string, accessToken?: string | null): Promise<{ versions: ScenarioVersionSummary[] }> {
+  return await apiRequest('GET', `/api/scenarios/${scenarioId}/versions`, undefined, accessToken);
+}
+
+/**
+ * Get a published version of a scenario
+ */
+export async function getScenarioVersion(scenarioId: string, version: number, accessToken?: string | null): Promise<{ version: ScenarioVersion }> {
+  return await apiRequest('GET', `/api/scenarios/${scenarioId}/versions/${version}`, undefined, accessToken);
+}
+
+/**
+ * Compare two versions of a scenario - "draft" stands for the unpublished draft
+ */
+export async function diffScenarioVersions(
+  scenarioId: string,
+  from: number | 'draft',
+  to: number | 'draft' = 'draft',
+  accessToken?: string | null
+): Promise<{ diff: ScenarioDiff }> {
+  return await apiRequest('GET', `/api/scenarios/${scenarioId}/diff?from=${from}&to=${to}`, undefined, accessToken);
+}
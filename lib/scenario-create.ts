@@ -0,0 +1,91 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Hex, Scenario, ScenarioContent } from '@/shared/types';
+import { validateOrderOfBattle } from '@/shared/units';
+import { validateVictoryConditions } from '@/shared/victory';
+import { validateSupplyRules } from '@/shared/supply';
+import { validateSchedule } from '@/shared/reinforcements';
+
+export type NewScenarioResult = { valid: true; scenario: Scenario } | { valid: false; error: string };
+
+/**
+ * Check new scenario content and build the record to save, owned by the given
+ * user. Creating a scenario and importing a bundle both go through here, so
+ * they accept exactly the same scenarios.
+ */
+export function buildNewScenario(content: ScenarioContent, owner: { ownerId: string; createdBy: string }): NewScenarioResult {
+  const { title, description, columns, rows, turns, hexes, unitTypes, startingUnits, combatResultsTable, fogOfWar, victoryHexes, victoryConditions, reinforcements, withdrawals, rules } = content;
+
+  const orderOfBattle = validateOrderOfBattle({ rows, columns, unitTypes, startingUnits, rules });
+  if (!orderOfBattle.valid) {
+    return orderOfBattle;
+  }
+
+  const victory = validateVictoryConditions({ rows, columns, turns, victoryHexes, victoryConditions });
+  if (!victory.valid) {
+    return victory;
+  }
+
+  // Generate default hexes if not provided
+  const defaultHexes: Hex[] = [];
+  if (!hexes || !Array.isArray(hexes)) {
+    // Generate all hexes with default 'clear' terrain
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        defaultHexes.push({ row, column: col, terrain: 'clear', rivers: 0, roads: 0 });
+      }
+    }
+  } else {
+    // Create a map of provided hexes
+    const hexMap = new Map<string, Hex>();
+    for (const hex of hexes) {
+      if (hex.row >= 0 && hex.row < rows && hex.column >= 0 && hex.column < columns) {
+        hexMap.set(`${hex.row},${hex.column}`, hex);
+      }
+    }
+
+    // Fill in all hexes, using provided ones or defaulting to 'clear'
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        const key = `${row},${col}`;
+        const providedHex = hexMap.get(key);
+        defaultHexes.push(providedHex || { row, column: col, terrain: 'clear', rivers: 0, roads: 0 });
+      }
+    }
+  }
+
+  const scenario: Scenario = {
+    scenarioId: uuidv4(),
+    ownerId: owner.ownerId,
+    createdBy: owner.createdBy,
+    title,
+    description,
+    columns,
+    rows,
+    turns,
+    hexes: defaultHexes,
+    unitTypes: unitTypes || {},
+    startingUnits: startingUnits || [],
+    ...(combatResultsTable && { combatResultsTable }),
+    fogOfWar: fogOfWar ?? false,
+    victoryHexes: victoryHexes || [],
+    victoryConditions: victoryConditions || [],
+    reinforcements: reinforcements || [],
+    withdrawals: withdrawals || [],
+    ...(rules && { rules }),
+    createdAt: new Date().toISOString(),
+    queryKey: 'ALL_SCENARIOS'
+  };
+
+  // Supply sources and reinforcement entry hexes are checked against the final terrain
+  const schedule = validateSchedule(scenario);
+  if (!schedule.valid) {
+    return schedule;
+  }
+
+  const supply = validateSupplyRules(scenario);
+  if (!supply.valid) {
+    return supply;
+  }
+
+  return { valid: true, scenario };
+}
@@ -0,0 +1,761 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, PutCommand, GetCommand, ScanCommand, QueryCommand, DeleteCommand, BatchGetCommand, UpdateCommand, TransactWriteCommand, TransactWriteCommandInput } from '@aws-sdk/lib-dynamodb';
+import { Game, GameEvent, Scenario, ScenarioVersion, ScenarioVersionSummary } from '@/shared/types';
+import { createScenarioVersion } from '@/shared/versions';
+import { ConditionalWriteError, PaginatedResult, SchemaBackfillCounts, SchemaBackfillReport, StorageBackend } from './types';
+import { GAME_SCHEMA_VERSION, SCENARIO_SCHEMA_VERSION, getSchemaVersion } from './migrations';
+import { decodePageToken, encodePageToken, fromStoredGame, fromStoredScenario, gameConflictMessage, getGameUpdatedAt, nextGameVersion, pageSize, publishConflictMessage, readPageToken, toStoredGame, toStoredScenario } from './records';
+
+const GAMES_TABLE = process.env.GAMES_TABLE || process.env.NEXT_PUBLIC_GAMES_TABLE || '';
+const PLAYER_GAMES_TABLE = process.env.PLAYER_GAMES_TABLE || process.env.NEXT_PUBLIC_PLAYER_GAMES_TABLE || '';
+const SCENARIOS_TABLE = process.env.SCENARIOS_TABLE || process.env.NEXT_PUBLIC_SCENARIOS_TABLE || '';
+const GAME_EVENTS_TABLE = process.env.GAME_EVENTS_TABLE || process.env.NEXT_PUBLIC_GAME_EVENTS_TABLE || '';
+const SCENARIO_VERSIONS_TABLE = process.env.SCENARIO_VERSIONS_TABLE || process.env.NEXT_PUBLIC_SCENARIO_VERSIONS_TABLE || '';
+
+// Initialize AWS SDK v3 DynamoDB client
+// AWS SDK will automatically resolve credentials from:
+// - Environment variables (AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN)
+// - AWS credentials file (~/.aws/credentials) - mounted in Docker container
+// - IAM role (when running on EC2/Lambda)
+// Deployed environments use real DynamoDB - configured via environment variables
+let dynamodbClient: DynamoDBDocumentClient | null = null;
+
+// Helper function to validate DynamoDB configuration at runtime (not build time)
+function validateDynamoDBConfig() {
+  if (!SCENARIOS_TABLE || !GAMES_TABLE || !PLAYER_GAMES_TABLE || !GAME_EVENTS_TABLE || !SCENARIO_VERSIONS_TABLE) {
+    throw new Error('DynamoDB table names not configured. Set SCENARIOS_TABLE, GAMES_TABLE, PLAYER_GAMES_TABLE, GAME_EVENTS_TABLE, and SCENARIO_VERSIONS_TABLE environment variables.');
+  }
+}
+
+// Initialize DynamoDB client lazily (only when needed, not at module load time)
+function getDynamoDBClient(): DynamoDBDocumentClient {
+  if (!dynamodbClient) {
+    validateDynamoDBConfig();
+    const client = new DynamoDBClient({
+      region: process.env.AWS_REGION || process.env.NEXT_PUBLIC_AWS_REGION || 'us-east-1'
+    });
+    dynamodbClient = DynamoDBDocumentClient.from(client);
+  }
+  
+  return dynamodbClient;
+}
+
+type TransactItem = NonNullable<TransactWriteCommandInput['TransactItems']>[number];
+
+// A transaction item, with the error to report if its condition fails
+interface GuardedWrite {
+  item: TransactItem;
+  conflict?: string;
+}
+
+// Write every item or none, reporting a failed condition - or a clash with another transaction on the same item - as ConditionalWriteError
+async function transactWrite(writes: GuardedWrite[]): Promise<void> {
+  try {
+    await getDynamoDBClient().send(new TransactWriteCommand({
+      TransactItems: writes.map(write => write.item)
+    }));
+  } catch (error: any) {
+    if (error?.name === 'TransactionCanceledException') {
+      const reasons: Array<{ Code?: string } | undefined> = error.CancellationReasons || [];
+      const failed = reasons.findIndex(reason => reason?.Code === 'ConditionalCheckFailed' || reason?.Code === 'TransactionConflict');
+      if (failed !== -1) {
+        throw new ConditionalWriteError(writes[failed]?.conflict ?? 'The write clashed with another request');
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * The writes that save a game: the game itself, only if the stored copy is
+ * still at the version it was read at, and its player-games rows - one per
+ * current player, with rows for players who have left the game removed.
+ * Rows copy the game's status and updatedAt for the indexes that list a
+ * player's games most recently changed first.
+ */
+async function gameWrites(game: Game): Promise<{ saved: Game; writes: GuardedWrite[] }> {
+  const saved = nextGameVersion(game);
+  const writes: GuardedWrite[] = [{
+    item: {
+      Put: {
+        TableName: GAMES_TABLE,
+        Item: toStoredGame(saved),
+        ...(game.version === undefined
+          ? { ConditionExpression: 'attribute_not_exists(version)' }
+          : { ConditionExpression: 'version = :version', ExpressionAttributeValues: { ':version': game.version } })
+      }
+    },
+    conflict: gameConflictMessage(game)
+  }];
+
+  const players = [{ playerId: game.player1.userId, playerIndex: 1 }];
+  if (game.player2) {
+    players.push({ playerId: game.player2.userId, playerIndex: 2 });
+  }
+  const createdAt = new Date().toISOString();
+  for (const { playerId, playerIndex } of players) {
+    writes.push({
+      item: {
+        Put: {
+          TableName: PLAYER_GAMES_TABLE,
+          Item: {
+            playerId,
+            gameId: game.gameId,
+            playerIndex,
+            createdAt,
+            updatedAt: getGameUpdatedAt(saved),
+            status: saved.status,
+            playerStatus: `${playerId}#${saved.status}`
+          }
+        }
+      }
+    });
+  }
+
+  // Get existing player-game relationships for this game - the version check stops them changing before the write
+  const existingQuery = await getDynamoDBClient().send(new QueryCommand({
+    TableName: PLAYER_GAMES_TABLE,
+    IndexName: 'gameId-index',
+    KeyConditionExpression: 'gameId = :gameId',
+    ExpressionAttributeValues: {
+      ':gameId': game.gameId
+    }
+  }));
+  for (const item of existingQuery.Items || []) {
+    if (!players.some(player => player.playerId === item.playerId)) {
+      writes.push({
+        item: {
+          Delete: {
+            TableName: PLAYER_GAMES_TABLE,
+            Key: { playerId: item.playerId as string, gameId: game.gameId }
+          }
+        }
+      });
+    }
+  }
+
+  return { saved, writes };
+}
+
+/**
+ * Save the game and its player-games rows in one transaction, so the rows
+ * never disagree with the game's players
+ */
+async function saveGame(game: Game): Promise<Game> {
+  const { saved, writes } = await gameWrites(game);
+  await transactWrite(writes);
+  return saved;
+}
+
+/**
+ * Save the game a change produced and append the change's events to its log,
+ * in the same transaction. Each event is written only if its sequence number
+ * is unused, so two concurrent writers cannot both extend the log from the
+ * same point.
+ */
+async function saveGameWithEvents(game: Game, events: GameEvent[]): Promise<Game> {
+  const { saved, writes } = await gameWrites(game);
+  for (const event of events) {
+    writes.push({
+      item: {
+        Put: {
+          TableName: GAME_EVENTS_TABLE,
+          Item: event,
+          ConditionExpression: 'attribute_not_exists(seq)'
+        }
+      },
+      conflict: `Event ${event.seq} of game ${event.gameId} already exists`
+    });
+  }
+  await transactWrite(writes);
+  return saved;
+}
+
+/**
+ * Events for a game with sequence numbers greater than `afterSeq`, in order
+ */
+async function getGameEvents(
+  gameId: string,
+  afterSeq: number = 0,
+  limit?: number
+): Promise<{ events: GameEvent[]; hasMore: boolean }> {
+  // Read one event past the limit to know whether there are more - DynamoDB returns a
+  // LastEvaluatedKey whenever a page fills, even if nothing follows it
+  const wanted = limit === undefined ? Infinity : limit + 1;
+  const items: Record<string, any>[] = [];
+  let lastKey: Record<string, any> | undefined;
+  do {
+    const result = await getDynamoDBClient().send(new QueryCommand({
+      TableName: GAME_EVENTS_TABLE,
+      KeyConditionExpression: 'gameId = :gameId AND seq > :afterSeq',
+      ExpressionAttributeValues: {
+        ':gameId': gameId,
+        ':afterSeq': afterSeq
+      },
+      ScanIndexForward: true,
+      Limit: limit === undefined ? undefined : wanted - items.length,
+      ExclusiveStartKey: lastKey
+    }));
+    items.push(...(result.Items || []));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey && items.length < wanted);
+
+  const events = (limit === undefined ? items : items.slice(0, limit)) as GameEvent[];
+  return {
+    events,
+    hasMore: items.length > events.length
+  };
+}
+
+async function getGame(gameId: string): Promise<Game | null> {
+  try {
+    const result = await getDynamoDBClient().send(new GetCommand({
+      TableName: GAMES_TABLE,
+      Key: { gameId }
+    }));
+    
+    return result.Item ? fromStoredGame(result.Item) : null;
+  } catch (error: any) {
+    // No fallback - fail explicitly if credentials are missing
+    if (error?.name === 'CredentialsProviderError' || error?.message?.includes('credentials')) {
+      throw new Error('AWS credentials not available. Configure AWS credentials to access DynamoDB. See deploy-local.sh for setup instructions.');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete the game and its player-games rows in one transaction, then its event
+ * log. The log can be longer than a transaction allows; if deleting it fails
+ * part way, the remaining events belong to no game and the repair script
+ * (scripts/repair-player-games.js) removes them.
+ */
+async function deleteGame(game: Game): Promise<void> {
+  const { gameId } = game;
+  // Get all player-game relationships for this game
+  const playerGamesQuery = await getDynamoDBClient().send(new QueryCommand({
+    TableName: PLAYER_GAMES_TABLE,
+    IndexName: 'gameId-index',
+    KeyConditionExpression: 'gameId = :gameId',
+    ExpressionAttributeValues: {
+      ':gameId': gameId
+    }
+  }));
+
+  await transactWrite([
+    ...(playerGamesQuery.Items || []).map(item => ({
+      item: {
+        Delete: {
+          TableName: PLAYER_GAMES_TABLE,
+          Key: { playerId: item.playerId as string, gameId }
+        }
+      }
+    })),
+    {
+      item: {
+        Delete: {
+          TableName: GAMES_TABLE,
+          Key: { gameId },
+          ...(game.version === undefined
+            ? { ConditionExpression: 'attribute_not_exists(version)' }
+            : { ConditionExpression: 'version = :version', ExpressionAttributeValues: { ':version': game.version } })
+        }
+      },
+      conflict: gameConflictMessage(game)
+    }
+  ]);
+  
+  // Delete the game's event log
+  let lastEventKey: Record<string, any> | undefined;
+  do {
+    const eventsQuery = await getDynamoDBClient().send(new QueryCommand({
+      TableName: GAME_EVENTS_TABLE,
+      KeyConditionExpression: 'gameId = :gameId',
+      ExpressionAttributeValues: {
+        ':gameId': gameId
+      },
+      ProjectionExpression: 'gameId, seq',
+      ExclusiveStartKey: lastEventKey
+    }));
+    for (const item of eventsQuery.Items || []) {
+      await getDynamoDBClient().send(new DeleteCommand({
+        TableName: GAME_EVENTS_TABLE,
+        Key: {
+          gameId: gameId,
+          seq: item.seq as number
+        }
+      }));
+    }
+    lastEventKey = eventsQuery.LastEvaluatedKey;
+  } while (lastEventKey);
+}
+
+const BATCH_GET_MAX_RETRIES = 5;
+
+/**
+ * Get games by id, in no particular order. DynamoDB may leave some keys
+ * unprocessed when it is throttling; they are retried with backoff rather
+ * than silently dropped. Games deleted since their ids were read are missing.
+ */
+async function batchGetGames(gameIds: string[]): Promise<Game[]> {
+  const games: Game[] = [];
+  let keys: Array<Record<string, any>> = gameIds.map(gameId => ({ gameId }));
+  for (let attempt = 0; keys.length > 0; attempt++) {
+    if (attempt > BATCH_GET_MAX_RETRIES) {
+      throw new Error(`Could not read ${keys.length} games after ${BATCH_GET_MAX_RETRIES} retries`);
+    }
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, 50 * 2 ** attempt));
+    }
+    const result = await getDynamoDBClient().send(new BatchGetCommand({
+      RequestItems: {
+        [GAMES_TABLE]: {
+          Keys: keys
+        }
+      }
+    }));
+    games.push(...(result.Responses?.[GAMES_TABLE] || []).map(fromStoredGame));
+    keys = result.UnprocessedKeys?.[GAMES_TABLE]?.Keys || [];
+  }
+  return games;
+}
+
+async function getAllGames(
+  limit?: number,
+  nextToken?: string,
+  playerId?: string,
+  player1Id?: string,
+  player2Id?: string,
+  status?: Game['status']
+): Promise<PaginatedResult<Game>> {
+  const queryLimit = pageSize(limit);
+  // Every key the games table and its indexes hand out includes gameId
+  const startKey = readPageToken(nextToken, ['gameId']);
+  
+  try {
+    if (player1Id) {
+      // Query games where player is player1 using GSI on games table
+      const result = await getDynamoDBClient().send(new QueryCommand({
+        TableName: GAMES_TABLE,
+        IndexName: 'player1Id-index',
+        KeyConditionExpression: 'player1Id = :player1Id',
+        ExpressionAttributeValues: {
+          ':player1Id': player1Id
+        },
+        Limit: queryLimit,
+        ExclusiveStartKey: startKey
+      }));
+      
+      return {
+        items: (result.Items || []).map(fromStoredGame),
+        nextToken: result.LastEvaluatedKey ? encodePageToken(result.LastEvaluatedKey) : undefined,
+        hasMore: !!result.LastEvaluatedKey
+      };
+    } else if (player2Id) {
+    // Query games where player is player2 using GSI on games table
+    const result = await getDynamoDBClient().send(new QueryCommand({
+      TableName: GAMES_TABLE,
+      IndexName: 'player2Id-index',
+      KeyConditionExpression: 'player2Id = :player2Id',
+      ExpressionAttributeValues: {
+        ':player2Id': player2Id
+      },
+      Limit: queryLimit,
+      ExclusiveStartKey: startKey
+    }));
+    
+    return {
+      items: (result.Items || []).map(fromStoredGame),
+      nextToken: result.LastEvaluatedKey ? encodePageToken(result.LastEvaluatedKey) : undefined,
+      hasMore: !!result.LastEvaluatedKey
+    };
+  } else if (playerId) {
+    // Query games where player is either player1 or player2, most recently changed first
+    // Use player-games table indexes, which have the player (and status) as partition key
+    const result = await getDynamoDBClient().send(new QueryCommand({
+      TableName: PLAYER_GAMES_TABLE,
+      ...(status ? {
+        IndexName: 'playerStatus-updatedAt-index',
+        KeyConditionExpression: 'playerStatus = :playerStatus',
+        ExpressionAttributeValues: {
+          ':playerStatus': `${playerId}#${status}`
+        }
+      } : {
+        IndexName: 'playerId-updatedAt-index',
+        KeyConditionExpression: 'playerId = :playerId',
+        ExpressionAttributeValues: {
+          ':playerId': playerId
+        }
+      }),
+      ScanIndexForward: false,
+      Limit: queryLimit,
+      ExclusiveStartKey: startKey
+    }));
+    
+    // Extract gameIds and batch get games, keeping the index order
+    const gameIds = (result.Items || []).map(item => item.gameId as string).filter(id => !!id);
+    const games = new Map((await batchGetGames(gameIds)).map(game => [game.gameId, game]));
+    
+    return {
+      items: gameIds.map(gameId => games.get(gameId)).filter((game): game is Game => !!game),
+      nextToken: result.LastEvaluatedKey ? encodePageToken(result.LastEvaluatedKey) : undefined,
+      hasMore: !!result.LastEvaluatedKey
+    };
+  } else {
+    // Get all games (scan)
+    const result = await getDynamoDBClient().send(new ScanCommand({
+      TableName: GAMES_TABLE,
+      Limit: queryLimit,
+      ExclusiveStartKey: startKey
+    }));
+    
+    return {
+      items: (result.Items || []).map(fromStoredGame),
+      nextToken: result.LastEvaluatedKey ? encodePageToken(result.LastEvaluatedKey) : undefined,
+      hasMore: !!result.LastEvaluatedKey
+    };
+  }
+  } catch (error: any) {
+    // No fallback - fail explicitly if credentials are missing
+    if (error?.name === 'CredentialsProviderError' || error?.message?.includes('credentials')) {
+      throw new Error('AWS credentials not available. Configure AWS credentials to access DynamoDB. See deploy-local.sh for setup instructions.');
+    }
+    throw error;
+  }
+}
+
+async function saveScenario(scenario: Scenario): Promise<void> {
+  // Ensure queryKey is set for efficient querying
+  const scenarioWithQueryKey: Scenario = {
+    ...scenario,
+    queryKey: scenario.queryKey || 'ALL_SCENARIOS'
+  };
+  
+  await getDynamoDBClient().send(new PutCommand({
+    TableName: SCENARIOS_TABLE,
+    Item: toStoredScenario(scenarioWithQueryKey)
+  }));
+}
+
+async function getScenario(scenarioId: string): Promise<Scenario | null> {
+  const result = await getDynamoDBClient().send(new GetCommand({
+    TableName: SCENARIOS_TABLE,
+    Key: { scenarioId }
+  }));
+  
+  if (!result.Item) {
+    return null;
+  }
+  
+  return fromStoredScenario<Scenario>(result.Item);
+}
+
+async function getAllScenarios(limit?: number, nextToken?: string, ownerId?: string): Promise<PaginatedResult<Scenario>> {
+  const queryLimit = pageSize(limit);
+  
+  // Owner filter uses its own GSI; otherwise list the whole library
+  const queryParams: any = ownerId ? {
+    TableName: SCENARIOS_TABLE,
+    IndexName: 'ownerId-createdAt-index',
+    KeyConditionExpression: 'ownerId = :ownerId',
+    ExpressionAttributeValues: {
+      ':ownerId': ownerId
+    },
+    Limit: queryLimit,
+    ScanIndexForward: false // Most recent first
+  } : {
+    TableName: SCENARIOS_TABLE,
+    IndexName: 'queryKey-createdAt-index',
+    KeyConditionExpression: 'queryKey = :queryKey',
+    ExpressionAttributeValues: {
+      ':queryKey': 'ALL_SCENARIOS'
+    },
+    Limit: queryLimit,
+    ScanIndexForward: false // Most recent first
+  };
+  
+  if (nextToken) {
+    try {
+      queryParams.ExclusiveStartKey = decodePageToken(nextToken);
+    } catch (e) {
+      console.error('Error decoding nextToken:', e);
+    }
+  }
+  
+  try {
+    const result = await getDynamoDBClient().send(new QueryCommand(queryParams));
+
+    const items = (result.Items || []).map(item => fromStoredScenario<Scenario>(item));
+
+    return {
+      items,
+      nextToken: result.LastEvaluatedKey ? encodePageToken(result.LastEvaluatedKey) : undefined,
+      hasMore: !!result.LastEvaluatedKey
+    };
+  } catch (error: any) {
+    // No fallback - fail explicitly if credentials are missing
+    if (error?.name === 'CredentialsProviderError' || error?.message?.includes('credentials')) {
+      throw new Error('AWS credentials not available. Configure AWS credentials to access DynamoDB. See deploy-local.sh for setup instructions.');
+    }
+    throw error;
+  }
+}
+
+async function updateScenario(scenario: Scenario): Promise<void> {
+  // Ensure queryKey is preserved
+  const existing = await getScenario(scenario.scenarioId);
+  if (!existing) {
+    throw new Error('Scenario not found');
+  }
+  
+  await getDynamoDBClient().send(new PutCommand({
+    TableName: SCENARIOS_TABLE,
+    Item: toStoredScenario({
+      ...scenario,
+      queryKey: scenario.queryKey || existing.queryKey || 'ALL_SCENARIOS',
+      updatedAt: new Date().toISOString()
+    })
+  }));
+}
+
+// Published versions are kept - games in progress may still be playing them
+async function deleteScenario(scenarioId: string): Promise<void> {
+  await getDynamoDBClient().send(new DeleteCommand({
+    TableName: SCENARIOS_TABLE,
+    Key: { scenarioId }
+  }));
+}
+
+/**
+ * Publish the scenario's current draft as its next immutable version.
+ * The version is written only if its number is unused, so two concurrent
+ * publishes cannot both claim the same version.
+ */
+async function publishScenario(scenario: Scenario, publishedBy?: string): Promise<ScenarioVersion> {
+  const publishedAt = new Date().toISOString();
+  const version = createScenarioVersion(scenario, (scenario.publishedVersion ?? 0) + 1, publishedAt, publishedBy);
+
+  // Record the publish on the draft without touching updatedAt, so it reads as having no unpublished changes.
+  // Both writes or neither - and only while the draft still exists at the version the publish started from.
+  await transactWrite([
+    {
+      item: {
+        Put: {
+          TableName: SCENARIO_VERSIONS_TABLE,
+          Item: toStoredScenario(version),
+          ConditionExpression: 'attribute_not_exists(version)'
+        }
+      },
+      conflict: `Version ${version.version} of scenario ${scenario.scenarioId} already exists`
+    },
+    {
+      item: {
+        Update: {
+          TableName: SCENARIOS_TABLE,
+          Key: { scenarioId: scenario.scenarioId },
+          UpdateExpression: 'SET publishedVersion = :version, publishedAt = :publishedAt',
+          ...(scenario.publishedVersion === undefined
+            ? {
+              ConditionExpression: 'attribute_exists(scenarioId) AND attribute_not_exists(publishedVersion)',
+              ExpressionAttributeValues: { ':version': version.version, ':publishedAt': publishedAt }
+            }
+            : {
+              ConditionExpression: 'attribute_exists(scenarioId) AND publishedVersion = :previous',
+              ExpressionAttributeValues: { ':version': version.version, ':publishedAt': publishedAt, ':previous': scenario.publishedVersion }
+            })
+        }
+      },
+      conflict: publishConflictMessage(scenario)
+    }
+  ]);
+
+  return version;
+}
+
+async function getScenarioVersion(scenarioId: string, version: number): Promise<ScenarioVersion | null> {
+  const result = await getDynamoDBClient().send(new GetCommand({
+    TableName: SCENARIO_VERSIONS_TABLE,
+    Key: { scenarioId, version }
+  }));
+
+  if (!result.Item) {
+    return null;
+  }
+
+  return fromStoredScenario<ScenarioVersion>(result.Item);
+}
+
+/**
+ * Every published version of a scenario, newest first
+ */
+async function getScenarioVersions(scenarioId: string): Promise<ScenarioVersionSummary[]> {
+  const summaries: ScenarioVersionSummary[] = [];
+  let lastKey: Record<string, any> | undefined;
+  do {
+    const result = await getDynamoDBClient().send(new QueryCommand({
+      TableName: SCENARIO_VERSIONS_TABLE,
+      KeyConditionExpression: 'scenarioId = :scenarioId',
+      ExpressionAttributeValues: {
+        ':scenarioId': scenarioId
+      },
+      // Summaries only - versions carry the whole map
+      ProjectionExpression: 'scenarioId, version, title, publishedAt, publishedBy',
+      ScanIndexForward: false,
+      ExclusiveStartKey: lastKey
+    }));
+    summaries.push(...((result.Items || []) as ScenarioVersionSummary[]));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+
+  return summaries;
+}
+
+/**
+ * Rewrite the items of a table whose record is below `schemaVersion`. Each
+ * write is conditional on the `unchanged` attributes still holding the values
+ * that were read, so a game or scenario saved meanwhile is skipped rather
+ * than overwritten - the save has already stored it at the current schema.
+ */
+async function backfillTable(
+  tableName: string,
+  keyAttribute: string,
+  unchanged: string[],
+  schemaVersion: number,
+  upgrade: (record: Record<string, any>) => Record<string, any>,
+  dryRun: boolean
+): Promise<SchemaBackfillCounts> {
+  const counts: SchemaBackfillCounts = { checked: 0, upgraded: 0, skipped: 0 };
+  let lastKey: Record<string, any> | undefined;
+  do {
+    const result = await getDynamoDBClient().send(new ScanCommand({
+      TableName: tableName,
+      ExclusiveStartKey: lastKey
+    }));
+    for (const item of result.Items || []) {
+      counts.checked++;
+      if (getSchemaVersion(item) >= schemaVersion) {
+        continue;
+      }
+      if (dryRun) {
+        counts.upgraded++;
+        continue;
+      }
+
+      // The item must still exist - a deleted game is not brought back - and be unchanged
+      const names: Record<string, string> = { '#key': keyAttribute };
+      const values: Record<string, any> = {};
+      const conditions = ['attribute_exists(#key)'];
+      unchanged.forEach((attribute, index) => {
+        names[`#a${index}`] = attribute;
+        if (item[attribute] === undefined) {
+          conditions.push(`attribute_not_exists(#a${index})`);
+        } else {
+          values[`:a${index}`] = item[attribute];
+          conditions.push(`#a${index} = :a${index}`);
+        }
+      });
+
+      try {
+        await getDynamoDBClient().send(new PutCommand({
+          TableName: tableName,
+          Item: upgrade(item),
+          ConditionExpression: conditions.join(' AND '),
+          ExpressionAttributeNames: names,
+          ...(Object.keys(values).length > 0 && { ExpressionAttributeValues: values })
+        }));
+        counts.upgraded++;
+      } catch (error: any) {
+        if (error?.name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+        counts.skipped++;
+      }
+    }
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+  return counts;
+}
+
+// Player-games rows written before they copied the game's status and updatedAt are missing from
+// the indexes player game lists are read through, so copy them across
+async function backfillPlayerGames(dryRun: boolean): Promise<SchemaBackfillCounts> {
+  const counts: SchemaBackfillCounts = { checked: 0, upgraded: 0, skipped: 0 };
+  let lastKey: Record<string, any> | undefined;
+  do {
+    const result = await getDynamoDBClient().send(new ScanCommand({
+      TableName: PLAYER_GAMES_TABLE,
+      ExclusiveStartKey: lastKey
+    }));
+    for (const row of result.Items || []) {
+      counts.checked++;
+      if (row.updatedAt !== undefined) {
+        continue;
+      }
+      // Rows for deleted games are left to the repair script (scripts/repair-player-games.js)
+      const game = await getGame(row.gameId);
+      if (!game) {
+        continue;
+      }
+      if (dryRun) {
+        counts.upgraded++;
+        continue;
+      }
+
+      // A row rewritten since the scan - by a save or a delete - already has them, or is gone
+      try {
+        await getDynamoDBClient().send(new UpdateCommand({
+          TableName: PLAYER_GAMES_TABLE,
+          Key: { playerId: row.playerId, gameId: row.gameId },
+          UpdateExpression: 'SET updatedAt = :updatedAt, #status = :status, playerStatus = :playerStatus',
+          ConditionExpression: 'attribute_exists(playerId) AND attribute_not_exists(updatedAt)',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':updatedAt': getGameUpdatedAt(game),
+            ':status': game.status,
+            ':playerStatus': `${row.playerId}#${game.status}`
+          }
+        }));
+        counts.upgraded++;
+      } catch (error: any) {
+        if (error?.name !== 'ConditionalCheckFailedException') {
+          throw error;
+        }
+        counts.skipped++;
+      }
+    }
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+  return counts;
+}
+
+async function backfillSchema({ dryRun = false }: { dryRun?: boolean } = {}): Promise<SchemaBackfillReport> {
+  return {
+    // Every game save changes its version; a scenario save changes updatedAt, and a publish publishedVersion
+    games: await backfillTable(GAMES_TABLE, 'gameId', ['version', 'schemaVersion'], GAME_SCHEMA_VERSION,
+      record => toStoredGame(fromStoredGame(record)), dryRun),
+    scenarios: await backfillTable(SCENARIOS_TABLE, 'scenarioId', ['updatedAt', 'publishedVersion', 'schemaVersion'], SCENARIO_SCHEMA_VERSION,
+      record => toStoredScenario(fromStoredScenario<Scenario>(record)), dryRun),
+    // Published versions never change
+    scenarioVersions: await backfillTable(SCENARIO_VERSIONS_TABLE, 'scenarioId', ['schemaVersion'], SCENARIO_SCHEMA_VERSION,
+      record => toStoredScenario(fromStoredScenario<ScenarioVersion>(record)), dryRun),
+    playerGames: await backfillPlayerGames(dryRun)
+  };
+}
+
+export const dynamoDBStorage: StorageBackend = {
+  saveGame,
+  saveGameWithEvents,
+  getGameEvents,
+  getGame,
+  deleteGame,
+  getAllGames,
+  saveScenario,
+  getScenario,
+  getAllScenarios,
+  updateScenario,
+  deleteScenario,
+  publishScenario,
+  getScenarioVersion,
+  getScenarioVersions,
+  backfillSchema
+};
@@ -0,0 +1,25 @@
+import { StorageBackend } from './types';
+import { dynamoDBStorage } from './dynamodb';
+import { memoryStorage } from './memory';
+import { sqliteStorage } from './sqlite';
+
+export { ConditionalWriteError, InvalidPageTokenError } from './types';
+export type { PaginatedResult, SchemaBackfillCounts, SchemaBackfillReport, StorageBackend } from './types';
+
+const BACKENDS: Record<string, StorageBackend> = {
+  dynamodb: dynamoDBStorage,
+  memory: memoryStorage,
+  sqlite: sqliteStorage
+};
+
+/**
+ * The backend named by STORAGE_BACKEND: dynamodb (the default), memory or sqlite
+ */
+export function getStorage(): StorageBackend {
+  const name = process.env.STORAGE_BACKEND || 'dynamodb';
+  const backend = BACKENDS[name];
+  if (!backend) {
+    throw new Error(`Unknown STORAGE_BACKEND "${name}". Use one of: ${Object.keys(BACKENDS).join(', ')}.`);
+  }
+  return backend;
+}
@@ -0,0 +1,346 @@
+import { Game, GameEvent, Scenario, ScenarioVersion, ScenarioVersionSummary } from '@/shared/types';
+import { createScenarioVersion } from '@/shared/versions';
+import { ConditionalWriteError, PaginatedResult, SchemaBackfillReport, StorageBackend } from './types';
+import { decodePageToken, encodePageToken, gameConflictMessage, getGameUpdatedAt, nextGameVersion, pageSize, publishConflictMessage, readPageToken } from './records';
+
+// In-process storage for local development and tests. Everything is lost when
+// the server stops; records are copied in and out so callers can't mutate them.
+
+interface PlayerGame {
+  playerId: string;
+  gameId: string;
+  playerIndex: 1 | 2;
+  createdAt: string;
+}
+
+interface MemoryTables {
+  games: Map<string, Game>;
+  playerGames: Map<string, PlayerGame>; // keyed by playerId and gameId
+  gameEvents: Map<string, GameEvent[]>; // by gameId, in seq order
+  scenarios: Map<string, Scenario>;
+  scenarioVersions: Map<string, Map<number, ScenarioVersion>>; // by scenarioId, then version
+}
+
+// Kept on globalThis so the data survives the dev server reloading this module
+const globalStore = globalThis as typeof globalThis & { __syniadMemoryStorage?: MemoryTables };
+
+function tables(): MemoryTables {
+  if (!globalStore.__syniadMemoryStorage) {
+    globalStore.__syniadMemoryStorage = {
+      games: new Map(),
+      playerGames: new Map(),
+      gameEvents: new Map(),
+      scenarios: new Map(),
+      scenarioVersions: new Map()
+    };
+  }
+  return globalStore.__syniadMemoryStorage;
+}
+
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function playerGameKey(playerId: string, gameId: string): string {
+  return JSON.stringify([playerId, gameId]);
+}
+
+/**
+ * One page of `items` (already in list order), resuming after the item whose
+ * key is in `nextToken`. `isAfter` says whether an item comes after a key, so
+ * a page still resumes in the right place if that item has since been deleted.
+ */
+function paginate<T>(
+  items: T[],
+  limit: number | undefined,
+  startKey: Record<string, any> | undefined,
+  keyOf: (item: T) => Record<string, any>,
+  isAfter: (item: T, key: Record<string, any>) => boolean
+): { page: T[]; nextToken?: string; hasMore: boolean } {
+  const start = startKey ? items.findIndex(item => isAfter(item, startKey)) : 0;
+  const remaining = start === -1 ? [] : items.slice(start);
+  const page = remaining.slice(0, pageSize(limit));
+  const hasMore = remaining.length > page.length;
+  return {
+    page,
+    nextToken: hasMore ? encodePageToken(keyOf(page[page.length - 1])) : undefined,
+    hasMore
+  };
+}
+
+function byGameId(a: { gameId: string }, b: { gameId: string }): number {
+  return a.gameId < b.gameId ? -1 : a.gameId > b.gameId ? 1 : 0;
+}
+
+// Most recently created first, then by id so equal timestamps still have a fixed order
+function newestFirst(a: Scenario, b: Scenario): number {
+  if (a.createdAt !== b.createdAt) {
+    return a.createdAt < b.createdAt ? 1 : -1;
+  }
+  return a.scenarioId < b.scenarioId ? 1 : a.scenarioId > b.scenarioId ? -1 : 0;
+}
+
+// Most recently updated first, then by id as for newestFirst
+function recentlyUpdatedFirst(a: Game, b: Game): number {
+  const aUpdatedAt = getGameUpdatedAt(a);
+  const bUpdatedAt = getGameUpdatedAt(b);
+  if (aUpdatedAt !== bUpdatedAt) {
+    return aUpdatedAt < bUpdatedAt ? 1 : -1;
+  }
+  return a.gameId < b.gameId ? 1 : a.gameId > b.gameId ? -1 : 0;
+}
+
+// The stored copy must still be at the version the game was read at
+function checkGameVersion(game: Game): void {
+  if (tables().games.get(game.gameId)?.version !== game.version) {
+    throw new ConditionalWriteError(gameConflictMessage(game));
+  }
+}
+
+function writeGame(game: Game): Game {
+  const { games, playerGames } = tables();
+  const saved = nextGameVersion(game);
+  games.set(game.gameId, copy(saved));
+
+  const createdAt = new Date().toISOString();
+  const players: PlayerGame[] = [{ playerId: game.player1.userId, gameId: game.gameId, playerIndex: 1, createdAt }];
+  if (game.player2) {
+    players.push({ playerId: game.player2.userId, gameId: game.gameId, playerIndex: 2, createdAt });
+  }
+
+  // Remove old player-game relationships that are no longer valid
+  for (const [key, playerGame] of playerGames) {
+    if (playerGame.gameId === game.gameId && !players.some(player => player.playerId === playerGame.playerId)) {
+      playerGames.delete(key);
+    }
+  }
+  for (const player of players) {
+    playerGames.set(playerGameKey(player.playerId, player.gameId), player);
+  }
+  return copy(saved);
+}
+
+async function saveGame(game: Game): Promise<Game> {
+  checkGameVersion(game);
+  return writeGame(game);
+}
+
+async function saveGameWithEvents(game: Game, events: GameEvent[]): Promise<Game> {
+  const { gameEvents } = tables();
+  // Check the game and every event before writing any, so a conflict leaves nothing behind
+  checkGameVersion(game);
+  for (const event of events) {
+    if ((gameEvents.get(event.gameId) ?? []).some(existing => existing.seq === event.seq)) {
+      throw new ConditionalWriteError(`Event ${event.seq} of game ${event.gameId} already exists`);
+    }
+  }
+  for (const event of events) {
+    const log = gameEvents.get(event.gameId) ?? [];
+    log.push(copy(event));
+    log.sort((a, b) => a.seq - b.seq);
+    gameEvents.set(event.gameId, log);
+  }
+  return writeGame(game);
+}
+
+async function getGameEvents(
+  gameId: string,
+  afterSeq: number = 0,
+  limit?: number
+): Promise<{ events: GameEvent[]; hasMore: boolean }> {
+  const remaining = (tables().gameEvents.get(gameId) ?? []).filter(event => event.seq > afterSeq);
+  const events = limit === undefined ? remaining : remaining.slice(0, limit);
+  return {
+    events: copy(events),
+    hasMore: remaining.length > events.length
+  };
+}
+
+async function getGame(gameId: string): Promise<Game | null> {
+  const game = tables().games.get(gameId);
+  return game ? copy(game) : null;
+}
+
+async function deleteGame(game: Game): Promise<void> {
+  const { games, playerGames, gameEvents } = tables();
+  const { gameId } = game;
+  checkGameVersion(game);
+  for (const [key, playerGame] of playerGames) {
+    if (playerGame.gameId === gameId) {
+      playerGames.delete(key);
+    }
+  }
+  gameEvents.delete(gameId);
+  games.delete(gameId);
+}
+
+async function getAllGames(
+  limit?: number,
+  nextToken?: string,
+  playerId?: string,
+  player1Id?: string,
+  player2Id?: string,
+  status?: Game['status']
+): Promise<PaginatedResult<Game>> {
+  const { games, playerGames } = tables();
+  const startKey = readPageToken(nextToken, playerId ? ['gameId', 'updatedAt'] : ['gameId']);
+
+  if (playerId) {
+    // Games where the player is either player1 or player2, via their player-game relationships
+    const playerGameList = [...playerGames.values()]
+      .filter(playerGame => playerGame.playerId === playerId)
+      .map(playerGame => games.get(playerGame.gameId))
+      .filter((game): game is Game => !!game && (!status || game.status === status))
+      .sort(recentlyUpdatedFirst);
+    const { page, ...rest } = paginate(
+      playerGameList,
+      limit,
+      startKey,
+      game => ({ playerId, gameId: game.gameId, updatedAt: getGameUpdatedAt(game) }),
+      (game, key) => recentlyUpdatedFirst(game, { ...game, gameId: key.gameId, updatedAt: key.updatedAt }) > 0
+    );
+    return { items: page.map(copy), ...rest };
+  }
+
+  const matching = [...games.values()]
+    .filter(game => (!player1Id || game.player1Id === player1Id) && (!player2Id || game.player2Id === player2Id))
+    .sort(byGameId);
+  const { page, ...rest } = paginate(
+    matching,
+    limit,
+    startKey,
+    game => ({
+      gameId: game.gameId,
+      ...(player1Id ? { player1Id } : player2Id ? { player2Id } : {})
+    }),
+    (game, key) => game.gameId > key.gameId
+  );
+  return { items: page.map(copy), ...rest };
+}
+
+async function saveScenario(scenario: Scenario): Promise<void> {
+  tables().scenarios.set(scenario.scenarioId, copy({
+    ...scenario,
+    queryKey: scenario.queryKey || 'ALL_SCENARIOS'
+  }));
+}
+
+async function getScenario(scenarioId: string): Promise<Scenario | null> {
+  const scenario = tables().scenarios.get(scenarioId);
+  return scenario ? copy(scenario) : null;
+}
+
+async function getAllScenarios(limit?: number, nextToken?: string, ownerId?: string): Promise<PaginatedResult<Scenario>> {
+  let startKey: Record<string, any> | undefined;
+  if (nextToken) {
+    try {
+      startKey = decodePageToken(nextToken);
+    } catch (e) {
+      console.error('Error decoding nextToken:', e);
+    }
+  }
+
+  const matching = [...tables().scenarios.values()]
+    .filter(scenario => ownerId ? scenario.ownerId === ownerId : scenario.queryKey === 'ALL_SCENARIOS')
+    .sort(newestFirst);
+  const { page, ...rest } = paginate(
+    matching,
+    limit,
+    startKey,
+    scenario => ({
+      scenarioId: scenario.scenarioId,
+      createdAt: scenario.createdAt,
+      ...(ownerId ? { ownerId } : { queryKey: scenario.queryKey })
+    }),
+    (scenario, key) => newestFirst(scenario, key as Scenario) > 0
+  );
+  return { items: page.map(copy), ...rest };
+}
+
+async function updateScenario(scenario: Scenario): Promise<void> {
+  const existing = tables().scenarios.get(scenario.scenarioId);
+  if (!existing) {
+    throw new Error('Scenario not found');
+  }
+
+  tables().scenarios.set(scenario.scenarioId, copy({
+    ...scenario,
+    queryKey: scenario.queryKey || existing.queryKey || 'ALL_SCENARIOS',
+    updatedAt: new Date().toISOString()
+  }));
+}
+
+// Published versions are kept - games in progress may still be playing them
+async function deleteScenario(scenarioId: string): Promise<void> {
+  tables().scenarios.delete(scenarioId);
+}
+
+async function publishScenario(scenario: Scenario, publishedBy?: string): Promise<ScenarioVersion> {
+  const { scenarios, scenarioVersions } = tables();
+  const publishedAt = new Date().toISOString();
+  const version = createScenarioVersion(scenario, (scenario.publishedVersion ?? 0) + 1, publishedAt, publishedBy);
+
+  const versions = scenarioVersions.get(scenario.scenarioId) ?? new Map<number, ScenarioVersion>();
+  if (versions.has(version.version)) {
+    throw new ConditionalWriteError(`Version ${version.version} of scenario ${scenario.scenarioId} already exists`);
+  }
+  const draft = scenarios.get(scenario.scenarioId);
+  if (!draft || draft.publishedVersion !== scenario.publishedVersion) {
+    throw new ConditionalWriteError(publishConflictMessage(scenario));
+  }
+  versions.set(version.version, copy(version));
+  scenarioVersions.set(scenario.scenarioId, versions);
+
+  // Record the publish on the draft without touching updatedAt, so it reads as having no unpublished changes
+  scenarios.set(scenario.scenarioId, { ...draft, publishedVersion: version.version, publishedAt });
+
+  return version;
+}
+
+async function getScenarioVersion(scenarioId: string, version: number): Promise<ScenarioVersion | null> {
+  const found = tables().scenarioVersions.get(scenarioId)?.get(version);
+  return found ? copy(found) : null;
+}
+
+async function getScenarioVersions(scenarioId: string): Promise<ScenarioVersionSummary[]> {
+  return [...(tables().scenarioVersions.get(scenarioId)?.values() ?? [])]
+    .sort((a, b) => b.version - a.version)
+    .map(({ version, title, publishedAt, publishedBy }) => ({
+      scenarioId,
+      version,
+      title,
+      publishedAt,
+      ...(publishedBy && { publishedBy })
+    }));
+}
+
+// Records here never outlive the process, so they are always at the current schema
+async function backfillSchema(): Promise<SchemaBackfillReport> {
+  const { games, playerGames, scenarios, scenarioVersions } = tables();
+  const versionCount = [...scenarioVersions.values()].reduce((count, versions) => count + versions.size, 0);
+  return {
+    games: { checked: games.size, upgraded: 0, skipped: 0 },
+    scenarios: { checked: scenarios.size, upgraded: 0, skipped: 0 },
+    scenarioVersions: { checked: versionCount, upgraded: 0, skipped: 0 },
+    // Player game lists read status and updatedAt from the games themselves
+    playerGames: { checked: playerGames.size, upgraded: 0, skipped: 0 }
+  };
+}
+
+export const memoryStorage: StorageBackend = {
+  saveGame,
+  saveGameWithEvents,
+  getGameEvents,
+  getGame,
+  deleteGame,
+  getAllGames,
+  saveScenario,
+  getScenario,
+  getAllScenarios,
+  updateScenario,
+  deleteScenario,
+  publishScenario,
+  getScenarioVersion,
+  getScenarioVersions,
+  backfillSchema
+};
@@ -0,0 +1,71 @@
+import { GAME_PHASES } from '@/shared/turns';
+
+/**
+ * Schema versions for stored records.
+ *
+ * Every game, scenario and scenario version is written with the `schemaVersion`
+ * of the code that wrote it; records from before versioning count as version 1.
+ * Reads upgrade older records through the migrations below, so the rest of the
+ * code only ever sees the current shape. The backfill script
+ * (scripts/backfill-schema.ts) rewrites old records in place.
+ *
+ * To change a stored shape - a new `Hex` or `Game` field, say - append a
+ * migration to the list for that record. Never edit or reorder existing ones:
+ * records at any older version must still upgrade.
+ */
+
+type RecordMigration = (record: Record<string, any>) => Record<string, any>;
+
+/**
+ * Migrations for scenarios and scenario versions, which share a shape: the
+ * first upgrades schema version 1 to 2, the next 2 to 3, and so on. They run
+ * on the stored record, so hexes may be a Hex array or a compact `hexGrid`.
+ */
+const SCENARIO_MIGRATIONS: RecordMigration[] = [
+  // 1 -> 2: hexes saved before rivers and roads existed have neither
+  scenario => Array.isArray(scenario.hexes)
+    ? { ...scenario, hexes: scenario.hexes.map(hex => ({ ...hex, rivers: hex.rivers ?? 0, roads: hex.roads ?? 0 })) }
+    : scenario,
+];
+
+/**
+ * Migrations for games, as for SCENARIO_MIGRATIONS
+ */
+const GAME_MIGRATIONS: RecordMigration[] = [
+  // 1 -> 2: games created before turns had phases are in player 1's first phase
+  game => ({ ...game, currentPlayerIndex: game.currentPlayerIndex ?? 1, phase: game.phase ?? GAME_PHASES[0] }),
+];
+
+export const SCENARIO_SCHEMA_VERSION = SCENARIO_MIGRATIONS.length + 1;
+export const GAME_SCHEMA_VERSION = GAME_MIGRATIONS.length + 1;
+
+export function getSchemaVersion(record: Record<string, any>): number {
+  return record.schemaVersion ?? 1;
+}
+
+function upgrade(record: Record<string, any>, migrations: RecordMigration[], kind: string): Record<string, any> {
+  const current = migrations.length + 1;
+  let version = getSchemaVersion(record);
+  if (version > current) {
+    throw new Error(`Stored ${kind} has schema version ${version}, newer than this server supports (${current})`);
+  }
+  let upgraded = record;
+  for (; version < current; version++) {
+    upgraded = migrations[version - 1](upgraded);
+  }
+  return { ...upgraded, schemaVersion: current };
+}
+
+/**
+ * A stored scenario or scenario version record, upgraded to the current schema
+ */
+export function migrateScenarioRecord(record: Record<string, any>): Record<string, any> {
+  return upgrade(record, SCENARIO_MIGRATIONS, 'scenario');
+}
+
+/**
+ * A stored game record, upgraded to the current schema
+ */
+export function migrateGameRecord(record: Record<string, any>): Record<string, any> {
+  return upgrade(record, GAME_MIGRATIONS, 'game');
+}
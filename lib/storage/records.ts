@@ -0,0 +1,111 @@
+import { Buffer } from 'buffer';
+import { Game, Scenario, ScenarioVersion } from '@/shared/types';
+import { CompactHexGrid, decodeHexGrid, encodeHexGrid } from '@/shared/hex-encoding';
+import { InvalidPageTokenError } from './types';
+import { GAME_SCHEMA_VERSION, SCENARIO_SCHEMA_VERSION, migrateGameRecord, migrateScenarioRecord } from './migrations';
+
+// Record and paging conventions shared by every storage backend
+
+export const MAX_PAGE_SIZE = 100;
+
+export function pageSize(limit?: number): number {
+  return limit ? Math.min(limit, MAX_PAGE_SIZE) : MAX_PAGE_SIZE;
+}
+
+/**
+ * Page tokens are the last item's key, base64 encoded JSON - DynamoDB's
+ * LastEvaluatedKey, or the equivalent key fields for the other backends
+ */
+export function encodePageToken(key: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(key)).toString('base64');
+}
+
+export function decodePageToken(token: string): Record<string, any> {
+  return JSON.parse(Buffer.from(token, 'base64').toString('utf-8'));
+}
+
+/**
+ * Decode a page token from a client, which must hold each of `fields` as a string.
+ * Throws InvalidPageTokenError for anything else.
+ */
+export function readPageToken(token: string | undefined, fields: string[]): Record<string, any> | undefined {
+  if (!token) {
+    return undefined;
+  }
+  let key: unknown;
+  try {
+    key = decodePageToken(token);
+  } catch {
+    throw new InvalidPageTokenError();
+  }
+  if (!key || typeof key !== 'object' || fields.some(field => typeof (key as Record<string, unknown>)[field] !== 'string')) {
+    throw new InvalidPageTokenError();
+  }
+  return key as Record<string, any>;
+}
+
+/**
+ * The game as this save leaves it, with the player ids its indexes look it up
+ * by and its next version
+ */
+export function nextGameVersion(game: Game): Game {
+  return {
+    ...game,
+    player1Id: game.player1Id || game.player1.userId,
+    player2Id: game.player2Id || (game.player2?.userId),
+    version: (game.version ?? 0) + 1
+  };
+}
+
+/**
+ * Game record as stored, stamped with the schema it was written in
+ */
+export function toStoredGame(game: Game): Game & { schemaVersion: number } {
+  return { ...game, schemaVersion: GAME_SCHEMA_VERSION };
+}
+
+/**
+ * Game as the API uses it, from its stored record at any schema version
+ */
+export function fromStoredGame(item: Record<string, any>): Game {
+  const { schemaVersion: _schemaVersion, ...game } = migrateGameRecord(item);
+  return game as Game;
+}
+
+/**
+ * When the game last changed - player game lists are ordered by this, most recent first
+ */
+export function getGameUpdatedAt(game: Game): string {
+  return game.updatedAt || game.createdAt;
+}
+
+export function publishConflictMessage(scenario: Scenario): string {
+  return `Scenario ${scenario.scenarioId} was deleted or published by another request since it was read`;
+}
+
+export function gameConflictMessage(game: Game): string {
+  return `Game ${game.gameId} was changed by another request since version ${game.version ?? 0} was read`;
+}
+
+/**
+ * Scenario (or scenario version) record as stored, stamped with the schema it
+ * was written in and with the hex grid in its compact encoding so large maps
+ * stay under DynamoDB's 400KB item limit
+ */
+export function toStoredScenario<T extends Scenario | ScenarioVersion>(scenario: T): Omit<T, 'hexes'> & { hexGrid?: CompactHexGrid; schemaVersion: number } {
+  const { hexes, ...rest } = scenario;
+  const record = { ...rest, schemaVersion: SCENARIO_SCHEMA_VERSION };
+  return hexes ? { ...record, hexGrid: encodeHexGrid(hexes, scenario.rows, scenario.columns) } : record;
+}
+
+/**
+ * Scenario (or scenario version) as the API uses it, from its stored record at
+ * any schema version. Records saved before grids were encoded hold a Hex array.
+ */
+export function fromStoredScenario<T extends Scenario | ScenarioVersion>(item: Record<string, any>): T {
+  const { hexGrid, schemaVersion: _schemaVersion, ...scenario } = migrateScenarioRecord(item);
+  if (hexGrid) {
+    scenario.hexes = decodeHexGrid(hexGrid as CompactHexGrid, scenario.rows, scenario.columns);
+  }
+  return scenario as T;
+}
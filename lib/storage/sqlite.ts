@@ -0,0 +1,406 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import type BetterSqlite3 from 'better-sqlite3';
+import { Game, GameEvent, Scenario, ScenarioVersion, ScenarioVersionSummary } from '@/shared/types';
+import { createScenarioVersion } from '@/shared/versions';
+import { ConditionalWriteError, PaginatedResult, SchemaBackfillCounts, SchemaBackfillReport, StorageBackend } from './types';
+import { GAME_SCHEMA_VERSION, SCENARIO_SCHEMA_VERSION, getSchemaVersion } from './migrations';
+import { decodePageToken, encodePageToken, fromStoredGame, fromStoredScenario, gameConflictMessage, nextGameVersion, pageSize, publishConflictMessage, readPageToken, toStoredGame, toStoredScenario } from './records';
+
+// Single-file storage for local development and tests that should keep their
+// data between runs. Records are stored as JSON, keyed the same way as the
+// DynamoDB tables, with the indexed attributes copied into their own columns.
+
+const SQLITE_PATH = process.env.SQLITE_PATH || '.data/syniad.db';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS games (
+    gameId TEXT PRIMARY KEY,
+    player1Id TEXT,
+    player2Id TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS games_player1Id ON games (player1Id, gameId);
+  CREATE INDEX IF NOT EXISTS games_player2Id ON games (player2Id, gameId);
+
+  CREATE TABLE IF NOT EXISTS player_games (
+    playerId TEXT NOT NULL,
+    gameId TEXT NOT NULL,
+    playerIndex INTEGER NOT NULL,
+    createdAt TEXT NOT NULL,
+    PRIMARY KEY (playerId, gameId)
+  );
+  CREATE INDEX IF NOT EXISTS player_games_gameId ON player_games (gameId);
+
+  CREATE TABLE IF NOT EXISTS game_events (
+    gameId TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (gameId, seq)
+  );
+
+  CREATE TABLE IF NOT EXISTS scenarios (
+    scenarioId TEXT PRIMARY KEY,
+    queryKey TEXT,
+    ownerId TEXT,
+    createdAt TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS scenarios_queryKey_createdAt ON scenarios (queryKey, createdAt, scenarioId);
+  CREATE INDEX IF NOT EXISTS scenarios_ownerId_createdAt ON scenarios (ownerId, createdAt, scenarioId);
+
+  CREATE TABLE IF NOT EXISTS scenario_versions (
+    scenarioId TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (scenarioId, version)
+  );
+`;
+
+let database: Promise<BetterSqlite3.Database> | null = null;
+
+// Open the database lazily - better-sqlite3 is an optional native dependency, only loaded when this backend is selected
+function getDatabase(): Promise<BetterSqlite3.Database> {
+  if (!database) {
+    database = import('better-sqlite3').then(({ default: Database }) => {
+      if (SQLITE_PATH !== ':memory:') {
+        mkdirSync(dirname(SQLITE_PATH), { recursive: true });
+      }
+      const db = new Database(SQLITE_PATH);
+      db.pragma('journal_mode = WAL');
+      db.exec(SCHEMA);
+      return db;
+    });
+  }
+  return database;
+}
+
+/**
+ * Trim rows fetched with LIMIT pageSize + 1 to the page, with a token for the
+ * page's last key when the extra row shows there is more
+ */
+function page<T>(rows: T[], size: number, keyOf: (row: T) => Record<string, any>): { rows: T[]; nextToken?: string; hasMore: boolean } {
+  const hasMore = rows.length > size;
+  const pageRows = rows.slice(0, size);
+  return {
+    rows: pageRows,
+    nextToken: hasMore ? encodePageToken(keyOf(pageRows[pageRows.length - 1])) : undefined,
+    hasMore
+  };
+}
+
+// The stored copy must still be at the version the game was read at - call inside a transaction
+function checkGameVersion(db: BetterSqlite3.Database, game: Game): void {
+  const current = db.prepare("SELECT data ->> '$.version' AS version FROM games WHERE gameId = ?")
+    .get(game.gameId) as { version: number | null } | undefined;
+  if ((current?.version ?? undefined) !== game.version) {
+    throw new ConditionalWriteError(gameConflictMessage(game));
+  }
+}
+
+// Write the game, if it passes checkGameVersion, and its player-games rows - call inside a transaction
+function writeGame(db: BetterSqlite3.Database, game: Game): Game {
+  checkGameVersion(db, game);
+
+  const saved = nextGameVersion(game);
+  db.prepare('INSERT OR REPLACE INTO games (gameId, player1Id, player2Id, data) VALUES (?, ?, ?, ?)')
+    .run(saved.gameId, saved.player1Id, saved.player2Id ?? null, JSON.stringify(toStoredGame(saved)));
+
+  const createdAt = new Date().toISOString();
+  const playerIds = [game.player1.userId];
+  const upsertPlayerGame = db.prepare('INSERT OR REPLACE INTO player_games (playerId, gameId, playerIndex, createdAt) VALUES (?, ?, ?, ?)');
+  upsertPlayerGame.run(game.player1.userId, game.gameId, 1, createdAt);
+  if (game.player2) {
+    playerIds.push(game.player2.userId);
+    upsertPlayerGame.run(game.player2.userId, game.gameId, 2, createdAt);
+  }
+
+  // Remove old player-game relationships that are no longer valid
+  db.prepare(`DELETE FROM player_games WHERE gameId = ? AND playerId NOT IN (${playerIds.map(() => '?').join(', ')})`)
+    .run(game.gameId, ...playerIds);
+  return saved;
+}
+
+async function saveGame(game: Game): Promise<Game> {
+  const db = await getDatabase();
+  return db.transaction(() => writeGame(db, game))();
+}
+
+async function saveGameWithEvents(game: Game, events: GameEvent[]): Promise<Game> {
+  const db = await getDatabase();
+  const insertEvent = db.prepare('INSERT OR IGNORE INTO game_events (gameId, seq, data) VALUES (?, ?, ?)');
+  // The events and the game are written together, so a conflict leaves neither behind
+  return db.transaction(() => {
+    for (const event of events) {
+      if (insertEvent.run(event.gameId, event.seq, JSON.stringify(event)).changes === 0) {
+        throw new ConditionalWriteError(`Event ${event.seq} of game ${event.gameId} already exists`);
+      }
+    }
+    return writeGame(db, game);
+  })();
+}
+
+async function getGameEvents(
+  gameId: string,
+  afterSeq: number = 0,
+  limit?: number
+): Promise<{ events: GameEvent[]; hasMore: boolean }> {
+  const db = await getDatabase();
+  const rows = db.prepare('SELECT data FROM game_events WHERE gameId = ? AND seq > ? ORDER BY seq LIMIT ?')
+    .all(gameId, afterSeq, limit === undefined ? -1 : limit + 1) as Array<{ data: string }>;
+  const events = (limit === undefined ? rows : rows.slice(0, limit)).map(row => JSON.parse(row.data) as GameEvent);
+  return {
+    events,
+    hasMore: rows.length > events.length
+  };
+}
+
+async function getGame(gameId: string): Promise<Game | null> {
+  const db = await getDatabase();
+  const row = db.prepare('SELECT data FROM games WHERE gameId = ?').get(gameId) as { data: string } | undefined;
+  return row ? fromStoredGame(JSON.parse(row.data)) : null;
+}
+
+async function deleteGame(game: Game): Promise<void> {
+  const db = await getDatabase();
+  const { gameId } = game;
+  db.transaction(() => {
+    checkGameVersion(db, game);
+    db.prepare('DELETE FROM player_games WHERE gameId = ?').run(gameId);
+    db.prepare('DELETE FROM game_events WHERE gameId = ?').run(gameId);
+    db.prepare('DELETE FROM games WHERE gameId = ?').run(gameId);
+  })();
+}
+
+async function getAllGames(
+  limit?: number,
+  nextToken?: string,
+  playerId?: string,
+  player1Id?: string,
+  player2Id?: string,
+  status?: Game['status']
+): Promise<PaginatedResult<Game>> {
+  const db = await getDatabase();
+  const size = pageSize(limit);
+  const startKey = readPageToken(nextToken, playerId ? ['gameId', 'updatedAt'] : ['gameId']);
+  const afterGameId = startKey ? startKey.gameId as string : '';
+
+  if (playerId) {
+    // Games where the player is either player1 or player2, via their player-game relationships,
+    // most recently updated first (then by id, so equal timestamps still have a fixed order)
+    const rows = db.prepare(`
+      SELECT * FROM (
+        SELECT games.gameId, games.data,
+          COALESCE(NULLIF(games.data ->> '$.updatedAt', ''), games.data ->> '$.createdAt') AS updatedAt
+        FROM player_games
+        JOIN games ON games.gameId = player_games.gameId
+        WHERE player_games.playerId = ? ${status ? "AND games.data ->> '$.status' = ?" : ''}
+      )
+      ${startKey ? 'WHERE updatedAt < ? OR (updatedAt = ? AND gameId < ?)' : ''}
+      ORDER BY updatedAt DESC, gameId DESC LIMIT ?
+    `).all(
+      playerId,
+      ...(status ? [status] : []),
+      ...(startKey ? [startKey.updatedAt, startKey.updatedAt, afterGameId] : []),
+      size + 1
+    ) as Array<{ gameId: string; data: string; updatedAt: string }>;
+    const result = page(rows, size, row => ({ playerId, gameId: row.gameId, updatedAt: row.updatedAt }));
+    return {
+      items: result.rows.map(row => fromStoredGame(JSON.parse(row.data))),
+      nextToken: result.nextToken,
+      hasMore: result.hasMore
+    };
+  }
+
+  const [filter, filterKey] = player1Id
+    ? ['player1Id = ? AND', { player1Id }]
+    : player2Id ? ['player2Id = ? AND', { player2Id }] : ['', {}];
+  const rows = db.prepare(`SELECT gameId, data FROM games WHERE ${filter} gameId > ? ORDER BY gameId LIMIT ?`)
+    .all(...(player1Id || player2Id ? [player1Id || player2Id] : []), afterGameId, size + 1) as Array<{ gameId: string; data: string }>;
+  const result = page(rows, size, row => ({ gameId: row.gameId, ...filterKey }));
+  return {
+    items: result.rows.map(row => fromStoredGame(JSON.parse(row.data))),
+    nextToken: result.nextToken,
+    hasMore: result.hasMore
+  };
+}
+
+function writeScenario(db: BetterSqlite3.Database, scenario: Scenario): void {
+  db.prepare('INSERT OR REPLACE INTO scenarios (scenarioId, queryKey, ownerId, createdAt, data) VALUES (?, ?, ?, ?, ?)')
+    .run(scenario.scenarioId, scenario.queryKey ?? null, scenario.ownerId ?? null, scenario.createdAt, JSON.stringify(toStoredScenario(scenario)));
+}
+
+async function saveScenario(scenario: Scenario): Promise<void> {
+  writeScenario(await getDatabase(), {
+    ...scenario,
+    queryKey: scenario.queryKey || 'ALL_SCENARIOS'
+  });
+}
+
+async function getScenario(scenarioId: string): Promise<Scenario | null> {
+  const db = await getDatabase();
+  const row = db.prepare('SELECT data FROM scenarios WHERE scenarioId = ?').get(scenarioId) as { data: string } | undefined;
+  return row ? fromStoredScenario<Scenario>(JSON.parse(row.data)) : null;
+}
+
+async function getAllScenarios(limit?: number, nextToken?: string, ownerId?: string): Promise<PaginatedResult<Scenario>> {
+  const db = await getDatabase();
+  const size = pageSize(limit);
+
+  let startKey: Record<string, any> | undefined;
+  if (nextToken) {
+    try {
+      startKey = decodePageToken(nextToken);
+    } catch (e) {
+      console.error('Error decoding nextToken:', e);
+    }
+  }
+
+  // Most recent first, then by id so equal timestamps still have a fixed order
+  const [filter, filterValue] = ownerId ? ['ownerId = ?', ownerId] : ['queryKey = ?', 'ALL_SCENARIOS'];
+  const rows = (startKey
+    ? db.prepare(`
+        SELECT scenarioId, createdAt, data FROM scenarios
+        WHERE ${filter} AND (createdAt < ? OR (createdAt = ? AND scenarioId < ?))
+        ORDER BY createdAt DESC, scenarioId DESC LIMIT ?
+      `).all(filterValue, startKey.createdAt, startKey.createdAt, startKey.scenarioId, size + 1)
+    : db.prepare(`SELECT scenarioId, createdAt, data FROM scenarios WHERE ${filter} ORDER BY createdAt DESC, scenarioId DESC LIMIT ?`)
+      .all(filterValue, size + 1)) as Array<{ scenarioId: string; createdAt: string; data: string }>;
+
+  const result = page(rows, size, row => ({
+    scenarioId: row.scenarioId,
+    createdAt: row.createdAt,
+    ...(ownerId ? { ownerId } : { queryKey: 'ALL_SCENARIOS' })
+  }));
+  return {
+    items: result.rows.map(row => fromStoredScenario<Scenario>(JSON.parse(row.data))),
+    nextToken: result.nextToken,
+    hasMore: result.hasMore
+  };
+}
+
+async function updateScenario(scenario: Scenario): Promise<void> {
+  // Ensure queryKey is preserved
+  const existing = await getScenario(scenario.scenarioId);
+  if (!existing) {
+    throw new Error('Scenario not found');
+  }
+
+  writeScenario(await getDatabase(), {
+    ...scenario,
+    queryKey: scenario.queryKey || existing.queryKey || 'ALL_SCENARIOS',
+    updatedAt: new Date().toISOString()
+  });
+}
+
+// Published versions are kept - games in progress may still be playing them
+async function deleteScenario(scenarioId: string): Promise<void> {
+  const db = await getDatabase();
+  db.prepare('DELETE FROM scenarios WHERE scenarioId = ?').run(scenarioId);
+}
+
+async function publishScenario(scenario: Scenario, publishedBy?: string): Promise<ScenarioVersion> {
+  const db = await getDatabase();
+  const publishedAt = new Date().toISOString();
+  const version = createScenarioVersion(scenario, (scenario.publishedVersion ?? 0) + 1, publishedAt, publishedBy);
+
+  db.transaction(() => {
+    const inserted = db.prepare('INSERT OR IGNORE INTO scenario_versions (scenarioId, version, data) VALUES (?, ?, ?)')
+      .run(scenario.scenarioId, version.version, JSON.stringify(toStoredScenario(version)));
+    if (inserted.changes === 0) {
+      throw new ConditionalWriteError(`Version ${version.version} of scenario ${scenario.scenarioId} already exists`);
+    }
+
+    // Record the publish on the draft without touching updatedAt, so it reads as having no unpublished changes
+    const updated = db.prepare(`
+      UPDATE scenarios SET data = json_set(data, '$.publishedVersion', ?, '$.publishedAt', ?)
+      WHERE scenarioId = ? AND data ->> '$.publishedVersion' IS ?
+    `).run(version.version, publishedAt, scenario.scenarioId, scenario.publishedVersion ?? null);
+    if (updated.changes === 0) {
+      throw new ConditionalWriteError(publishConflictMessage(scenario));
+    }
+  })();
+
+  return version;
+}
+
+async function getScenarioVersion(scenarioId: string, version: number): Promise<ScenarioVersion | null> {
+  const db = await getDatabase();
+  const row = db.prepare('SELECT data FROM scenario_versions WHERE scenarioId = ? AND version = ?')
+    .get(scenarioId, version) as { data: string } | undefined;
+  return row ? fromStoredScenario<ScenarioVersion>(JSON.parse(row.data)) : null;
+}
+
+async function getScenarioVersions(scenarioId: string): Promise<ScenarioVersionSummary[]> {
+  const db = await getDatabase();
+  // Summaries only - versions carry the whole map
+  const rows = db.prepare(`
+    SELECT version, data ->> '$.title' AS title, data ->> '$.publishedAt' AS publishedAt, data ->> '$.publishedBy' AS publishedBy
+    FROM scenario_versions WHERE scenarioId = ? ORDER BY version DESC
+  `).all(scenarioId) as Array<{ version: number; title: string; publishedAt: string; publishedBy: string | null }>;
+  return rows.map(({ publishedBy, ...row }) => ({
+    scenarioId,
+    ...row,
+    ...(publishedBy !== null && { publishedBy })
+  }));
+}
+
+/**
+ * Rewrite the rows of a table whose record is below `schemaVersion`. Each row
+ * is upgraded inside one transaction, so nothing can change it in between.
+ */
+function backfillTable(
+  db: BetterSqlite3.Database,
+  table: string,
+  key: string[],
+  schemaVersion: number,
+  upgrade: (record: Record<string, any>) => Record<string, any>,
+  dryRun: boolean
+): SchemaBackfillCounts {
+  const where = key.map(column => `${column} = ?`).join(' AND ');
+  const update = db.prepare(`UPDATE ${table} SET data = ? WHERE ${where}`);
+  return db.transaction(() => {
+    const rows = db.prepare(`SELECT ${key.join(', ')}, data FROM ${table}`).all() as Array<Record<string, any> & { data: string }>;
+    let upgraded = 0;
+    for (const row of rows) {
+      const record = JSON.parse(row.data);
+      if (getSchemaVersion(record) >= schemaVersion) {
+        continue;
+      }
+      upgraded++;
+      if (!dryRun) {
+        update.run(JSON.stringify(upgrade(record)), ...key.map(column => row[column]));
+      }
+    }
+    return { checked: rows.length, upgraded, skipped: 0 };
+  })();
+}
+
+async function backfillSchema({ dryRun = false }: { dryRun?: boolean } = {}): Promise<SchemaBackfillReport> {
+  const db = await getDatabase();
+  return {
+    games: backfillTable(db, 'games', ['gameId'], GAME_SCHEMA_VERSION, record => toStoredGame(fromStoredGame(record)), dryRun),
+    scenarios: backfillTable(db, 'scenarios', ['scenarioId'], SCENARIO_SCHEMA_VERSION, record => toStoredScenario(fromStoredScenario<Scenario>(record)), dryRun),
+    scenarioVersions: backfillTable(db, 'scenario_versions', ['scenarioId', 'version'], SCENARIO_SCHEMA_VERSION, record => toStoredScenario(fromStoredScenario<ScenarioVersion>(record)), dryRun),
+    // Player game lists read status and updatedAt from the games themselves
+    playerGames: { checked: (db.prepare('SELECT COUNT(*) AS count FROM player_games').get() as { count: number }).count, upgraded: 0, skipped: 0 }
+  };
+}
+
+export const sqliteStorage: StorageBackend = {
+  saveGame,
+  saveGameWithEvents,
+  getGameEvents,
+  getGame,
+  deleteGame,
+  getAllGames,
+  saveScenario,
+  getScenario,
+  getAllScenarios,
+  updateScenario,
+  deleteScenario,
+  publishScenario,
+  getScenarioVersion,
+  getScenarioVersions,
+  backfillSchema
+};
@@ -0,0 +1,85 @@
+import { Game, GameEvent, Scenario, ScenarioVersion, ScenarioVersionSummary } from '@/shared/types';
+
+export interface PaginatedResult<T> {
+  items: T[];
+  nextToken?: string;
+  hasMore: boolean;
+}
+
+/**
+ * A conditional write found the record already changed - e.g. a game saved
+ * since it was read, or a game event or scenario version whose number another
+ * writer claimed first
+ */
+export class ConditionalWriteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConditionalWriteError';
+  }
+}
+
+/**
+ * A client-supplied page token that no listing handed out - routes report it as 400
+ */
+export class InvalidPageTokenError extends Error {
+  constructor() {
+    super('Invalid nextToken');
+    this.name = 'InvalidPageTokenError';
+  }
+}
+
+export interface SchemaBackfillCounts {
+  checked: number;
+  upgraded: number; // Stored at an older schema version - rewritten, or to be rewritten on a dry run
+  skipped: number; // Changed by another writer while being upgraded - run the backfill again
+}
+
+export interface SchemaBackfillReport {
+  games: SchemaBackfillCounts;
+  scenarios: SchemaBackfillCounts;
+  scenarioVersions: SchemaBackfillCounts;
+  playerGames: SchemaBackfillCounts; // Rows missing the game's status and updatedAt, which player game lists are indexed on
+}
+
+/**
+ * Where games and scenarios are kept. Every backend returns the same shapes
+ * and pages the same way: `nextToken` is an opaque string, present only while
+ * `hasMore` is true, that resumes a list after its last item.
+ */
+export interface StorageBackend {
+  /**
+   * Save the game as its next version, returning it as saved. Throws
+   * ConditionalWriteError if the stored game is no longer at `game.version`.
+   */
+  saveGame(game: Game): Promise<Game>;
+  /** Throws ConditionalWriteError as saveGame does, or if any event's sequence number is already taken */
+  saveGameWithEvents(game: Game, events: GameEvent[]): Promise<Game>;
+  getGameEvents(gameId: string, afterSeq?: number, limit?: number): Promise<{ events: GameEvent[]; hasMore: boolean }>;
+  getGame(gameId: string): Promise<Game | null>;
+  /** Delete the game, its player-games rows and events. Throws ConditionalWriteError as saveGame does. */
+  deleteGame(game: Game): Promise<void>;
+  /**
+   * A page of games. A player's games (`playerId`, optionally with one `status`)
+   * come most recently updated first; other listings are in storage order.
+   */
+  getAllGames(limit?: number, nextToken?: string, playerId?: string, player1Id?: string, player2Id?: string, status?: Game['status']): Promise<PaginatedResult<Game>>;
+
+  saveScenario(scenario: Scenario): Promise<void>;
+  getScenario(scenarioId: string): Promise<Scenario | null>;
+  /** Most recently created first */
+  getAllScenarios(limit?: number, nextToken?: string, ownerId?: string): Promise<PaginatedResult<Scenario>>;
+  updateScenario(scenario: Scenario): Promise<void>;
+  deleteScenario(scenarioId: string): Promise<void>;
+  /** Throws ConditionalWriteError if the next version number is already taken, or the draft was deleted or published since it was read */
+  publishScenario(scenario: Scenario, publishedBy?: string): Promise<ScenarioVersion>;
+  getScenarioVersion(scenarioId: string, version: number): Promise<ScenarioVersion | null>;
+  /** Newest first */
+  getScenarioVersions(scenarioId: string): Promise<ScenarioVersionSummary[]>;
+
+  /**
+   * Rewrite every record stored at an older schema version (see ./migrations)
+   * in the current one. Reads upgrade records anyway, so this only saves them
+   * being upgraded again on every read. With dryRun, only count them.
+   */
+  backfillSchema(options?: { dryRun?: boolean }): Promise<SchemaBackfillReport>;
+}
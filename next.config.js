@@ -23,6 +23,8 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  // Native module, only loaded when STORAGE_BACKEND=sqlite - keep it out of the bundle
+  serverExternalPackages: ['better-sqlite3'],
 }
 
 module.exports = nextConfig
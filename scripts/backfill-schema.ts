@@ -0,0 +1,60 @@
+/**
+ * Script to upgrade stored games and scenarios to the current schema version
+ * Usage: npm run backfill:schema [-- --apply]
+ *
+ * Also copies each game's status and updatedAt onto player-games rows written
+ * before they were copied - the indexes player game lists are read through
+ * leave out rows without them. Run by scripts/deploy-all.sh on every deploy.
+ *
+ * Without --apply it only counts the records stored at an older schema. Reads
+ * upgrade old records anyway (see lib/storage/migrations.ts), so this is safe
+ * to run at any time, including while the API is serving requests.
+ *
+ * Requires the same environment as the API: STORAGE_BACKEND, plus the table
+ * names and AWS credentials for DynamoDB or SQLITE_PATH for SQLite.
+ *
+ * The script will also try to load values from .env file if environment variables are not set.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+// Try to load from .env file, without overriding the environment
+function loadEnvFile() {
+  const envPath = path.join(__dirname, '..', '.env');
+  if (!fs.existsSync(envPath)) {
+    return;
+  }
+  for (const line of fs.readFileSync(envPath, 'utf8').split('\n')) {
+    const trimmed = line.trim();
+    const match = trimmed.startsWith('#') ? null : trimmed.match(/^([^=]+)=(.*)$/);
+    if (match && process.env[match[1].trim()] === undefined) {
+      // Remove quotes if present
+      process.env[match[1].trim()] = match[2].trim().replace(/^["']|["']$/g, '');
+    }
+  }
+}
+
+async function main() {
+  loadEnvFile();
+  const apply = process.argv.includes('--apply');
+
+  // Imported once the environment is loaded - the storage backends read it when they load
+  const { getStorage } = await import('@/lib/storage');
+
+  console.log(`Backfilling schema versions in ${process.env.STORAGE_BACKEND || 'dynamodb'} storage${apply ? '' : ' (dry run - pass --apply to rewrite records)'}...`);
+  const report = await getStorage().backfillSchema({ dryRun: !apply });
+
+  console.log('\n=== Summary ===');
+  for (const [records, counts] of Object.entries(report)) {
+    console.log(`${records}: ${counts.checked} checked, ${counts.upgraded} ${apply ? 'upgraded' : 'to upgrade'}, ${counts.skipped} skipped`);
+  }
+  if (Object.values(report).some(counts => counts.skipped > 0)) {
+    console.log('Some records changed while being upgraded - run the backfill again to pick them up.');
+  }
+}
+
+main().catch(error => {
+  console.error('Error:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
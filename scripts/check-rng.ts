@@ -0,0 +1,69 @@
+/**
+ * Script to check that game dice are deterministic and verifiable
+ * Usage: npm run check:rng
+ *
+ * Players check finished games by hashing the revealed seed and re-deriving
+ * every logged roll (see shared/rng.ts). That only works if a seed and roll
+ * index always give the same value, on every platform and across releases -
+ * so the expected values below are fixed, and must never be updated to make
+ * a change to the dice pass.
+ *
+ * Needs no environment or AWS access. Exits non-zero if any check fails.
+ */
+
+import assert from 'assert/strict';
+import { createDieRoller, rollAt, verifyRolls } from '@/shared/rng';
+import { createGameSeed, hashSeed } from '@/lib/game-rng';
+import { RngRoll } from '@/shared/types';
+
+const SEED = 'syniad-rng-check';
+const SEED_HASH = '5fb9efdd183903bd3cf584dd394e1745f78eed793d9972bf04435ad021735a61';
+const D6_ROLLS = [6, 1, 4, 5, 6, 6, 1, 5, 2, 3, 6, 3];
+
+const checks: Array<[string, () => void]> = [
+  ['seed hash is the SHA-256 of the seed', () => {
+    assert.equal(hashSeed(SEED), SEED_HASH);
+  }],
+  ['new seeds verify against their published hash', () => {
+    const { rngSeed, rngSeedHash } = createGameSeed();
+    assert.equal(hashSeed(rngSeed), rngSeedHash);
+  }],
+  ['seed and roll index give fixed values', () => {
+    assert.deepEqual(D6_ROLLS.map((_, index) => rollAt(SEED, index, 6)), D6_ROLLS);
+    assert.equal(rollAt(SEED, 1000, 20), 7);
+  }],
+  ['die rollers replay the same rolls', () => {
+    const rolls: RngRoll[] = [];
+    const rollDie = createDieRoller(SEED, rolls);
+    assert.deepEqual(D6_ROLLS.map(() => rollDie(6, 'combat')), D6_ROLLS);
+    assert.deepEqual(rolls.map(roll => roll.index), D6_ROLLS.map((_, index) => index));
+
+    // A roller continuing the log picks up at the next index
+    const continued = createDieRoller(SEED, rolls.slice(0, 4));
+    assert.equal(continued(6, 'combat'), D6_ROLLS[4]);
+  }],
+  ['verifyRolls accepts the log and rejects tampering', () => {
+    const rolls: RngRoll[] = D6_ROLLS.map((value, index) => ({ index, sides: 6, value, purpose: 'combat' }));
+    assert.deepEqual(verifyRolls(SEED, rolls), { valid: true });
+    assert.equal(verifyRolls(SEED, rolls.map(roll => roll.index === 2 ? { ...roll, value: 1 } : roll)).valid, false);
+    assert.equal(verifyRolls(SEED, rolls.filter(roll => roll.index !== 2)).valid, false);
+    assert.equal(verifyRolls('another-seed', rolls).valid, false);
+  }],
+];
+
+let failed = 0;
+for (const [name, check] of checks) {
+  try {
+    check();
+    console.log(`✓ ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`✗ ${name}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+if (failed > 0) {
+  console.error(`\n${failed} of ${checks.length} checks failed`);
+  process.exit(1);
+}
+console.log(`\nAll ${checks.length} checks passed`);
@@ -60,6 +60,26 @@ fi
 echo -e "${GREEN}✓ Infrastructure updated${NC}"
 echo ""
 
+# Step 2b: Upgrade stored records - older records are read correctly without it, but
+# player-games rows missing status and updatedAt don't appear in players' game lists until upgraded
+echo -e "${YELLOW}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${NC}"
+echo -e "${YELLOW}Step 2b: Upgrading stored records...${NC}"
+echo -e "${YELLOW}━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━${NC}"
+export STORAGE_BACKEND=dynamodb
+export GAMES_TABLE=$(terraform output -raw games_table_name)
+export PLAYER_GAMES_TABLE=$(terraform output -raw player_games_table_name)
+export GAME_EVENTS_TABLE=$(terraform output -raw game_events_table_name)
+export SCENARIOS_TABLE=$(terraform output -raw scenarios_table_name)
+export SCENARIO_VERSIONS_TABLE=$(terraform output -raw scenario_versions_table_name)
+cd "$PROJECT_ROOT"
+npm run backfill:schema -- --apply
+if [ $? -ne 0 ]; then
+    echo -e "${RED}✗ Record upgrade failed${NC}"
+    exit 1
+fi
+echo -e "${GREEN}✓ Stored records upgraded${NC}"
+echo ""
+
 # Step 3: Deploy static assets (always deploy fresh build output)
 # Terraform's null_resource.deploy_static_assets only triggers on config changes,
 # not on build output changes, so we need to manually deploy after building
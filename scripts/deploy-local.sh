@@ -50,7 +50,9 @@ COGNITO_REGION=$(terraform output -raw cognito_region 2>/dev/null || echo "us-ea
 AWS_REGION=$(terraform output -raw aws_region 2>/dev/null || echo "us-east-1")
 GAMES_TABLE=$(terraform output -raw games_table_name 2>/dev/null || echo "")
 PLAYER_GAMES_TABLE=$(terraform output -raw player_games_table_name 2>/dev/null || echo "")
+GAME_EVENTS_TABLE=$(terraform output -raw game_events_table_name 2>/dev/null || echo "")
 SCENARIOS_TABLE=$(terraform output -raw scenarios_table_name 2>/dev/null || echo "")
+SCENARIO_VERSIONS_TABLE=$(terraform output -raw scenario_versions_table_name 2>/dev/null || echo "")
 FRONTEND_URL=$(terraform output -raw frontend_url 2>/dev/null || echo "https://dev.syniad.net")
 
 if [ -z "$COGNITO_USER_POOL_ID" ] || [ -z "$COGNITO_CLIENT_ID" ] || [ -z "$COGNITO_DOMAIN" ]; then
@@ -67,7 +69,7 @@ echo -e "${GREEN}✓ Got dev environment configuration${NC}"
 echo "  Cognito User Pool: $COGNITO_USER_POOL_ID"
 echo "  Cognito Client: $COGNITO_CLIENT_ID"
 echo "  Cognito Domain: $FULL_COGNITO_DOMAIN"
-echo "  DynamoDB Tables: $GAMES_TABLE, $PLAYER_GAMES_TABLE, $SCENARIOS_TABLE"
+echo "  DynamoDB Tables: $GAMES_TABLE, $PLAYER_GAMES_TABLE, $GAME_EVENTS_TABLE, $SCENARIOS_TABLE, $SCENARIO_VERSIONS_TABLE"
 echo ""
 
 # Verify AWS credentials are available
@@ -145,7 +147,9 @@ AWS_PROFILE=
 # DynamoDB Table Names (from dev environment)
 GAMES_TABLE=$GAMES_TABLE
 PLAYER_GAMES_TABLE=$PLAYER_GAMES_TABLE
+GAME_EVENTS_TABLE=$GAME_EVENTS_TABLE
 SCENARIOS_TABLE=$SCENARIOS_TABLE
+SCENARIO_VERSIONS_TABLE=$SCENARIO_VERSIONS_TABLE
 EOF
 
 echo -e "${GREEN}✓ Created .env file with dev backend configuration${NC}"
@@ -200,7 +204,7 @@ echo -e "  ${GREEN}✓${NC} API Docs:        http://localhost:3000/api/docs"
 echo ""
 echo -e "${GREEN}Backend Services (Dev):${NC}"
 echo -e "  ${GREEN}✓${NC} Cognito:         $FULL_COGNITO_DOMAIN"
-echo -e "  ${GREEN}✓${NC} DynamoDB:        $GAMES_TABLE, $PLAYER_GAMES_TABLE, $SCENARIOS_TABLE"
+echo -e "  ${GREEN}✓${NC} DynamoDB:        $GAMES_TABLE, $PLAYER_GAMES_TABLE, $GAME_EVENTS_TABLE, $SCENARIOS_TABLE, $SCENARIO_VERSIONS_TABLE"
 echo ""
 echo -e "${YELLOW}Note:${NC} Make sure AWS credentials are configured to access DynamoDB:"
 echo -e "  - AWS credentials file: ${BLUE}~/.aws/credentials${NC}"
@@ -0,0 +1,232 @@
+#!/usr/bin/env node
+
+/**
+ * Script to find and fix player-games rows that disagree with their games
+ * Usage: node scripts/repair-player-games.js [--fix]
+ *
+ * Without --fix it only reports what it would change. It checks for:
+ * - rows for games that no longer exist (deleted)
+ * - rows for players who are no longer in the game, or with the wrong playerIndex (deleted / rewritten)
+ * - rows whose copy of the game's status or updatedAt is missing or out of date (rewritten) - rows
+ *   written before these were copied don't appear in the player's game lists until rewritten
+ * - players in a game with no row (created)
+ * - event logs left behind by deleted games (deleted)
+ *
+ * Requires:
+ * - GAMES_TABLE, PLAYER_GAMES_TABLE and GAME_EVENTS_TABLE environment variables
+ * - AWS credentials with access to those tables
+ *
+ * The script will also try to load values from .env file if environment variables are not set.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { DynamoDBClient } = require('@aws-sdk/client-dynamodb');
+const { DynamoDBDocumentClient, ScanCommand, GetCommand, PutCommand, DeleteCommand } = require('@aws-sdk/lib-dynamodb');
+
+// Try to load from .env file
+function loadEnvFile() {
+  const envPath = path.join(__dirname, '..', '.env');
+  if (fs.existsSync(envPath)) {
+    const envContent = fs.readFileSync(envPath, 'utf8');
+    const env = {};
+    envContent.split('\n').forEach(line => {
+      const trimmed = line.trim();
+      if (trimmed && !trimmed.startsWith('#')) {
+        const match = trimmed.match(/^([^=]+)=(.*)$/);
+        if (match) {
+          const key = match[1].trim();
+          const value = match[2].trim();
+          // Remove quotes if present
+          env[key] = value.replace(/^["']|["']$/g, '');
+        }
+      }
+    });
+    return env;
+  }
+  return {};
+}
+
+const envFile = loadEnvFile();
+const GAMES_TABLE = process.env.GAMES_TABLE || envFile.GAMES_TABLE;
+const PLAYER_GAMES_TABLE = process.env.PLAYER_GAMES_TABLE || envFile.PLAYER_GAMES_TABLE;
+const GAME_EVENTS_TABLE = process.env.GAME_EVENTS_TABLE || envFile.GAME_EVENTS_TABLE;
+const AWS_REGION = process.env.AWS_REGION || envFile.AWS_REGION || 'us-east-1';
+const FIX = process.argv.includes('--fix');
+
+if (!GAMES_TABLE || !PLAYER_GAMES_TABLE || !GAME_EVENTS_TABLE) {
+  console.error('Error: GAMES_TABLE, PLAYER_GAMES_TABLE and GAME_EVENTS_TABLE environment variables are required');
+  console.error('Run: ./scripts/setup-local-env.sh');
+  process.exit(1);
+}
+
+const db = DynamoDBDocumentClient.from(new DynamoDBClient({ region: AWS_REGION }));
+
+// Every item in a table, following pagination
+async function scanAll(tableName, projection, names) {
+  const items = [];
+  let lastKey;
+  do {
+    const result = await db.send(new ScanCommand({
+      TableName: tableName,
+      ProjectionExpression: projection,
+      ExpressionAttributeNames: names,
+      ExclusiveStartKey: lastKey
+    }));
+    items.push(...(result.Items || []));
+    lastKey = result.LastEvaluatedKey;
+  } while (lastKey);
+  return items;
+}
+
+// The rows a game should have: one per player, keyed by playerId
+function expectedRows(game) {
+  const rows = new Map([[game.player1.userId, 1]]);
+  if (game.player2) {
+    rows.set(game.player2.userId, 2);
+  }
+  return rows;
+}
+
+// The game fields a row copies, for the indexes that list a player's games
+function rowFields(game, playerId) {
+  return {
+    updatedAt: game.updatedAt || game.createdAt,
+    status: game.status,
+    playerStatus: `${playerId}#${game.status}`
+  };
+}
+
+function isOutdated(row, game) {
+  const fields = rowFields(game, row.playerId);
+  return Object.keys(fields).some(key => row[key] !== fields[key]);
+}
+
+// Re-read a game before changing its rows, so games created or joined during the scan aren't "repaired"
+async function getGame(gameId) {
+  const result = await db.send(new GetCommand({
+    TableName: GAMES_TABLE,
+    Key: { gameId },
+    ConsistentRead: true
+  }));
+  return result.Item || null;
+}
+
+async function deleteRow(row) {
+  await db.send(new DeleteCommand({
+    TableName: PLAYER_GAMES_TABLE,
+    Key: { playerId: row.playerId, gameId: row.gameId }
+  }));
+}
+
+async function putRow(playerId, game, playerIndex) {
+  await db.send(new PutCommand({
+    TableName: PLAYER_GAMES_TABLE,
+    Item: { playerId, gameId: game.gameId, playerIndex, createdAt: new Date().toISOString(), ...rowFields(game, playerId) }
+  }));
+}
+
+// Main function
+async function main() {
+  console.log(`Checking player-games rows${FIX ? ' and fixing problems' : ' (dry run - pass --fix to apply)'}...`);
+  console.log(`Tables: ${GAMES_TABLE}, ${PLAYER_GAMES_TABLE}, ${GAME_EVENTS_TABLE}`);
+  console.log('');
+
+  const summary = { orphaned: 0, stale: 0, reindexed: 0, outdated: 0, missing: 0, orphanedEvents: 0 };
+
+  try {
+    const games = new Map((await scanAll(GAMES_TABLE, 'gameId, player1, player2, #status, createdAt, updatedAt', { '#status': 'status' })).map(game => [game.gameId, game]));
+    const rows = await scanAll(PLAYER_GAMES_TABLE);
+    console.log(`Found ${games.size} games and ${rows.length} player-games rows`);
+
+    // Rows that point at a missing game, a player who has left, or the wrong player index,
+    // or with an outdated copy of the game's status and updatedAt
+    const seen = new Set();
+    for (const row of rows) {
+      const scanned = games.get(row.gameId);
+      const expectedIndex = scanned && expectedRows(scanned).get(row.playerId);
+      if (expectedIndex === row.playerIndex && !isOutdated(row, scanned)) {
+        seen.add(`${row.gameId}/${row.playerId}`);
+        continue;
+      }
+
+      const game = await getGame(row.gameId);
+      const currentIndex = game && expectedRows(game).get(row.playerId);
+      if (!game) {
+        console.log(`Orphaned row: player ${row.playerId} -> missing game ${row.gameId}`);
+        summary.orphaned++;
+        if (FIX) await deleteRow(row);
+      } else if (!currentIndex) {
+        console.log(`Stale row: player ${row.playerId} is no longer in game ${row.gameId}`);
+        summary.stale++;
+        if (FIX) await deleteRow(row);
+      } else if (currentIndex !== row.playerIndex) {
+        console.log(`Wrong index: player ${row.playerId} is player ${currentIndex} in game ${row.gameId}, row says ${row.playerIndex}`);
+        summary.reindexed++;
+        seen.add(`${row.gameId}/${row.playerId}`);
+        if (FIX) await putRow(row.playerId, game, currentIndex);
+      } else if (isOutdated(row, game)) {
+        console.log(`Outdated row: player ${row.playerId} in game ${row.gameId} is missing or has an old status or updatedAt`);
+        summary.outdated++;
+        seen.add(`${row.gameId}/${row.playerId}`);
+        if (FIX) await putRow(row.playerId, game, currentIndex);
+      } else {
+        seen.add(`${row.gameId}/${row.playerId}`);
+      }
+    }
+
+    // Players with no row for their game
+    for (const scanned of games.values()) {
+      for (const playerId of expectedRows(scanned).keys()) {
+        if (seen.has(`${scanned.gameId}/${playerId}`)) {
+          continue;
+        }
+        const game = await getGame(scanned.gameId);
+        const playerIndex = game && expectedRows(game).get(playerId);
+        if (playerIndex) {
+          console.log(`Missing row: player ${playerId} in game ${scanned.gameId}`);
+          summary.missing++;
+          if (FIX) await putRow(playerId, game, playerIndex);
+        }
+      }
+    }
+
+    // Event logs of games that have been deleted
+    const events = await scanAll(GAME_EVENTS_TABLE, 'gameId, seq');
+    const orphanedLogs = new Map();
+    for (const event of events) {
+      if (!games.has(event.gameId)) {
+        orphanedLogs.set(event.gameId, [...(orphanedLogs.get(event.gameId) || []), event.seq]);
+      }
+    }
+    for (const [gameId, seqs] of orphanedLogs) {
+      if (await getGame(gameId)) {
+        continue;
+      }
+      console.log(`Orphaned event log: ${seqs.length} events for missing game ${gameId}`);
+      summary.orphanedEvents += seqs.length;
+      if (FIX) {
+        for (const seq of seqs) {
+          await db.send(new DeleteCommand({
+            TableName: GAME_EVENTS_TABLE,
+            Key: { gameId, seq }
+          }));
+        }
+      }
+    }
+
+    console.log('\n=== Summary ===');
+    console.log(`Orphaned rows: ${summary.orphaned}`);
+    console.log(`Stale rows: ${summary.stale}`);
+    console.log(`Wrong player index: ${summary.reindexed}`);
+    console.log(`Outdated rows: ${summary.outdated}`);
+    console.log(`Missing rows: ${summary.missing}`);
+    console.log(`Orphaned events: ${summary.orphanedEvents}`);
+    console.log(FIX ? 'All problems fixed.' : 'Dry run - nothing changed. Run with --fix to repair.');
+  } catch (error) {
+    console.error('Error:', error.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -53,7 +53,9 @@ COGNITO_REGION="us-east-1"
 AWS_REGION="us-east-1"
 GAMES_TABLE=""
 PLAYER_GAMES_TABLE=""
+GAME_EVENTS_TABLE=""
 SCENARIOS_TABLE=""
+SCENARIO_VERSIONS_TABLE=""
 
 # Try to get values from Terraform outputs
 # Check if terraform is initialized and has outputs
@@ -65,7 +67,9 @@ if [ -f ".terraform/terraform.tfstate" ] || terraform output cognito_user_pool_i
   AWS_REGION=$(terraform output -raw aws_region 2>/dev/null || echo "us-east-1")
   GAMES_TABLE=$(terraform output -raw games_table_name 2>/dev/null || echo "")
   PLAYER_GAMES_TABLE=$(terraform output -raw player_games_table_name 2>/dev/null || echo "")
+  GAME_EVENTS_TABLE=$(terraform output -raw game_events_table_name 2>/dev/null || echo "")
   SCENARIOS_TABLE=$(terraform output -raw scenarios_table_name 2>/dev/null || echo "")
+  SCENARIO_VERSIONS_TABLE=$(terraform output -raw scenario_versions_table_name 2>/dev/null || echo "")
   
   if [ -n "$COGNITO_POOL_ID" ] && [ -n "$COGNITO_CLIENT_ID" ]; then
     echo "✓ Found Cognito values from Terraform:"
@@ -89,6 +93,14 @@ if [ -f ".terraform/terraform.tfstate" ] || terraform output cognito_user_pool_i
     fi
   fi
   
+  if [ -n "$GAMES_TABLE" ] && [ -z "$GAME_EVENTS_TABLE" ]; then
+    SERVICE_NAME=$(echo "$GAMES_TABLE" | sed 's/-games$//')
+    if [ -n "$SERVICE_NAME" ]; then
+      GAME_EVENTS_TABLE="${SERVICE_NAME}-game-events"
+      echo "  ℹ️  Derived Game Events Table from pattern: $GAME_EVENTS_TABLE"
+    fi
+  fi
+  
   if [ -n "$GAMES_TABLE" ] && [ -z "$SCENARIOS_TABLE" ]; then
     # Extract service name from games table (e.g., "syniad-dev-games" -> "syniad-dev")
     SERVICE_NAME=$(echo "$GAMES_TABLE" | sed 's/-games$//')
@@ -98,6 +110,14 @@ if [ -f ".terraform/terraform.tfstate" ] || terraform output cognito_user_pool_i
     fi
   fi
   
+  if [ -n "$GAMES_TABLE" ] && [ -z "$SCENARIO_VERSIONS_TABLE" ]; then
+    SERVICE_NAME=$(echo "$GAMES_TABLE" | sed 's/-games$//')
+    if [ -n "$SERVICE_NAME" ]; then
+      SCENARIO_VERSIONS_TABLE="${SERVICE_NAME}-scenario-versions"
+      echo "  ℹ️  Derived Scenario Versions Table from pattern: $SCENARIO_VERSIONS_TABLE"
+    fi
+  fi
+  
   # Report what we found (even if some are missing)
   echo ""
   echo "DynamoDB table names:"
@@ -111,13 +131,23 @@ if [ -f ".terraform/terraform.tfstate" ] || terraform output cognito_user_pool_i
   else
     echo "  ⚠️  Player Games Table: not found"
   fi
+  if [ -n "$GAME_EVENTS_TABLE" ]; then
+    echo "  ✓ Game Events Table: $GAME_EVENTS_TABLE"
+  else
+    echo "  ⚠️  Game Events Table: not found"
+  fi
   if [ -n "$SCENARIOS_TABLE" ]; then
     echo "  ✓ Scenarios Table: $SCENARIOS_TABLE"
   else
     echo "  ⚠️  Scenarios Table: not found"
   fi
+  if [ -n "$SCENARIO_VERSIONS_TABLE" ]; then
+    echo "  ✓ Scenario Versions Table: $SCENARIO_VERSIONS_TABLE"
+  else
+    echo "  ⚠️  Scenario Versions Table: not found"
+  fi
   
-  if [ -z "$GAMES_TABLE" ] || [ -z "$PLAYER_GAMES_TABLE" ] || [ -z "$SCENARIOS_TABLE" ]; then
+  if [ -z "$GAMES_TABLE" ] || [ -z "$PLAYER_GAMES_TABLE" ] || [ -z "$GAME_EVENTS_TABLE" ] || [ -z "$SCENARIOS_TABLE" ] || [ -z "$SCENARIO_VERSIONS_TABLE" ]; then
     echo ""
     echo "⚠️  Some DynamoDB table names are missing"
     echo "   This might be because:"
@@ -201,10 +231,14 @@ AWS_PROFILE=
 # If empty, you can manually set them based on your Terraform outputs:
 #   terraform output games_table_name
 #   terraform output player_games_table_name
+#   terraform output game_events_table_name
 #   terraform output scenarios_table_name
+#   terraform output scenario_versions_table_name
 GAMES_TABLE=${GAMES_TABLE}
 PLAYER_GAMES_TABLE=${PLAYER_GAMES_TABLE}
+GAME_EVENTS_TABLE=${GAME_EVENTS_TABLE}
 SCENARIOS_TABLE=${SCENARIOS_TABLE}
+SCENARIO_VERSIONS_TABLE=${SCENARIO_VERSIONS_TABLE}
 
 # Set LOCAL_MODE=true to use in-memory mock storage instead of real DynamoDB
 # Set LOCAL_MODE=false (or leave empty) to use real DynamoDB when credentials are available
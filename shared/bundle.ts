@@ -0,0 +1,88 @@
+import { Scenario, ScenarioBundle, ScenarioContent, ScenarioVersion } from './types';
+
+/**
+ * Portable scenario bundles, exported by the API and imported through it.
+ *
+ * A bundle carries a format version. Whenever the stored shape of a scenario
+ * changes (a new `Hex` field, say), bump SCENARIO_BUNDLE_FORMAT_VERSION and
+ * add a migration from the previous format, so bundles already saved in git
+ * or elsewhere still import.
+ */
+
+export const SCENARIO_BUNDLE_FORMAT_VERSION = 1;
+
+// A bundle as received, before it is migrated and validated
+export interface RawScenarioBundle {
+  formatVersion: number;
+  scenario: unknown;
+}
+
+/**
+ * Migrations between bundle formats: the entry for format N turns a format N
+ * scenario into a format N + 1 one. Format 1 is current, so there are none yet.
+ */
+const BUNDLE_MIGRATIONS: Record<number, (scenario: Record<string, unknown>) => Record<string, unknown>> = {};
+
+const CONTENT_FIELDS: Array<keyof ScenarioContent> = [
+  'title',
+  'description',
+  'columns',
+  'rows',
+  'turns',
+  'hexes',
+  'unitTypes',
+  'startingUnits',
+  'combatResultsTable',
+  'fogOfWar',
+  'victoryHexes',
+  'victoryConditions',
+  'reinforcements',
+  'withdrawals',
+  'rules',
+];
+
+/**
+ * Bundle of a scenario's draft or a published version, in the current format
+ */
+export function createScenarioBundle(source: Scenario | ScenarioVersion, exportedAt: string): ScenarioBundle {
+  const scenario = Object.fromEntries(
+    CONTENT_FIELDS.filter(field => source[field] !== undefined).map(field => [field, source[field]])
+  ) as unknown as ScenarioContent;
+  return {
+    formatVersion: SCENARIO_BUNDLE_FORMAT_VERSION,
+    exportedAt,
+    source: {
+      scenarioId: source.scenarioId,
+      ...('version' in source && { version: source.version }),
+      title: source.title,
+    },
+    scenario,
+  };
+}
+
+/**
+ * Bring a bundle's scenario up to the current format. The result still needs
+ * validating as scenario content.
+ */
+export function migrateScenarioBundle(
+  bundle: RawScenarioBundle
+): { valid: true; scenario: unknown } | { valid: false; error: string } {
+  if (bundle.formatVersion > SCENARIO_BUNDLE_FORMAT_VERSION) {
+    return {
+      valid: false,
+      error: `Bundle format ${bundle.formatVersion} is newer than this server supports (${SCENARIO_BUNDLE_FORMAT_VERSION})`,
+    };
+  }
+  if (!bundle.scenario || typeof bundle.scenario !== 'object' || Array.isArray(bundle.scenario)) {
+    return { valid: false, error: 'Bundle has no scenario' };
+  }
+  let scenario = bundle.scenario as Record<string, unknown>;
+  for (let format = bundle.formatVersion; format < SCENARIO_BUNDLE_FORMAT_VERSION; format++) {
+    const migrate = BUNDLE_MIGRATIONS[format];
+    if (!migrate) {
+      return { valid: false, error: `Bundle format ${bundle.formatVersion} is no longer supported` };
+    }
+    scenario = migrate(scenario);
+  }
+  return { valid: true, scenario };
+}
@@ -0,0 +1,331 @@
+import {
+  CombatLoss,
+  CombatRecord,
+  CombatResultCode,
+  CombatResultsTable,
+  Game,
+  HexCoordinate,
+  Scenario,
+  Unit,
+} from './types';
+import { HEX_SIDES, getNeighbor, hasSide, hexDistance, hexKey, isInBounds, oppositeSide, sideBetween } from './hex';
+import { DEFAULT_MOVEMENT_RULES, buildHexMap, isStackFull } from './movement';
+import { DieRoller } from './rng';
+import { getSupplyCombatMultiplier } from './supply';
+import { getTurnState } from './turns';
+import { getVisibleHexes, isFogActive } from './visibility';
+
+/**
+ * Combat resolution shared by the API (authoritative) and the client (odds previews).
+ *
+ * All enemy units in the target hex defend together. Attack and defence
+ * strengths are summed, compared by odds or differential, shifted for the
+ * target's terrain and river crossings, then a die roll picks the result
+ * from the scenario's Combat Results Table.
+ */
+
+// Odds columns: 1:2, 1:1, 3:2, 2:1, 3:1, 4:1, 5:1 - low rolls favour the attacker
+export const DEFAULT_COMBAT_RESULTS_TABLE: CombatResultsTable = {
+  method: 'odds',
+  dieSides: 6,
+  columns: [0.5, 1, 1.5, 2, 3, 4, 5],
+  results: [
+    ['AS', 'DR', 'DR', 'DS', 'DE', 'DE', 'DE'],
+    ['AR', 'NE', 'DR', 'DR', 'DS', 'DE', 'DE'],
+    ['AR', 'AS', 'EX', 'DR', 'DR', 'DS', 'DE'],
+    ['AS', 'AR', 'NE', 'EX', 'DR', 'DR', 'DS'],
+    ['AE', 'AR', 'AS', 'NE', 'EX', 'DR', 'DR'],
+    ['AE', 'AE', 'AR', 'AS', 'NE', 'EX', 'DR'],
+  ],
+  terrainShifts: {
+    forest: -1,
+    town: -1,
+    swamp: -1,
+    mountain: -2,
+  },
+  riverShift: -1,
+};
+
+export interface AttackRequest {
+  attackerUnitIds: string[];
+  target: HexCoordinate;
+}
+
+export type CombatResolution =
+  | { valid: true; game: Game; combat: CombatRecord }
+  | { valid: false; status: 400 | 409; error: string };
+
+export interface CombatOdds {
+  attackStrength: number;
+  defenseStrength: number;
+  columnIndex: number;
+  columnShift: number;
+}
+
+function unitAt(unit: Unit, coord: HexCoordinate): boolean {
+  return unit.hexY === coord.row && unit.hexX === coord.column;
+}
+
+function unitPosition(unit: Unit): HexCoordinate {
+  return { row: unit.hexY, column: unit.hexX };
+}
+
+// CRT column the strengths reach before shifts, or -1 below the lowest column
+function getBaseColumn(crt: CombatResultsTable, attackStrength: number, defenseStrength: number): number {
+  const comparison = crt.method === 'odds'
+    ? (defenseStrength > 0 ? attackStrength / defenseStrength : Infinity)
+    : attackStrength - defenseStrength;
+  let baseColumn = -1;
+  crt.columns.forEach((threshold, index) => {
+    if (comparison >= threshold) {
+      baseColumn = index;
+    }
+  });
+  return baseColumn;
+}
+
+/**
+ * Whether the attack's odds (or differential) are below the CRT's lowest
+ * column. Such attacks are not allowed, rather than fought on that column.
+ */
+export function isBelowCombatTable(
+  scenario: Pick<Scenario, 'combatResultsTable'>,
+  odds: Pick<CombatOdds, 'attackStrength' | 'defenseStrength'>
+): boolean {
+  const crt = scenario.combatResultsTable || DEFAULT_COMBAT_RESULTS_TABLE;
+  return getBaseColumn(crt, odds.attackStrength, odds.defenseStrength) < 0;
+}
+
+/**
+ * Work out the CRT column for an attack. Exported so the client can preview odds.
+ * Check isBelowCombatTable first: attacks below the table come out at column 0.
+ */
+export function calculateCombatOdds(
+  scenario: Pick<Scenario, 'rows' | 'columns' | 'hexes' | 'unitTypes' | 'combatResultsTable' | 'rules'>,
+  attackers: Unit[],
+  defenders: Unit[],
+  target: HexCoordinate
+): CombatOdds {
+  const crt = scenario.combatResultsTable || DEFAULT_COMBAT_RESULTS_TABLE;
+  const unitTypes = scenario.unitTypes || {};
+  // Out-of-supply units fight at reduced strength
+  const attackStrength = attackers.reduce(
+    (sum, unit) => sum + (unitTypes[unit.unitType]?.attack ?? 0) * getSupplyCombatMultiplier(scenario, unit), 0
+  );
+  const defenseStrength = defenders.reduce(
+    (sum, unit) => sum + (unitTypes[unit.unitType]?.defense ?? 0) * getSupplyCombatMultiplier(scenario, unit), 0
+  );
+  const baseColumn = Math.max(getBaseColumn(crt, attackStrength, defenseStrength), 0);
+
+  const hexMap = buildHexMap(scenario);
+  const targetHex = hexMap.get(hexKey(target));
+  let columnShift = targetHex ? (crt.terrainShifts?.[targetHex.terrain] ?? 0) : 0;
+
+  // River shift applies only when every attacker is adjacent and attacking across a river side
+  const acrossRiver = targetHex && attackers.length > 0 && attackers.every(unit => {
+    const side = sideBetween(target, unitPosition(unit));
+    if (side === null) {
+      return false;
+    }
+    const attackerHex = hexMap.get(hexKey(unitPosition(unit)));
+    return hasSide(targetHex.rivers, side) || (!!attackerHex && hasSide(attackerHex.rivers, oppositeSide(side)));
+  });
+  if (acrossRiver) {
+    columnShift += crt.riverShift ?? 0;
+  }
+
+  const columnIndex = Math.min(Math.max(baseColumn + columnShift, 0), crt.columns.length - 1);
+  return { attackStrength, defenseStrength, columnIndex, columnShift };
+}
+
+/**
+ * Pick a hex for a unit to retreat into: on the map, passable, free of enemy units,
+ * within the stacking limit and as far as possible from the enemy hex.
+ * Returns null if no retreat is possible.
+ */
+function findRetreatHex(
+  unit: Unit,
+  enemyHex: HexCoordinate,
+  units: Unit[],
+  scenario: Pick<Scenario, 'rows' | 'columns' | 'hexes' | 'rules'>
+): HexCoordinate | null {
+  const hexMap = buildHexMap(scenario);
+  let best: HexCoordinate | null = null;
+  let bestDistance = -1;
+  for (const side of HEX_SIDES) {
+    const candidate = getNeighbor(unitPosition(unit), side);
+    const hex = hexMap.get(hexKey(candidate));
+    if (!hex || !isInBounds(candidate, scenario.rows, scenario.columns)) {
+      continue;
+    }
+    if (!Number.isFinite(DEFAULT_MOVEMENT_RULES.terrainCosts[hex.terrain])) {
+      continue;
+    }
+    if (units.some(other => other.ownerPlayerIndex !== unit.ownerPlayerIndex && unitAt(other, candidate))) {
+      continue;
+    }
+    if (isStackFull(units, unit.ownerPlayerIndex, candidate, scenario.rules?.stackingLimit, unit.unitId)) {
+      continue;
+    }
+    const distance = hexDistance(candidate, enemyHex);
+    if (distance > bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Apply a CRT result to one side of the combat, mutating `units` and recording losses
+ */
+function applyResultToSide(
+  effect: 'eliminate' | 'retreat' | 'step',
+  side: Unit[],
+  enemyHex: HexCoordinate,
+  units: Unit[],
+  scenario: Pick<Scenario, 'rows' | 'columns' | 'hexes' | 'rules'>,
+  losses: CombatLoss[]
+): void {
+  if (effect === 'step') {
+    // The healthiest unit absorbs the step loss
+    const unit = [...side].sort((a, b) => b.currentHealth - a.currentHealth)[0];
+    if (unit) {
+      unit.currentHealth -= 1;
+      losses.push({ unitId: unit.unitId, stepsLost: 1, eliminated: unit.currentHealth <= 0 });
+    }
+    return;
+  }
+  for (const unit of side) {
+    if (effect === 'eliminate') {
+      losses.push({ unitId: unit.unitId, stepsLost: unit.currentHealth, eliminated: true });
+      unit.currentHealth = 0;
+      continue;
+    }
+    // A unit that cannot retreat is eliminated
+    const retreatTo = findRetreatHex(unit, enemyHex, units, scenario);
+    if (!retreatTo) {
+      losses.push({ unitId: unit.unitId, stepsLost: unit.currentHealth, eliminated: true });
+      unit.currentHealth = 0;
+      continue;
+    }
+    unit.hexX = retreatTo.column;
+    unit.hexY = retreatTo.row;
+    losses.push({ unitId: unit.unitId, stepsLost: 0, eliminated: false, retreatedTo: retreatTo });
+  }
+}
+
+const RESULT_EFFECTS: Record<CombatResultCode, { attacker?: 'eliminate' | 'retreat' | 'step'; defender?: 'eliminate' | 'retreat' | 'step' }> = {
+  AE: { attacker: 'eliminate' },
+  AR: { attacker: 'retreat' },
+  AS: { attacker: 'step' },
+  NE: {},
+  EX: { attacker: 'step', defender: 'step' },
+  DS: { defender: 'step' },
+  DR: { defender: 'retreat' },
+  DE: { defender: 'eliminate' },
+};
+
+/**
+ * Validate and resolve an attack by the given player during the combat phase.
+ * `rollDie` returns an integer from 1 to `sides` (see createDieRoller). Eliminated units are removed
+ * from the returned game; the outcome is appended to the combat log.
+ */
+export function resolveAttack(
+  game: Game,
+  scenario: Pick<Scenario, 'rows' | 'columns' | 'hexes' | 'unitTypes' | 'combatResultsTable' | 'rules'>,
+  playerIndex: number,
+  attack: AttackRequest,
+  rollDie: DieRoller
+): CombatResolution {
+  const { turnNumber, phase } = getTurnState(game);
+  if (phase !== 'combat') {
+    return { valid: false, status: 409, error: `Attacks are only allowed in the combat phase (current phase: ${phase})` };
+  }
+
+  // Work on copies so a rejected attack leaves the game untouched
+  const units = (game.units || []).map(unit => ({ ...unit }));
+  const unitTypes = scenario.unitTypes || {};
+
+  if (attack.attackerUnitIds.length === 0) {
+    return { valid: false, status: 400, error: 'At least one attacking unit is required' };
+  }
+  if (new Set(attack.attackerUnitIds).size !== attack.attackerUnitIds.length) {
+    return { valid: false, status: 400, error: 'Attacking units must not be repeated' };
+  }
+
+  const attackers: Unit[] = [];
+  for (const unitId of attack.attackerUnitIds) {
+    const unit = units.find(candidate => candidate.unitId === unitId);
+    if (!unit) {
+      return { valid: false, status: 400, error: `Unit not found: ${unitId}` };
+    }
+    if (unit.ownerPlayerIndex !== playerIndex) {
+      return { valid: false, status: 400, error: `Unit ${unitId} does not belong to you` };
+    }
+    if (unit.hasAttacked) {
+      return { valid: false, status: 409, error: `Unit ${unitId} has already attacked this turn` };
+    }
+    const range = unitTypes[unit.unitType]?.range ?? 1;
+    const distance = hexDistance(unitPosition(unit), attack.target);
+    if (distance < 1 || distance > Math.max(range, 1)) {
+      return { valid: false, status: 400, error: `Target hex is out of range for unit ${unitId} (distance ${distance}, range ${range})` };
+    }
+    attackers.push(unit);
+  }
+
+  // Under fog of war a hex out of view reads as empty, so attacks can't be used to probe for hidden units
+  const noDefenders: CombatResolution = { valid: false, status: 400, error: `No enemy units at ${attack.target.column + 1}-${attack.target.row + 1}` };
+  if (isFogActive(game) && !getVisibleHexes(scenario, units, playerIndex).has(hexKey(attack.target))) {
+    return noDefenders;
+  }
+  const defenders = units.filter(unit => unit.ownerPlayerIndex !== playerIndex && unitAt(unit, attack.target));
+  if (defenders.length === 0) {
+    return noDefenders;
+  }
+
+  const crt = scenario.combatResultsTable || DEFAULT_COMBAT_RESULTS_TABLE;
+  const odds = calculateCombatOdds(scenario, attackers, defenders, attack.target);
+  if (isBelowCombatTable(scenario, odds)) {
+    return { valid: false, status: 400, error: 'Attack is too weak: its odds are below the lowest column of the combat results table' };
+  }
+  const dieRoll = rollDie(crt.dieSides, 'combat');
+  const result = crt.results[dieRoll - 1][odds.columnIndex];
+
+  const losses: CombatLoss[] = [];
+  const effects = RESULT_EFFECTS[result];
+  // Attackers retreat away from the target hex; defenders away from the first attacker
+  if (effects.attacker) {
+    applyResultToSide(effects.attacker, attackers, attack.target, units, scenario, losses);
+  }
+  if (effects.defender) {
+    applyResultToSide(effects.defender, defenders, unitPosition(attackers[0]), units, scenario, losses);
+  }
+  for (const unit of attackers) {
+    unit.hasAttacked = true;
+  }
+
+  const combat: CombatRecord = {
+    turnNumber,
+    playerIndex,
+    attackerUnitIds: attackers.map(unit => unit.unitId),
+    defenderUnitIds: defenders.map(unit => unit.unitId),
+    target: attack.target,
+    ...odds,
+    dieRoll,
+    result,
+    losses,
+    createdAt: new Date().toISOString(),
+  };
+
+  return {
+    valid: true,
+    combat,
+    game: {
+      ...game,
+      units: units.filter(unit => unit.currentHealth > 0),
+      combatLog: [...(game.combatLog || []), combat],
+      updatedAt: combat.createdAt,
+    },
+  };
+}
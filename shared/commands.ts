@@ -0,0 +1,207 @@
+import { CombatRecord, Game, GameEventData, GameOutcome, GameTurnState, HexCoordinate, Scenario } from './types';
+import { resolveAttack } from './combat';
+import { findPath, getScenarioMovementOptions, isStackFull } from './movement';
+import { DieRoller } from './rng';
+import { applyScheduleUpdate, getScheduleUpdate } from './reinforcements';
+import { getMovementAllowance, getOutOfSupplyUnitIds, setSupplyStatus } from './supply';
+import {
+  applyTurnState,
+  getNextPlayerTurn,
+  getNextTurnState,
+  getPlayerIndex,
+  getTurnState,
+  validateTurnAction,
+} from './turns';
+import { evaluateVictory, getHexControl } from './victory';
+
+/**
+ * Player commands - the single entry point for changing a game in play.
+ *
+ * The API validates each command against the game state and scenario rules
+ * here, then persists the resulting game together with the event describing
+ * what happened (see ./events). Rules live in the shared modules
+ * (movement, combat, turns, victory) so the client can run the same checks for previews.
+ */
+
+export type GameCommand =
+  | { type: 'move'; unitId: string; to: HexCoordinate }
+  | { type: 'attack'; attackerUnitIds: string[]; target: HexCoordinate }
+  | { type: 'endPhase' }
+  | { type: 'endTurn' }
+  | { type: 'resign' };
+
+export type GameCommandType = GameCommand['type'];
+
+export type CommandResult =
+  | { valid: true; game: Game; event: GameEventData; combat?: CombatRecord }
+  | { valid: false; status: 400 | 403 | 409; error: string };
+
+type CommandScenario = Pick<
+  Scenario,
+  'rows' | 'columns' | 'turns' | 'hexes' | 'unitTypes' | 'combatResultsTable' | 'startingUnits' | 'reinforcements' | 'withdrawals' | 'victoryHexes' | 'victoryConditions' | 'rules'
+>;
+
+function applyMove(
+  game: Game,
+  scenario: CommandScenario,
+  playerIndex: number,
+  command: Extract<GameCommand, { type: 'move' }>
+): CommandResult {
+  const { phase } = getTurnState(game);
+  if (phase !== 'movement') {
+    return { valid: false, status: 409, error: `Units can only move in the movement phase (current phase: ${phase})` };
+  }
+
+  const units = game.units || [];
+  const unit = units.find(candidate => candidate.unitId === command.unitId);
+  if (!unit) {
+    return { valid: false, status: 400, error: `Unit not found: ${command.unitId}` };
+  }
+  if (unit.ownerPlayerIndex !== playerIndex) {
+    return { valid: false, status: 400, error: `Unit ${command.unitId} does not belong to you` };
+  }
+  if (unit.hasMoved) {
+    return { valid: false, status: 409, error: `Unit ${command.unitId} has already moved this turn` };
+  }
+  const unitType = scenario.unitTypes?.[unit.unitType];
+  if (!unitType) {
+    return { valid: false, status: 400, error: `Unit ${command.unitId} has unknown unit type: ${unit.unitType}` };
+  }
+
+  const destination = `${command.to.column + 1}-${command.to.row + 1}`;
+  const unreachable: CommandResult = { valid: false, status: 400, error: `Unit ${command.unitId} cannot reach ${destination} this turn` };
+  // Enemy-occupied hexes read as unreachable, so under fog of war moves can't be used to probe for hidden units
+  if (units.some(other => other.ownerPlayerIndex !== playerIndex && other.hexY === command.to.row && other.hexX === command.to.column)) {
+    return unreachable;
+  }
+  const stackingLimit = scenario.rules?.stackingLimit;
+  if (isStackFull(units, playerIndex, command.to, stackingLimit, unit.unitId)) {
+    return { valid: false, status: 400, error: `${destination} already holds the stacking limit of ${stackingLimit} units` };
+  }
+  const path = findPath(scenario, unit, unitType, command.to, {
+    ...getScenarioMovementOptions(scenario, units),
+    movementPoints: getMovementAllowance(scenario, unit, unitType),
+  });
+  if (!path) {
+    return unreachable;
+  }
+
+  const updatedAt = new Date().toISOString();
+  return {
+    valid: true,
+    game: {
+      ...game,
+      units: units.map(candidate =>
+        candidate.unitId === unit.unitId
+          ? { ...candidate, hexX: path.column, hexY: path.row, hasMoved: true }
+          : candidate
+      ),
+      updatedAt,
+    },
+    event: {
+      type: 'unitMoved',
+      unitId: unit.unitId,
+      from: { row: unit.hexY, column: unit.hexX },
+      to: { row: path.row, column: path.column },
+    },
+  };
+}
+
+/**
+ * Move to the next turn state. When a player turn ends, victory hex control and
+ * unit supply are updated and victory conditions are checked, possibly ending the game early.
+ * Otherwise the next player's scheduled reinforcements and withdrawals take effect.
+ */
+function advanceTurn(
+  game: Game,
+  scenario: CommandScenario,
+  type: 'phaseEnded' | 'turnEnded',
+  next: GameTurnState | null
+): CommandResult {
+  const current = getTurnState(game);
+  const playerTurnOver = !next || next.currentPlayerIndex !== current.currentPlayerIndex || next.turnNumber !== current.turnNumber;
+  if (!playerTurnOver) {
+    return { valid: true, game: applyTurnState(game, next), event: { type, next } };
+  }
+
+  const controlledHexes = getHexControl(game, scenario);
+  const outOfSupply = scenario.rules?.supply ? getOutOfSupplyUnitIds(scenario, game.units || []) : undefined;
+  const ended = {
+    ...game,
+    controlledHexes,
+    ...(outOfSupply && { units: setSupplyStatus(game.units || [], outOfSupply) }),
+  };
+  const outcome = evaluateVictory(ended, scenario, current, next);
+  const nextState = outcome ? null : next;
+  let nextGame = applyTurnState(ended, nextState);
+  const schedule = nextState?.phase === 'reinforcement'
+    ? getScheduleUpdate(nextGame, scenario, nextState.currentPlayerIndex, nextState.turnNumber)
+    : null;
+  if (schedule) {
+    nextGame = applyScheduleUpdate(nextGame, schedule);
+  }
+  return {
+    valid: true,
+    game: { ...nextGame, ...(outcome && { outcome }) },
+    event: {
+      type,
+      next: nextState,
+      controlledHexes,
+      ...(outOfSupply && { outOfSupply }),
+      ...(schedule && { schedule }),
+      ...(outcome && { outcome }),
+    },
+  };
+}
+
+/**
+ * Validate and apply a command from the given user. Returns the new game state,
+ * or the HTTP status and reason the command was rejected.
+ */
+export function applyCommand(
+  game: Game,
+  scenario: CommandScenario,
+  userId: string,
+  command: GameCommand,
+  rollDie: DieRoller
+): CommandResult {
+  // Resigning is allowed at any point in an active game, not only on your turn
+  if (command.type === 'resign') {
+    const playerIndex = getPlayerIndex(game, userId);
+    if (playerIndex === null) {
+      return { valid: false, status: 403, error: 'You are not a player in this game' };
+    }
+    if (game.status !== 'active') {
+      return { valid: false, status: 409, error: `Game is not active (status: ${game.status})` };
+    }
+    const winner = playerIndex === 1 ? 2 : 1;
+    const outcome: GameOutcome = { winner, reason: 'resignation', description: `Player ${playerIndex} resigned` };
+    return {
+      valid: true,
+      game: { ...game, status: 'finished', outcome, updatedAt: new Date().toISOString() },
+      event: { type: 'playerResigned', playerIndex, outcome },
+    };
+  }
+
+  const turnValidation = validateTurnAction(game, userId);
+  if (!turnValidation.valid) {
+    return turnValidation;
+  }
+  const { playerIndex } = turnValidation;
+
+  switch (command.type) {
+    case 'move':
+      return applyMove(game, scenario, playerIndex, command);
+    case 'attack': {
+      const resolution = resolveAttack(game, scenario, playerIndex, command, rollDie);
+      if (!resolution.valid) {
+        return resolution;
+      }
+      return { ...resolution, event: { type: 'attackResolved', combat: resolution.combat } };
+    }
+    case 'endPhase':
+      return advanceTurn(game, scenario, 'phaseEnded', getNextTurnState(getTurnState(game), scenario.turns));
+    case 'endTurn':
+      return advanceTurn(game, scenario, 'turnEnded', getNextPlayerTurn(getTurnState(game), scenario.turns));
+  }
+}
@@ -1,12 +1,14 @@
 import { initContract } from '@ts-rest/core';
 import { z } from 'zod';
-import { Game, Scenario, Hex, Player } from './types';
+import { Game, GameEvent, Scenario, ScenarioBundle, ScenarioVersion, ScenarioVersionSummary, Hex, Player, UnitType, StartingUnit, Unit, CombatRecord, CombatResultsTable } from './types';
 
 const c = initContract();
 
 // Zod schemas for validation
 const TerrainTypeSchema = z.enum(['clear', 'mountain', 'forest', 'water', 'desert', 'swamp', 'town']);
 
+const GamePhaseSchema = z.enum(['reinforcement', 'movement', 'combat']);
+
 const HexSchema: z.ZodType<Hex> = z.object({
   row: z.number().int().min(0),
   column: z.number().int().min(0),
@@ -15,6 +17,175 @@ const HexSchema: z.ZodType<Hex> = z.object({
   roads: z.number().int().min(0), // Bitmask for road sides (required, default to 0 in application code)
 });
 
+const UnitTypeSchema: z.ZodType<UnitType> = z.object({
+  name: z.string().min(1),
+  movement: z.number().min(0),
+  attack: z.number().min(0),
+  defense: z.number().min(0),
+  health: z.number().int().min(1),
+  range: z.number().int().min(0),
+  spottingRange: z.number().int().min(0).optional(),
+  cost: z.number().min(0).optional(),
+});
+
+const StartingUnitSchema: z.ZodType<StartingUnit> = z.object({
+  playerIndex: z.number().int().min(1).max(2),
+  units: z.array(z.object({
+    unitType: z.string(), // Must be a key of the scenario's unitTypes
+    hexX: z.number().int().min(0),
+    hexY: z.number().int().min(0),
+  })),
+});
+
+const HexCoordinateSchema = z.object({
+  row: z.number().int().min(0),
+  column: z.number().int().min(0),
+});
+
+const UnitSchema: z.ZodType<Unit> = z.object({
+  unitId: z.string(),
+  unitType: z.string(),
+  ownerPlayerIndex: z.number().int().min(1).max(2),
+  hexX: z.number().int().min(0),
+  hexY: z.number().int().min(0),
+  currentHealth: z.number().int().min(0),
+  maxHealth: z.number().int().min(1),
+  hasMoved: z.boolean().optional(),
+  hasAttacked: z.boolean().optional(),
+  outOfSupply: z.boolean().optional(),
+});
+
+const ReinforcementSchema = z.object({
+  playerIndex: z.number().int().min(1).max(2),
+  turn: z.number().int().min(1),
+  unitType: z.string(), // Must be a key of the scenario's unitTypes
+  count: z.number().int().min(1),
+  entryHexes: z.array(HexCoordinateSchema).min(1),
+});
+
+const WithdrawalSchema = z.object({
+  playerIndex: z.number().int().min(1).max(2),
+  turn: z.number().int().min(1),
+  unitType: z.string(),
+  count: z.number().int().min(1),
+});
+
+const ScheduleUpdateSchema = z.object({
+  arrived: z.array(UnitSchema),
+  withdrawn: z.array(UnitSchema),
+  reinforcementsPlaced: z.array(z.number().int().min(0)),
+});
+
+const CombatResultCodeSchema = z.enum(['AE', 'AR', 'AS', 'NE', 'EX', 'DS', 'DR', 'DE']);
+
+const CombatResultsTableSchema: z.ZodType<CombatResultsTable> = z.object({
+  method: z.enum(['odds', 'differential']),
+  dieSides: z.number().int().min(1),
+  columns: z.array(z.number()).min(1),
+  results: z.array(z.array(CombatResultCodeSchema)),
+  terrainShifts: z.record(TerrainTypeSchema, z.number().int()).optional(),
+  riverShift: z.number().int().optional(),
+}).refine(
+  crt => crt.results.length === crt.dieSides && crt.results.every(row => row.length === crt.columns.length),
+  { message: 'results must have one row per die face and one entry per column' }
+);
+
+const CombatRecordSchema: z.ZodType<CombatRecord> = z.object({
+  turnNumber: z.number().int().min(1),
+  playerIndex: z.number().int().min(1).max(2),
+  attackerUnitIds: z.array(z.string()),
+  defenderUnitIds: z.array(z.string()),
+  target: HexCoordinateSchema,
+  attackStrength: z.number(),
+  defenseStrength: z.number(),
+  columnIndex: z.number().int().min(0),
+  columnShift: z.number().int(),
+  dieRoll: z.number().int().min(1),
+  result: CombatResultCodeSchema,
+  losses: z.array(z.object({
+    unitId: z.string(),
+    stepsLost: z.number().int().min(0),
+    eliminated: z.boolean(),
+    retreatedTo: HexCoordinateSchema.optional(),
+  })),
+  createdAt: z.string(),
+});
+
+const RngRollSchema = z.object({
+  index: z.number().int().min(0),
+  sides: z.number().int().min(1),
+  value: z.number().int().min(1),
+  purpose: z.string(),
+});
+
+const GameCommandSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('move'),
+    unitId: z.string(),
+    to: HexCoordinateSchema,
+  }),
+  z.object({
+    type: z.literal('attack'),
+    attackerUnitIds: z.array(z.string()).min(1),
+    target: HexCoordinateSchema,
+  }),
+  z.object({ type: z.literal('endPhase') }),
+  z.object({ type: z.literal('endTurn') }),
+  z.object({ type: z.literal('resign') }),
+]);
+
+const VictoryHexSchema = z.object({
+  row: z.number().int().min(0),
+  column: z.number().int().min(0),
+  points: z.number().int().min(0),
+  initialController: z.number().int().min(1).max(2).optional(),
+});
+
+const VictoryConditionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('victoryPoints'),
+    playerIndex: z.number().int().min(1).max(2),
+    points: z.number().int().min(1),
+  }),
+  z.object({
+    type: z.literal('elimination'),
+    playerIndex: z.number().int().min(1).max(2),
+    percent: z.number().min(1).max(100),
+  }),
+  z.object({
+    type: z.literal('holdHex'),
+    playerIndex: z.number().int().min(1).max(2),
+    hex: HexCoordinateSchema,
+    turn: z.number().int().min(1),
+  }),
+]);
+
+const ScenarioRulesSchema = z.object({
+  zoneOfControl: z.object({
+    stopOnEntering: z.boolean(),
+    leaveCost: z.number().min(0),
+    riversNegate: z.boolean(),
+  }).optional(),
+  stackingLimit: z.number().int().min(1).optional(),
+  supply: z.object({
+    sources: z.array(z.object({
+      playerIndex: z.number().int().min(1).max(2),
+      edges: z.array(z.enum(['north', 'east', 'south', 'west'])).optional(),
+      hexes: z.array(HexCoordinateSchema).optional(),
+    })),
+    range: z.number().min(0),
+    roadCost: z.number().positive(),
+    movementMultiplier: z.number().min(0).max(1),
+    combatMultiplier: z.number().min(0).max(1),
+  }).optional(),
+});
+
+const GameOutcomeSchema = z.object({
+  winner: z.number().int().min(1).max(2).nullable(), // null for a draw
+  reason: z.enum(['victoryPoints', 'elimination', 'holdHex', 'endOfScenario', 'resignation']),
+  description: z.string(),
+});
+
 const PlayerSchema: z.ZodType<Player> = z.object({
   name: z.string(),
   userId: z.string(),
@@ -24,13 +195,109 @@ const GameSchema: z.ZodType<Game> = z.object({
   gameId: z.string(),
   status: z.enum(['waiting', 'active', 'finished']),
   scenarioId: z.string(),
+  scenarioVersion: z.number().int().min(1).optional(),
   player1: PlayerSchema,
   player2: PlayerSchema.optional(),
   player1Id: z.string(),
   player2Id: z.string().optional(),
   turnNumber: z.number().int().min(1),
+  currentPlayerIndex: z.number().int().min(1).max(2).optional(),
+  phase: GamePhaseSchema.optional(),
+  units: z.array(UnitSchema).optional(),
+  combatLog: z.array(CombatRecordSchema).optional(),
+  rngSeedHash: z.string().optional(),
+  rngSeed: z.string().optional(),
+  rngRolls: z.array(RngRollSchema).optional(),
+  eventSeq: z.number().int().min(0).optional(),
+  fogOfWar: z.boolean().optional(),
+  controlledHexes: z.record(z.number().int().min(1).max(2)).optional(),
+  outcome: GameOutcomeSchema.optional(),
+  reinforcementsPlaced: z.array(z.number().int().min(0)).optional(),
+  withdrawnUnits: z.array(UnitSchema).optional(),
   createdAt: z.string(),
   updatedAt: z.string().optional(),
+  version: z.number().int().min(1).optional(),
+});
+
+const GameTurnStateSchema = z.object({
+  turnNumber: z.number().int().min(1),
+  currentPlayerIndex: z.number().int().min(1).max(2),
+  phase: GamePhaseSchema,
+});
+
+const GameEventSchema: z.ZodType<GameEvent> = z.intersection(
+  z.object({
+    gameId: z.string(),
+    seq: z.number().int().min(1),
+    playerIndex: z.number().int().min(1).max(2).optional(),
+    rolls: z.array(RngRollSchema).optional(),
+    createdAt: z.string(),
+  }),
+  z.discriminatedUnion('type', [
+    z.object({ type: z.literal('gameCreated'), game: GameSchema }),
+    z.object({ type: z.literal('snapshot'), game: GameSchema }),
+    z.object({ type: z.literal('playerJoined'), player: PlayerSchema }),
+    z.object({
+      type: z.literal('unitMoved'),
+      unitId: z.string(),
+      from: HexCoordinateSchema,
+      to: HexCoordinateSchema,
+    }),
+    z.object({ type: z.literal('attackResolved'), combat: CombatRecordSchema }),
+    z.object({
+      type: z.literal('phaseEnded'),
+      next: GameTurnStateSchema.nullable(),
+      controlledHexes: z.record(z.number().int().min(1).max(2)).optional(),
+      outOfSupply: z.array(z.string()).optional(),
+      schedule: ScheduleUpdateSchema.optional(),
+      outcome: GameOutcomeSchema.optional(),
+    }),
+    z.object({
+      type: z.literal('turnEnded'),
+      next: GameTurnStateSchema.nullable(),
+      controlledHexes: z.record(z.number().int().min(1).max(2)).optional(),
+      outOfSupply: z.array(z.string()).optional(),
+      schedule: ScheduleUpdateSchema.optional(),
+      outcome: GameOutcomeSchema.optional(),
+    }),
+    z.object({
+      type: z.literal('playerResigned'),
+      playerIndex: z.number().int().min(1).max(2),
+      outcome: GameOutcomeSchema.optional(),
+    }),
+  ])
+);
+
+const ScenarioLineageSchema = z.object({
+  scenarioId: z.string(),
+  version: z.number().int().min(1).optional(),
+  title: z.string(),
+});
+
+// What a scenario is created from, and what a bundle carries
+const ScenarioContentSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  columns: z.number().int().min(1),
+  rows: z.number().int().min(1),
+  turns: z.number().int().min(1),
+  hexes: z.array(HexSchema).optional(),
+  unitTypes: z.record(UnitTypeSchema).optional(),
+  startingUnits: z.array(StartingUnitSchema).optional(),
+  combatResultsTable: CombatResultsTableSchema.optional(),
+  fogOfWar: z.boolean().optional(),
+  victoryHexes: z.array(VictoryHexSchema).optional(),
+  victoryConditions: z.array(VictoryConditionSchema).optional(),
+  reinforcements: z.array(ReinforcementSchema).optional(),
+  withdrawals: z.array(WithdrawalSchema).optional(),
+  rules: ScenarioRulesSchema.optional(),
+});
+
+const ScenarioBundleSchema: z.ZodType<ScenarioBundle> = z.object({
+  formatVersion: z.number().int().min(1),
+  exportedAt: z.string(),
+  source: ScenarioLineageSchema.optional(),
+  scenario: ScenarioContentSchema,
 });
 
 const ScenarioSchema: z.ZodType<Scenario> = z.object({
@@ -41,11 +308,81 @@ const ScenarioSchema: z.ZodType<Scenario> = z.object({
   rows: z.number().int().min(1),
   turns: z.number().int().min(1),
   hexes: z.array(HexSchema).optional(),
+  unitTypes: z.record(UnitTypeSchema).optional(),
+  startingUnits: z.array(StartingUnitSchema).optional(),
+  combatResultsTable: CombatResultsTableSchema.optional(),
+  fogOfWar: z.boolean().optional(),
+  victoryHexes: z.array(VictoryHexSchema).optional(),
+  victoryConditions: z.array(VictoryConditionSchema).optional(),
+  reinforcements: z.array(ReinforcementSchema).optional(),
+  withdrawals: z.array(WithdrawalSchema).optional(),
+  rules: ScenarioRulesSchema.optional(),
+  ownerId: z.string().optional(),
+  createdBy: z.string().optional(),
+  forkedFrom: ScenarioLineageSchema.optional(),
+  publishedVersion: z.number().int().min(1).optional(),
+  publishedAt: z.string().optional(),
   createdAt: z.string(),
   updatedAt: z.string().optional(),
   queryKey: z.string().optional(),
 });
 
+// Published versions snapshot the scenario's content under a version number
+const ScenarioVersionSchema: z.ZodType<ScenarioVersion> = z.object({
+  scenarioId: z.string(),
+  version: z.number().int().min(1),
+  title: z.string(),
+  description: z.string(),
+  columns: z.number().int().min(1),
+  rows: z.number().int().min(1),
+  turns: z.number().int().min(1),
+  hexes: z.array(HexSchema).optional(),
+  unitTypes: z.record(UnitTypeSchema).optional(),
+  startingUnits: z.array(StartingUnitSchema).optional(),
+  combatResultsTable: CombatResultsTableSchema.optional(),
+  fogOfWar: z.boolean().optional(),
+  victoryHexes: z.array(VictoryHexSchema).optional(),
+  victoryConditions: z.array(VictoryConditionSchema).optional(),
+  reinforcements: z.array(ReinforcementSchema).optional(),
+  withdrawals: z.array(WithdrawalSchema).optional(),
+  rules: ScenarioRulesSchema.optional(),
+  ownerId: z.string().optional(),
+  createdBy: z.string().optional(),
+  forkedFrom: ScenarioLineageSchema.optional(),
+  publishedAt: z.string(),
+  publishedBy: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+});
+
+const ScenarioVersionSummarySchema: z.ZodType<ScenarioVersionSummary> = z.object({
+  scenarioId: z.string(),
+  version: z.number().int().min(1),
+  title: z.string(),
+  publishedAt: z.string(),
+  publishedBy: z.string().optional(),
+});
+
+const ScenarioDiffSchema = z.object({
+  fields: z.array(z.object({
+    field: z.string(),
+    from: z.unknown(),
+    to: z.unknown(),
+  })),
+  hexes: z.array(z.object({
+    row: z.number().int().min(0),
+    column: z.number().int().min(0),
+    from: HexSchema.nullable(),
+    to: HexSchema.nullable(),
+  })),
+});
+
+// A version number, or "draft" for the scenario's current unpublished state
+const ScenarioRevisionSchema = z.union([
+  z.literal('draft'),
+  z.string().regex(/^\d+$/).transform(Number),
+]);
+
 const UserSchema = z.object({
   userId: z.string().optional(),
   username: z.string().optional(),
@@ -70,6 +407,7 @@ export const contract = c.router({
       playerId: z.string().optional(),
       player1Id: z.string().optional(),
       player2Id: z.string().optional(),
+      status: z.enum(['waiting', 'active', 'finished']).optional(),
     }),
     responses: {
       200: z.object({
@@ -100,6 +438,7 @@ export const contract = c.router({
       }),
       400: ErrorResponseSchema,
       401: ErrorResponseSchema,
+      409: ErrorResponseSchema,
       500: ErrorResponseSchema,
     },
     summary: 'Create a new game',
@@ -142,6 +481,7 @@ export const contract = c.router({
       401: ErrorResponseSchema,
       403: ErrorResponseSchema,
       404: ErrorResponseSchema,
+      409: ErrorResponseSchema,
       500: ErrorResponseSchema,
     },
     summary: 'Delete a game (only by creator)',
@@ -164,11 +504,140 @@ export const contract = c.router({
       400: ErrorResponseSchema,
       401: ErrorResponseSchema,
       404: ErrorResponseSchema,
+      409: ErrorResponseSchema, // Another request changed the game first, e.g. someone else joined
       500: ErrorResponseSchema,
     },
     summary: 'Join a game as player2',
   },
 
+  // POST /api/games/:gameId/end-phase - End the current phase
+  endPhase: {
+    method: 'POST',
+    path: '/api/games/:gameId/end-phase',
+    pathParams: z.object({
+      gameId: z.string(),
+    }),
+    body: z.object({}), // Empty body - the server decides the next phase
+    responses: {
+      200: z.object({
+        gameId: z.string(),
+        game: GameSchema,
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      401: ErrorResponseSchema,
+      403: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      409: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'End the current phase (only by the player whose turn it is)',
+  },
+
+  // POST /api/games/:gameId/end-turn - End the current player's turn
+  endTurn: {
+    method: 'POST',
+    path: '/api/games/:gameId/end-turn',
+    pathParams: z.object({
+      gameId: z.string(),
+    }),
+    body: z.object({}), // Empty body - remaining phases are skipped
+    responses: {
+      200: z.object({
+        gameId: z.string(),
+        game: GameSchema,
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      401: ErrorResponseSchema,
+      403: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      409: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'End the current player turn, skipping remaining phases (only by the player whose turn it is)',
+  },
+
+  // POST /api/games/:gameId/attack - Resolve an attack
+  attack: {
+    method: 'POST',
+    path: '/api/games/:gameId/attack',
+    pathParams: z.object({
+      gameId: z.string(),
+    }),
+    body: z.object({
+      attackerUnitIds: z.array(z.string()).min(1),
+      target: HexCoordinateSchema,
+    }),
+    responses: {
+      200: z.object({
+        gameId: z.string(),
+        game: GameSchema,
+        combat: CombatRecordSchema,
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      401: ErrorResponseSchema,
+      403: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      409: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'Attack an enemy hex during the combat phase (result is resolved on the server)',
+  },
+
+  // POST /api/games/:gameId/commands - Submit a player command
+  submitCommand: {
+    method: 'POST',
+    path: '/api/games/:gameId/commands',
+    pathParams: z.object({
+      gameId: z.string(),
+    }),
+    body: GameCommandSchema,
+    responses: {
+      200: z.object({
+        gameId: z.string(),
+        game: GameSchema,
+        combat: CombatRecordSchema.optional(), // Present for attack commands
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      401: ErrorResponseSchema,
+      403: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      409: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'Submit a command (move, attack, endPhase, endTurn, resign) - validated against the game state and scenario rules',
+  },
+
+  // GET /api/games/:gameId/events - Get a game's event log
+  getGameEvents: {
+    method: 'GET',
+    path: '/api/games/:gameId/events',
+    pathParams: z.object({
+      gameId: z.string(),
+    }),
+    query: z.object({
+      since: z.string().regex(/^\d+$/).transform(Number).optional(), // Return events after this sequence number
+      limit: z.string().regex(/^\d+$/).transform(Number).optional(),
+    }),
+    responses: {
+      200: z.object({
+        gameId: z.string(),
+        events: z.array(GameEventSchema),
+        hasMore: z.boolean(),
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      401: ErrorResponseSchema,
+      403: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'Get the events of a game in sequence order, optionally only those after a given sequence number',
+  },
+
   // GET /api/scenarios - Get all scenarios
   getScenarios: {
     method: 'GET',
@@ -176,6 +645,7 @@ export const contract = c.router({
     query: z.object({
       limit: z.string().regex(/^\d+$/).transform(Number).optional(),
       nextToken: z.string().optional(),
+      mine: z.enum(['true', 'false']).transform(value => value === 'true').optional(), // Only scenarios the caller owns
     }),
     responses: {
       200: z.object({
@@ -195,14 +665,7 @@ export const contract = c.router({
   createScenario: {
     method: 'POST',
     path: '/api/scenarios',
-    body: z.object({
-      title: z.string().min(1),
-      description: z.string().min(1),
-      columns: z.number().int().min(1),
-      rows: z.number().int().min(1),
-      turns: z.number().int().min(1),
-      hexes: z.array(HexSchema).optional(),
-    }),
+    body: ScenarioContentSchema,
     responses: {
       200: z.object({
         scenarioId: z.string(),
@@ -250,6 +713,15 @@ export const contract = c.router({
       rows: z.number().int().min(1).optional(),
       turns: z.number().int().min(1).optional(),
       hexes: z.array(HexSchema).optional(),
+      unitTypes: z.record(UnitTypeSchema).optional(),
+      startingUnits: z.array(StartingUnitSchema).optional(),
+      combatResultsTable: CombatResultsTableSchema.optional(),
+      fogOfWar: z.boolean().optional(),
+      victoryHexes: z.array(VictoryHexSchema).optional(),
+      victoryConditions: z.array(VictoryConditionSchema).optional(),
+      reinforcements: z.array(ReinforcementSchema).optional(),
+      withdrawals: z.array(WithdrawalSchema).optional(),
+      rules: ScenarioRulesSchema.optional(),
     }),
     responses: {
       200: z.object({
@@ -259,10 +731,11 @@ export const contract = c.router({
       }),
       400: ErrorResponseSchema,
       401: ErrorResponseSchema,
+      403: ErrorResponseSchema,
       404: ErrorResponseSchema,
       500: ErrorResponseSchema,
     },
-    summary: 'Update a scenario',
+    summary: 'Update a scenario - owner only',
   },
 
   // DELETE /api/scenarios/:scenarioId - Delete a scenario
@@ -280,10 +753,171 @@ export const contract = c.router({
       }),
       400: ErrorResponseSchema,
       401: ErrorResponseSchema,
+      403: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'Delete a scenario - owner only',
+  },
+
+  // GET /api/scenarios/:scenarioId/export - Download a scenario as a portable bundle
+  exportScenario: {
+    method: 'GET',
+    path: '/api/scenarios/:scenarioId/export',
+    pathParams: z.object({
+      scenarioId: z.string(),
+    }),
+    query: z.object({
+      version: z.string().regex(/^\d+$/).transform(Number).optional(), // Published version to export - defaults to the draft
+    }),
+    responses: {
+      200: ScenarioBundleSchema,
+      400: ErrorResponseSchema,
+      401: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'Export a scenario (its draft or a published version) as a JSON bundle',
+  },
+
+  // POST /api/scenarios/import - Create a scenario from a bundle
+  importScenario: {
+    method: 'POST',
+    path: '/api/scenarios/import',
+    // The scenario is checked against the current format only after older formats are migrated
+    body: z.object({
+      formatVersion: z.number().int().min(1),
+      exportedAt: z.string().optional(),
+      source: ScenarioLineageSchema.optional(),
+      scenario: z.unknown(),
+    }),
+    responses: {
+      200: z.object({
+        scenarioId: z.string(),
+        scenario: ScenarioSchema,
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      401: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'Import a scenario bundle as a new scenario owned by the caller',
+  },
+
+  // POST /api/scenarios/:scenarioId/fork - Copy a scenario into a new one owned by the caller
+  forkScenario: {
+    method: 'POST',
+    path: '/api/scenarios/:scenarioId/fork',
+    pathParams: z.object({
+      scenarioId: z.string(),
+    }),
+    body: z.object({
+      title: z.string().min(1).optional(), // Defaults to the source title with " (copy)"
+      version: z.number().int().min(1).optional(), // Published version to copy - defaults to the draft
+    }),
+    responses: {
+      200: z.object({
+        scenarioId: z.string(),
+        scenario: ScenarioSchema,
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      401: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'Fork a scenario (its draft or a published version) into a new scenario owned by the caller',
+  },
+
+  // POST /api/scenarios/:scenarioId/versions - Publish the draft as a new version
+  publishScenario: {
+    method: 'POST',
+    path: '/api/scenarios/:scenarioId/versions',
+    pathParams: z.object({
+      scenarioId: z.string(),
+    }),
+    body: z.object({}), // Empty body - the draft is published as stored
+    responses: {
+      200: z.object({
+        scenarioId: z.string(),
+        version: ScenarioVersionSchema,
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      401: ErrorResponseSchema,
+      403: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      409: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'Publish the scenario draft as an immutable version - owner only',
+  },
+
+  // GET /api/scenarios/:scenarioId/versions - List published versions
+  getScenarioVersions: {
+    method: 'GET',
+    path: '/api/scenarios/:scenarioId/versions',
+    pathParams: z.object({
+      scenarioId: z.string(),
+    }),
+    responses: {
+      200: z.object({
+        scenarioId: z.string(),
+        versions: z.array(ScenarioVersionSummarySchema),
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'List the published versions of a scenario, newest first',
+  },
+
+  // GET /api/scenarios/:scenarioId/versions/:version - Get a published version
+  getScenarioVersion: {
+    method: 'GET',
+    path: '/api/scenarios/:scenarioId/versions/:version',
+    pathParams: z.object({
+      scenarioId: z.string(),
+      version: z.string().regex(/^\d+$/).transform(Number),
+    }),
+    responses: {
+      200: z.object({
+        scenarioId: z.string(),
+        version: ScenarioVersionSchema,
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
+      404: ErrorResponseSchema,
+      500: ErrorResponseSchema,
+    },
+    summary: 'Get a published version of a scenario',
+  },
+
+  // GET /api/scenarios/:scenarioId/diff - Compare two versions
+  diffScenarioVersions: {
+    method: 'GET',
+    path: '/api/scenarios/:scenarioId/diff',
+    pathParams: z.object({
+      scenarioId: z.string(),
+    }),
+    query: z.object({
+      from: ScenarioRevisionSchema,
+      to: ScenarioRevisionSchema.optional(), // Defaults to the draft
+    }),
+    responses: {
+      200: z.object({
+        scenarioId: z.string(),
+        from: z.union([z.number().int(), z.literal('draft')]),
+        to: z.union([z.number().int(), z.literal('draft')]),
+        diff: ScenarioDiffSchema,
+        user: UserSchema.optional(),
+      }),
+      400: ErrorResponseSchema,
       404: ErrorResponseSchema,
       500: ErrorResponseSchema,
     },
-    summary: 'Delete a scenario',
+    summary: 'Compare two versions of a scenario - either side may be "draft"',
   },
 });
 
@@ -0,0 +1,148 @@
+import { Game, GameEvent, GameEventData, Unit } from './types';
+import { applyScheduleUpdate } from './reinforcements';
+import { setSupplyStatus } from './supply';
+import { applyTurnState } from './turns';
+
+/**
+ * Event log for games.
+ *
+ * Every change to a game in play is recorded as an event with a per-game
+ * sequence number. `applyEvent` folds one event into the game state, so the
+ * state at any point can be rebuilt from the log - used for history,
+ * spectating and replays. Events never contain the secret dice seed.
+ */
+
+/**
+ * Game without its secret dice seed, for storing in events
+ */
+function withoutSeed(game: Game): Game {
+  const { rngSeed: _secret, ...rest } = game;
+  return rest;
+}
+
+/**
+ * Build the next event for a game. Games without an event log yet get a
+ * snapshot of their current state first, so the log can always be replayed.
+ */
+export function createGameEvents(
+  game: Game,
+  data: GameEventData,
+  details: { playerIndex?: number; rolls?: GameEvent['rolls'] } = {}
+): GameEvent[] {
+  const createdAt = new Date().toISOString();
+  const events: GameEvent[] = [];
+  let seq = game.eventSeq ?? 0;
+  if (seq === 0 && data.type !== 'gameCreated') {
+    events.push({ type: 'snapshot', game: withoutSeed(game), gameId: game.gameId, seq: ++seq, createdAt });
+  }
+  const eventData: GameEventData = data.type === 'gameCreated' ? { ...data, game: withoutSeed(data.game) } : data;
+  events.push({
+    ...eventData,
+    gameId: game.gameId,
+    seq: ++seq,
+    ...(details.playerIndex !== undefined && { playerIndex: details.playerIndex }),
+    ...(details.rolls && details.rolls.length > 0 && { rolls: details.rolls }),
+    createdAt,
+  });
+  return events;
+}
+
+function applyCombat(units: Unit[], event: Extract<GameEvent, { type: 'attackResolved' }>): Unit[] {
+  const { combat } = event;
+  const updated = units.map(unit => ({ ...unit }));
+  for (const loss of combat.losses) {
+    const unit = updated.find(candidate => candidate.unitId === loss.unitId);
+    if (!unit) {
+      continue;
+    }
+    unit.currentHealth = loss.eliminated ? 0 : unit.currentHealth - loss.stepsLost;
+    if (loss.retreatedTo) {
+      unit.hexX = loss.retreatedTo.column;
+      unit.hexY = loss.retreatedTo.row;
+    }
+  }
+  for (const unit of updated) {
+    if (combat.attackerUnitIds.includes(unit.unitId)) {
+      unit.hasAttacked = true;
+    }
+  }
+  return updated.filter(unit => unit.currentHealth > 0);
+}
+
+/**
+ * Fold one event into the game state. Throws if the event does not follow on
+ * from the state (wrong game or out of sequence).
+ */
+export function applyEvent(game: Game | null, event: GameEvent): Game {
+  if (event.type === 'gameCreated' || event.type === 'snapshot') {
+    return { ...event.game, eventSeq: event.seq };
+  }
+  if (!game) {
+    throw new Error(`Event ${event.seq} (${event.type}) has no game to apply to`);
+  }
+  if (event.gameId !== game.gameId) {
+    throw new Error(`Event ${event.seq} belongs to game ${event.gameId}, not ${game.gameId}`);
+  }
+  const expectedSeq = (game.eventSeq ?? 0) + 1;
+  if (event.seq !== expectedSeq) {
+    throw new Error(`Expected event ${expectedSeq} for game ${game.gameId}, got ${event.seq}`);
+  }
+
+  let next: Game;
+  switch (event.type) {
+    case 'playerJoined':
+      next = { ...game, player2: event.player, player2Id: event.player.userId, status: 'active' };
+      break;
+    case 'unitMoved':
+      next = {
+        ...game,
+        units: (game.units || []).map(unit =>
+          unit.unitId === event.unitId
+            ? { ...unit, hexX: event.to.column, hexY: event.to.row, hasMoved: true }
+            : unit
+        ),
+      };
+      break;
+    case 'attackResolved':
+      next = {
+        ...game,
+        units: applyCombat(game.units || [], event),
+        combatLog: [...(game.combatLog || []), event.combat],
+      };
+      break;
+    case 'phaseEnded':
+    case 'turnEnded': {
+      let ended = event.controlledHexes ? { ...game, controlledHexes: event.controlledHexes } : game;
+      if (event.outOfSupply) {
+        ended = { ...ended, units: setSupplyStatus(ended.units || [], event.outOfSupply) };
+      }
+      next = applyTurnState(ended, event.next);
+      if (event.schedule) {
+        next = applyScheduleUpdate(next, event.schedule);
+      }
+      if (event.outcome) {
+        next = { ...next, outcome: event.outcome };
+      }
+      break;
+    }
+    case 'playerResigned':
+      next = { ...game, status: 'finished', ...(event.outcome && { outcome: event.outcome }) };
+      break;
+  }
+
+  return {
+    ...next,
+    ...(event.rolls && { rngRolls: [...(game.rngRolls || []), ...event.rolls] }),
+    eventSeq: event.seq,
+    updatedAt: event.createdAt,
+  };
+}
+
+/**
+ * Rebuild a game by folding events, in sequence order, onto an optional starting state
+ */
+export function reduceEvents(events: GameEvent[], initial: Game | null = null): Game | null {
+  return [...events]
+    .sort((a, b) => a.seq - b.seq)
+    .reduce<Game | null>((game, event) => applyEvent(game, event), initial);
+}
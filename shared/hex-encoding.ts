@@ -0,0 +1,141 @@
+import { Hex, TerrainType } from './types';
+
+/**
+ * Compact storage encoding for a scenario's hex grid.
+ *
+ * A full grid of `{row, column, terrain, rivers, roads}` objects costs around
+ * 60 bytes per hex, so a 100x100 map overflows DynamoDB's 400KB item limit.
+ * Stored grids instead hold the hexes in row-major order as three run-length
+ * encoded strings:
+ *
+ * - terrain: a letter per terrain type, followed by the run length when it is more than 1 ("c120f3w")
+ * - rivers, roads: the 6-bit side bitmask as a base64url character, followed by the run length in
+ *   brackets when it is more than 1 ("A(9950)Q") - brackets because the character itself may be a digit
+ *
+ * Only the storage layer uses this - the API accepts and returns plain Hex arrays.
+ */
+
+export const HEX_GRID_ENCODING_VERSION = 1;
+
+export interface CompactHexGrid {
+  encoding: number; // HEX_GRID_ENCODING_VERSION the grid was written with
+  terrain: string;
+  rivers: string;
+  roads: string;
+}
+
+const TERRAIN_CODES: Record<TerrainType, string> = {
+  clear: 'c',
+  mountain: 'm',
+  forest: 'f',
+  water: 'w',
+  desert: 'd',
+  swamp: 's',
+  town: 't',
+};
+
+const TERRAIN_BY_CODE = Object.fromEntries(
+  Object.entries(TERRAIN_CODES).map(([terrain, code]) => [code, terrain as TerrainType])
+) as Record<string, TerrainType>;
+
+const BITMASK_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+function runs<T>(values: T[]): Array<{ value: T; count: number }> {
+  const result: Array<{ value: T; count: number }> = [];
+  for (const value of values) {
+    const last = result[result.length - 1];
+    if (last && last.value === value) {
+      last.count += 1;
+    } else {
+      result.push({ value, count: 1 });
+    }
+  }
+  return result;
+}
+
+function encodeTerrain(terrain: TerrainType[]): string {
+  return runs(terrain).map(({ value, count }) => `${TERRAIN_CODES[value]}${count > 1 ? count : ''}`).join('');
+}
+
+function decodeTerrain(encoded: string): TerrainType[] {
+  const terrain: TerrainType[] = [];
+  for (const [, code, count] of encoded.matchAll(/([a-z])(\d*)/g)) {
+    const type = TERRAIN_BY_CODE[code];
+    if (!type) {
+      throw new Error(`Unknown terrain code in stored hex grid: ${code}`);
+    }
+    for (let i = count ? Number(count) : 1; i > 0; i--) {
+      terrain.push(type);
+    }
+  }
+  return terrain;
+}
+
+function encodeBitmasks(bitmasks: number[]): string {
+  return runs(bitmasks).map(({ value, count }) => `${BITMASK_ALPHABET[value & 63]}${count > 1 ? `(${count})` : ''}`).join('');
+}
+
+function decodeBitmasks(encoded: string): number[] {
+  const bitmasks: number[] = [];
+  for (const [, char, count] of encoded.matchAll(/([A-Za-z0-9_-])(?:\((\d+)\))?/g)) {
+    const bitmask = BITMASK_ALPHABET.indexOf(char);
+    for (let i = count ? Number(count) : 1; i > 0; i--) {
+      bitmasks.push(bitmask);
+    }
+  }
+  return bitmasks;
+}
+
+/**
+ * Encode a grid for storage. Hexes missing from a sparse array are stored as clear with no rivers or roads;
+ * hexes outside the map are dropped.
+ */
+export function encodeHexGrid(hexes: Hex[], rows: number, columns: number): CompactHexGrid {
+  const byPosition = new Map(
+    hexes
+      .filter(hex => hex.row >= 0 && hex.row < rows && hex.column >= 0 && hex.column < columns)
+      .map(hex => [hex.row * columns + hex.column, hex])
+  );
+  const terrain: TerrainType[] = [];
+  const rivers: number[] = [];
+  const roads: number[] = [];
+  for (let index = 0; index < rows * columns; index++) {
+    const hex = byPosition.get(index);
+    terrain.push(hex?.terrain ?? 'clear');
+    rivers.push(hex?.rivers ?? 0);
+    roads.push(hex?.roads ?? 0);
+  }
+  return {
+    encoding: HEX_GRID_ENCODING_VERSION,
+    terrain: encodeTerrain(terrain),
+    rivers: encodeBitmasks(rivers),
+    roads: encodeBitmasks(roads),
+  };
+}
+
+/**
+ * Expand a stored grid back into the full rows x columns Hex array, in row-major order
+ */
+export function decodeHexGrid(grid: CompactHexGrid, rows: number, columns: number): Hex[] {
+  if (grid.encoding !== HEX_GRID_ENCODING_VERSION) {
+    throw new Error(`Unsupported stored hex grid encoding: ${grid.encoding}`);
+  }
+  const terrain = decodeTerrain(grid.terrain);
+  const rivers = decodeBitmasks(grid.rivers);
+  const roads = decodeBitmasks(grid.roads);
+  const size = rows * columns;
+  if (terrain.length !== size || rivers.length !== size || roads.length !== size) {
+    throw new Error(`Stored hex grid does not match the ${columns}x${rows} map`);
+  }
+  const hexes: Hex[] = [];
+  for (let index = 0; index < size; index++) {
+    hexes.push({
+      row: Math.floor(index / columns),
+      column: index % columns,
+      terrain: terrain[index],
+      rivers: rivers[index],
+      roads: roads[index],
+    });
+  }
+  return hexes;
+}
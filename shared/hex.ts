@@ -0,0 +1,228 @@
+import { HexCoordinate } from './types';
+
+/**
+ * Hex geometry for the map layout used by HexGrid: flat-top hexes in offset
+ * row/column coordinates, with odd columns shifted down by half a hex
+ * (referred to as "even-q" throughout this codebase).
+ *
+ * Sides are numbered clockwise from the top, matching the `rivers`/`roads`
+ * bitmasks on Hex: 0=N, 1=NE, 2=SE, 3=S, 4=SW, 5=NW.
+ *
+ * Shared by the client (HexGrid, editor) and server (rules validation).
+ */
+
+export type HexSide = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const HEX_SIDES: readonly HexSide[] = [0, 1, 2, 3, 4, 5];
+
+export const HEX_SIDE_NAMES: Record<HexSide, string> = {
+  0: 'Top (North)',
+  1: 'Top Right',
+  2: 'Bottom Right',
+  3: 'Bottom (South)',
+  4: 'Bottom Left',
+  5: 'Top Left',
+};
+
+export interface AxialCoordinate {
+  q: number;
+  r: number;
+}
+
+export interface CubeCoordinate {
+  q: number;
+  r: number;
+  s: number;
+}
+
+// Cube offsets for each side of a flat-top hex
+const CUBE_DIRECTIONS: Record<HexSide, CubeCoordinate> = {
+  0: { q: 0, r: -1, s: 1 },
+  1: { q: 1, r: -1, s: 0 },
+  2: { q: 1, r: 0, s: -1 },
+  3: { q: 0, r: 1, s: -1 },
+  4: { q: -1, r: 1, s: 0 },
+  5: { q: -1, r: 0, s: 1 },
+};
+
+/**
+ * Stable string key for a hex, for use in Maps and Sets
+ */
+export function hexKey(coord: HexCoordinate): string {
+  return `${coord.row},${coord.column}`;
+}
+
+export function offsetToAxial(coord: HexCoordinate): AxialCoordinate {
+  const q = coord.column;
+  return { q, r: coord.row - (q - (q & 1)) / 2 };
+}
+
+export function axialToOffset(axial: AxialCoordinate): HexCoordinate {
+  const column = axial.q;
+  return { row: axial.r + (column - (column & 1)) / 2, column };
+}
+
+export function axialToCube(axial: AxialCoordinate): CubeCoordinate {
+  return { q: axial.q, r: axial.r, s: -axial.q - axial.r };
+}
+
+export function cubeToAxial(cube: CubeCoordinate): AxialCoordinate {
+  return { q: cube.q, r: cube.r };
+}
+
+export function offsetToCube(coord: HexCoordinate): CubeCoordinate {
+  return axialToCube(offsetToAxial(coord));
+}
+
+export function cubeToOffset(cube: CubeCoordinate): HexCoordinate {
+  return axialToOffset(cubeToAxial(cube));
+}
+
+export function oppositeSide(side: HexSide): HexSide {
+  return ((side + 3) % 6) as HexSide;
+}
+
+/**
+ * Hex adjacent to `coord` across the given side (may be off the map)
+ */
+export function getNeighbor(coord: HexCoordinate, side: HexSide): HexCoordinate {
+  const cube = offsetToCube(coord);
+  const direction = CUBE_DIRECTIONS[side];
+  return cubeToOffset({ q: cube.q + direction.q, r: cube.r + direction.r, s: cube.s + direction.s });
+}
+
+/**
+ * All six neighbours, indexed by side (may include hexes off the map)
+ */
+export function getNeighbors(coord: HexCoordinate): HexCoordinate[] {
+  return HEX_SIDES.map(side => getNeighbor(coord, side));
+}
+
+/**
+ * Side of `from` that borders `to`, or null if the hexes are not adjacent
+ */
+export function sideBetween(from: HexCoordinate, to: HexCoordinate): HexSide | null {
+  for (const side of HEX_SIDES) {
+    const neighbor = getNeighbor(from, side);
+    if (neighbor.row === to.row && neighbor.column === to.column) {
+      return side;
+    }
+  }
+  return null;
+}
+
+export function isInBounds(coord: HexCoordinate, rows: number, columns: number): boolean {
+  return coord.row >= 0 && coord.row < rows && coord.column >= 0 && coord.column < columns;
+}
+
+export function cubeDistance(a: CubeCoordinate, b: CubeCoordinate): number {
+  return Math.max(Math.abs(a.q - b.q), Math.abs(a.r - b.r), Math.abs(a.s - b.s));
+}
+
+/**
+ * Number of hex steps between two hexes, ignoring terrain
+ */
+export function hexDistance(a: HexCoordinate, b: HexCoordinate): number {
+  return cubeDistance(offsetToCube(a), offsetToCube(b));
+}
+
+function cubeRound(q: number, r: number, s: number): CubeCoordinate {
+  let roundedQ = Math.round(q);
+  let roundedR = Math.round(r);
+  let roundedS = Math.round(s);
+  const dq = Math.abs(roundedQ - q);
+  const dr = Math.abs(roundedR - r);
+  const ds = Math.abs(roundedS - s);
+  if (dq > dr && dq > ds) {
+    roundedQ = -roundedR - roundedS;
+  } else if (dr > ds) {
+    roundedR = -roundedQ - roundedS;
+  } else {
+    roundedS = -roundedQ - roundedR;
+  }
+  return { q: roundedQ, r: roundedR, s: roundedS };
+}
+
+/**
+ * Hexes on the straight line from `a` to `b`, inclusive of both ends.
+ * Lines that run exactly along a hex edge are nudged consistently to one side.
+ */
+export function hexLine(a: HexCoordinate, b: HexCoordinate): HexCoordinate[] {
+  const start = offsetToCube(a);
+  const end = offsetToCube(b);
+  const distance = cubeDistance(start, end);
+  const line: HexCoordinate[] = [];
+  for (let step = 0; step <= distance; step++) {
+    const t = distance === 0 ? 0 : step / distance;
+    line.push(cubeToOffset(cubeRound(
+      start.q + (end.q - start.q) * t + 1e-6,
+      start.r + (end.r - start.r) * t + 1e-6,
+      start.s + (end.s - start.s) * t - 2e-6
+    )));
+  }
+  return line;
+}
+
+/**
+ * Hexes exactly `radius` steps from the centre, clockwise from the south-west corner.
+ * A radius of 0 returns the centre alone.
+ */
+export function hexRing(center: HexCoordinate, radius: number): HexCoordinate[] {
+  if (radius <= 0) {
+    return [center];
+  }
+  const centerCube = offsetToCube(center);
+  // Start `radius` steps to the south-west, then walk each of the six edges
+  const startDirection = CUBE_DIRECTIONS[4];
+  let cube: CubeCoordinate = {
+    q: centerCube.q + startDirection.q * radius,
+    r: centerCube.r + startDirection.r * radius,
+    s: centerCube.s + startDirection.s * radius,
+  };
+  const ring: HexCoordinate[] = [];
+  for (const side of HEX_SIDES) {
+    const direction = CUBE_DIRECTIONS[side];
+    for (let step = 0; step < radius; step++) {
+      ring.push(cubeToOffset(cube));
+      cube = { q: cube.q + direction.q, r: cube.r + direction.r, s: cube.s + direction.s };
+    }
+  }
+  return ring;
+}
+
+/**
+ * Centre hex followed by each ring out to `radius`
+ */
+export function hexSpiral(center: HexCoordinate, radius: number): HexCoordinate[] {
+  const spiral: HexCoordinate[] = [center];
+  for (let ring = 1; ring <= radius; ring++) {
+    spiral.push(...hexRing(center, ring));
+  }
+  return spiral;
+}
+
+/**
+ * Whether a rivers/roads bitmask has the given side set
+ */
+export function hasSide(bitmask: number, side: HexSide): boolean {
+  return (bitmask & (1 << side)) !== 0;
+}
+
+/**
+ * Return the bitmask with the given side set or cleared
+ */
+export function setSide(bitmask: number, side: HexSide, enabled: boolean): number {
+  return enabled ? bitmask | (1 << side) : bitmask & ~(1 << side);
+}
+
+/**
+ * Pixel centre of a hex, where `size` is the distance from centre to a left/right vertex.
+ * The hex at row 0, column 0 has its bounding box at the origin.
+ */
+export function hexToPixel(coord: HexCoordinate, size: number): { x: number; y: number } {
+  const hexHeight = Math.sqrt(3) * size;
+  return {
+    x: coord.column * size * 1.5 + size,
+    y: coord.row * hexHeight + (coord.column % 2 === 1 ? hexHeight / 2 : 0) + hexHeight / 2,
+  };
+}
@@ -0,0 +1,310 @@
+import { Hex, HexCoordinate, Scenario, TerrainType, Unit, UnitType, ZoneOfControlRules } from './types';
+import { HEX_SIDES, HexSide, getNeighbor, hasSide, hexKey, oppositeSide } from './hex';
+
+/**
+ * Movement rules engine shared by the API routes (move validation) and the
+ * client (movement previews on HexGrid). Pure TypeScript - no Node or DOM APIs.
+ *
+ * Coordinates follow the HexGrid layout (see ./hex). Units store their position
+ * as hexX = column, hexY = row.
+ *
+ * Zones of control and stacking limits are per-scenario (Scenario.rules) and
+ * passed in through MovementOptions - see getScenarioMovementOptions.
+ */
+
+export interface MovementRules {
+  terrainCosts: Record<TerrainType, number>; // Cost to enter a hex of each terrain (Infinity = impassable)
+  roadCost: number; // Cost to enter a hex along a connected road, replacing the terrain cost
+  riverCrossingCost: number; // Extra cost for crossing a river side (ignored when a road bridges it)
+  riversBlockMovement: boolean; // When true, river sides cannot be crossed except by road
+}
+
+export const DEFAULT_MOVEMENT_RULES: MovementRules = {
+  terrainCosts: {
+    clear: 1,
+    town: 1,
+    desert: 2,
+    forest: 2,
+    swamp: 3,
+    mountain: 3,
+    water: Infinity,
+  },
+  roadCost: 0.5,
+  riverCrossingCost: 1,
+  riversBlockMovement: false,
+};
+
+export interface MovementOptions {
+  rules?: Partial<MovementRules>;
+  units?: Unit[]; // All units on the map - enemy-occupied hexes cannot be entered
+  movementPoints?: number; // Overrides unitType.movement (e.g. remaining movement)
+  zoneOfControl?: ZoneOfControlRules; // Enemy zones of control stop or slow movement
+  stackingLimit?: number; // Hexes already holding this many friendly units cannot be moved into
+}
+
+export interface ReachableHex extends HexCoordinate {
+  cost: number; // Total movement points spent to reach this hex
+  path: HexCoordinate[]; // Hexes entered, in order, excluding the starting hex
+}
+
+function resolveRules(rules?: Partial<MovementRules>): MovementRules {
+  return {
+    ...DEFAULT_MOVEMENT_RULES,
+    ...rules,
+    terrainCosts: { ...DEFAULT_MOVEMENT_RULES.terrainCosts, ...rules?.terrainCosts },
+  };
+}
+
+/**
+ * Movement options for the scenario's rules - used by both move validation and previews
+ */
+export function getScenarioMovementOptions(scenario: Pick<Scenario, 'rules'>, units: Unit[]): MovementOptions {
+  return {
+    units,
+    zoneOfControl: scenario.rules?.zoneOfControl,
+    stackingLimit: scenario.rules?.stackingLimit,
+  };
+}
+
+/**
+ * Whether the hex already holds as many of the player's units as the stacking limit allows.
+ * `ignoreUnitId` excludes a unit that is leaving or already counted.
+ */
+export function isStackFull(
+  units: Unit[],
+  playerIndex: number,
+  coord: HexCoordinate,
+  stackingLimit: number | undefined,
+  ignoreUnitId?: string
+): boolean {
+  if (stackingLimit === undefined) {
+    return false;
+  }
+  const stacked = units.filter(unit =>
+    unit.ownerPlayerIndex === playerIndex &&
+    unit.unitId !== ignoreUnitId &&
+    unit.hexY === coord.row &&
+    unit.hexX === coord.column
+  ).length;
+  return stacked >= stackingLimit;
+}
+
+function collectZoneOfControl(
+  hexMap: Map<string, Hex>,
+  units: Unit[],
+  playerIndex: number,
+  rules: ZoneOfControlRules
+): Set<string> {
+  const zone = new Set<string>();
+  for (const enemy of units) {
+    if (enemy.ownerPlayerIndex === playerIndex) {
+      continue;
+    }
+    const from = hexMap.get(hexKey({ row: enemy.hexY, column: enemy.hexX }));
+    if (!from) {
+      continue;
+    }
+    for (const side of HEX_SIDES) {
+      const key = hexKey(getNeighbor(from, side));
+      const to = hexMap.get(key);
+      if (!to) {
+        continue;
+      }
+      if (rules.riversNegate && (hasSide(from.rivers, side) || hasSide(to.rivers, oppositeSide(side)))) {
+        continue;
+      }
+      zone.add(key);
+    }
+  }
+  return zone;
+}
+
+/**
+ * Hexes (as hexKey strings) in the zone of control of the player's enemies:
+ * the hexes next to each enemy unit, except across rivers when the rules say rivers negate it.
+ */
+export function getEnemyZoneOfControl(
+  scenario: Pick<Scenario, 'rows' | 'columns' | 'hexes'>,
+  units: Unit[],
+  playerIndex: number,
+  rules: ZoneOfControlRules
+): Set<string> {
+  return collectZoneOfControl(buildHexMap(scenario), units, playerIndex, rules);
+}
+
+/**
+ * Build a lookup of every hex on the scenario map, filling gaps with clear terrain
+ */
+export function buildHexMap(scenario: Pick<Scenario, 'rows' | 'columns' | 'hexes'>): Map<string, Hex> {
+  const hexMap = new Map<string, Hex>();
+  for (const hex of scenario.hexes || []) {
+    hexMap.set(hexKey(hex), hex);
+  }
+  for (let row = 0; row < scenario.rows; row++) {
+    for (let column = 0; column < scenario.columns; column++) {
+      const key = hexKey({ row, column });
+      if (!hexMap.has(key)) {
+        hexMap.set(key, { row, column, terrain: 'clear', rivers: 0, roads: 0 });
+      }
+    }
+  }
+  return hexMap;
+}
+
+/**
+ * Cost of moving from one hex into its neighbour across the given side.
+ * Returns Infinity when the move is not allowed.
+ */
+export function getStepCost(from: Hex, to: Hex, side: HexSide, rules: MovementRules = DEFAULT_MOVEMENT_RULES): number {
+  const toSide = oppositeSide(side);
+  // A side carries a road/river if either hex marks it - the editor only sets one hex at a time
+  const onRoad = hasSide(from.roads, side) || hasSide(to.roads, toSide);
+  const crossesRiver = hasSide(from.rivers, side) || hasSide(to.rivers, toSide);
+
+  if (onRoad) {
+    return rules.roadCost;
+  }
+
+  const terrainCost = rules.terrainCosts[to.terrain] ?? DEFAULT_MOVEMENT_RULES.terrainCosts.clear;
+  if (!crossesRiver) {
+    return terrainCost;
+  }
+  return rules.riversBlockMovement ? Infinity : terrainCost + rules.riverCrossingCost;
+}
+
+/**
+ * Compute every hex the unit can reach this phase, with the cheapest path to each.
+ * The starting hex is not included.
+ *
+ * With zones of control, leaving a hex in an enemy zone costs extra and (if the
+ * rules say so) entering one ends the move. Units may pass through friendly
+ * stacks that are at the stacking limit but cannot end their move there.
+ */
+export function getReachableHexes(
+  scenario: Pick<Scenario, 'rows' | 'columns' | 'hexes'>,
+  unit: Unit,
+  unitType: UnitType,
+  options: MovementOptions = {}
+): ReachableHex[] {
+  const rules = resolveRules(options.rules);
+  const hexMap = buildHexMap(scenario);
+  const budget = options.movementPoints ?? unitType.movement;
+
+  const units = options.units || [];
+  const zoneOfControl = options.zoneOfControl;
+
+  const enemyOccupied = new Set<string>();
+  for (const other of units) {
+    if (other.ownerPlayerIndex !== unit.ownerPlayerIndex) {
+      enemyOccupied.add(hexKey({ row: other.hexY, column: other.hexX }));
+    }
+  }
+  const enemyZone = zoneOfControl
+    ? collectZoneOfControl(hexMap, units, unit.ownerPlayerIndex, zoneOfControl)
+    : new Set<string>();
+
+  const startKey = hexKey({ row: unit.hexY, column: unit.hexX });
+  const best = new Map<string, { cost: number; previous: string | null }>();
+  best.set(startKey, { cost: 0, previous: null });
+  const queue = new MinQueue();
+  queue.push(startKey, 0);
+
+  // Dijkstra over the hex graph - costs are non-negative and may be fractional (roads)
+  while (queue.size > 0) {
+    const { key, cost } = queue.pop();
+    if (cost > (best.get(key)?.cost ?? Infinity)) {
+      continue; // Stale queue entry
+    }
+    const inEnemyZone = enemyZone.has(key);
+    if (inEnemyZone && key !== startKey && zoneOfControl?.stopOnEntering) {
+      continue; // Entering the zone ended the move
+    }
+    const leaveCost = inEnemyZone ? zoneOfControl?.leaveCost ?? 0 : 0;
+    const current = hexMap.get(key)!;
+    for (const side of HEX_SIDES) {
+      const next = getNeighbor(current, side);
+      const nextKey = hexKey(next);
+      const nextHex = hexMap.get(nextKey);
+      if (!nextHex || enemyOccupied.has(nextKey)) {
+        continue;
+      }
+      const nextCost = cost + leaveCost + getStepCost(current, nextHex, side, rules);
+      if (nextCost > budget || nextCost >= (best.get(nextKey)?.cost ?? Infinity)) {
+        continue;
+      }
+      best.set(nextKey, { cost: nextCost, previous: key });
+      queue.push(nextKey, nextCost);
+    }
+  }
+
+  const reachable: ReachableHex[] = [];
+  for (const [key, entry] of best) {
+    const hex = hexMap.get(key)!;
+    if (key === startKey || isStackFull(units, unit.ownerPlayerIndex, hex, options.stackingLimit, unit.unitId)) {
+      continue;
+    }
+    const path: HexCoordinate[] = [];
+    for (let step: string | null = key; step && step !== startKey; step = best.get(step)!.previous) {
+      const stepHex = hexMap.get(step)!;
+      path.unshift({ row: stepHex.row, column: stepHex.column });
+    }
+    reachable.push({ row: hex.row, column: hex.column, cost: entry.cost, path });
+  }
+  return reachable;
+}
+
+/**
+ * Cheapest path for the unit to the target hex, or null if it cannot get there this phase
+ */
+export function findPath(
+  scenario: Pick<Scenario, 'rows' | 'columns' | 'hexes'>,
+  unit: Unit,
+  unitType: UnitType,
+  target: HexCoordinate,
+  options: MovementOptions = {}
+): ReachableHex | null {
+  return getReachableHexes(scenario, unit, unitType, options)
+    .find(hex => hex.row === target.row && hex.column === target.column) || null;
+}
+
+// Minimal binary heap keyed by movement cost
+class MinQueue {
+  private items: Array<{ key: string; cost: number }> = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(key: string, cost: number): void {
+    const items = this.items;
+    items.push({ key, cost });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (items[parent].cost <= items[index].cost) break;
+      [items[parent], items[index]] = [items[index], items[parent]];
+      index = parent;
+    }
+  }
+
+  pop(): { key: string; cost: number } {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === index) break;
+        [items[smallest], items[index]] = [items[index], items[smallest]];
+        index = smallest;
+      }
+    }
+    return top;
+  }
+}
@@ -0,0 +1,14 @@
+import { Scenario } from './types';
+
+/**
+ * Scenario ownership, shared by the API (authorization) and the editor (which
+ * controls to offer). Only the owner may update, publish or delete a scenario.
+ * Scenarios created before ownership was recorded have no owner, and there is
+ * no record of who created them to claim it from, so nobody may change them -
+ * they can still be played (the first game on one publishes it) and forked,
+ * and the fork belongs to whoever made it.
+ */
+
+export function canModifyScenario(scenario: Pick<Scenario, 'ownerId'>, userId: string | null | undefined): boolean {
+  return !!scenario.ownerId && scenario.ownerId === userId;
+}
@@ -0,0 +1,159 @@
+import { Game, Scenario, ScheduleUpdate, Unit, UnitType } from './types';
+import { hexKey, isInBounds } from './hex';
+import { DEFAULT_MOVEMENT_RULES, buildHexMap, isStackFull } from './movement';
+import { flattenStartingUnits } from './units';
+
+/**
+ * Reinforcement and withdrawal schedules.
+ *
+ * At the start of each player's reinforcement phase, every reinforcement due
+ * for that side (scheduled for this turn or earlier and not yet placed) enters
+ * on the first of its entry hexes that is not enemy-occupied and has room under
+ * the stacking limit. Units that cannot enter are delayed to the side's next
+ * reinforcement phase. Withdrawals scheduled for the turn then remove the
+ * side's units of the given type, oldest first.
+ */
+
+type ScheduleScenario = Pick<Scenario, 'rows' | 'columns' | 'hexes' | 'unitTypes' | 'reinforcements' | 'withdrawals' | 'rules'>;
+
+/**
+ * Apply the schedule for the player's reinforcement phase of the given turn.
+ * Returns null when nothing arrives or leaves.
+ */
+export function getScheduleUpdate(
+  game: Game,
+  scenario: ScheduleScenario,
+  playerIndex: number,
+  turnNumber: number
+): ScheduleUpdate | null {
+  const unitTypes: Record<string, UnitType> = scenario.unitTypes || {};
+  const reinforcements = scenario.reinforcements || [];
+  const placed = reinforcements.map((_, index) => game.reinforcementsPlaced?.[index] ?? 0);
+  const units = [...(game.units || [])];
+  const arrived: Unit[] = [];
+
+  reinforcements.forEach((reinforcement, index) => {
+    if (reinforcement.playerIndex !== playerIndex || reinforcement.turn > turnNumber) {
+      return;
+    }
+    while (placed[index] < reinforcement.count) {
+      const entry = reinforcement.entryHexes.find(hex =>
+        !units.some(unit => unit.ownerPlayerIndex !== playerIndex && unit.hexY === hex.row && unit.hexX === hex.column) &&
+        !isStackFull(units, playerIndex, hex, scenario.rules?.stackingLimit)
+      );
+      if (!entry) {
+        break; // Delayed until the side's next reinforcement phase
+      }
+      placed[index] += 1;
+      const health = unitTypes[reinforcement.unitType]?.health ?? 1;
+      const unit: Unit = {
+        unitId: `p${playerIndex}-r${index + 1}-${placed[index]}`,
+        unitType: reinforcement.unitType,
+        ownerPlayerIndex: playerIndex,
+        hexX: entry.column,
+        hexY: entry.row,
+        currentHealth: health,
+        maxHealth: health,
+      };
+      units.push(unit);
+      arrived.push(unit);
+    }
+  });
+
+  const withdrawn: Unit[] = [];
+  for (const withdrawal of scenario.withdrawals || []) {
+    if (withdrawal.playerIndex !== playerIndex || withdrawal.turn !== turnNumber) {
+      continue;
+    }
+    const leaving = units
+      .filter(unit => unit.ownerPlayerIndex === playerIndex && unit.unitType === withdrawal.unitType && !withdrawn.includes(unit))
+      .slice(0, withdrawal.count);
+    withdrawn.push(...leaving);
+  }
+
+  if (arrived.length === 0 && withdrawn.length === 0) {
+    return null;
+  }
+  return { arrived, withdrawn, reinforcementsPlaced: placed };
+}
+
+/**
+ * Apply a schedule update to the game - used both when it is first worked out and by the event reducer
+ */
+export function applyScheduleUpdate(game: Game, update: ScheduleUpdate): Game {
+  const withdrawnIds = new Set(update.withdrawn.map(unit => unit.unitId));
+  return {
+    ...game,
+    units: [...(game.units || []), ...update.arrived].filter(unit => !withdrawnIds.has(unit.unitId)),
+    reinforcementsPlaced: update.reinforcementsPlaced,
+    withdrawnUnits: [...(game.withdrawnUnits || []), ...update.withdrawn],
+  };
+}
+
+/**
+ * Apply the schedule for the player's reinforcement phase, if anything is due
+ */
+export function applySchedule(game: Game, scenario: ScheduleScenario, playerIndex: number, turnNumber: number): Game {
+  const update = getScheduleUpdate(game, scenario, playerIndex, turnNumber);
+  return update ? applyScheduleUpdate(game, update) : game;
+}
+
+/**
+ * Number of the player's units that have entered play so far - starting units plus reinforcements placed
+ */
+export function countUnitsEntered(game: Game, scenario: Pick<Scenario, 'startingUnits' | 'reinforcements'>, playerIndex: number): number {
+  const starting = flattenStartingUnits(scenario.startingUnits).filter(unit => unit.playerIndex === playerIndex).length;
+  const reinforced = (scenario.reinforcements || []).reduce(
+    (count, reinforcement, index) =>
+      reinforcement.playerIndex === playerIndex ? count + (game.reinforcementsPlaced?.[index] ?? 0) : count,
+    0
+  );
+  return starting + reinforced;
+}
+
+/**
+ * Check that scheduled units reference defined unit types, fall within the scenario's
+ * turns, and enter on passable map hexes not held by enemy starting units
+ */
+export function validateSchedule(
+  scenario: Pick<Scenario, 'rows' | 'columns' | 'turns' | 'hexes' | 'unitTypes' | 'startingUnits' | 'reinforcements' | 'withdrawals'>
+): { valid: true } | { valid: false; error: string } {
+  const unitTypes: Record<string, UnitType> = scenario.unitTypes || {};
+  const hexMap = buildHexMap(scenario);
+  const startingUnits = flattenStartingUnits(scenario.startingUnits);
+  for (const reinforcement of scenario.reinforcements || []) {
+    const label = `Player ${reinforcement.playerIndex} reinforcement on turn ${reinforcement.turn}`;
+    if (!unitTypes[reinforcement.unitType]) {
+      return { valid: false, error: `${label} references unknown unit type: ${reinforcement.unitType}` };
+    }
+    if (reinforcement.turn > scenario.turns) {
+      return { valid: false, error: `${label} arrives after the scenario's last turn (${scenario.turns})` };
+    }
+    if (reinforcement.entryHexes.length === 0) {
+      return { valid: false, error: `${label} has no entry hexes` };
+    }
+    for (const hex of reinforcement.entryHexes) {
+      const position = `${hex.column + 1}-${hex.row + 1}`;
+      if (!isInBounds(hex, scenario.rows, scenario.columns)) {
+        return { valid: false, error: `${label} enters at ${position}, outside the ${scenario.columns}x${scenario.rows} map` };
+      }
+      const terrain = hexMap.get(hexKey(hex))!.terrain;
+      if (!Number.isFinite(DEFAULT_MOVEMENT_RULES.terrainCosts[terrain])) {
+        return { valid: false, error: `${label} enters at ${position}, which is impassable ${terrain}` };
+      }
+      if (startingUnits.some(unit => unit.playerIndex !== reinforcement.playerIndex && unit.hexY === hex.row && unit.hexX === hex.column)) {
+        return { valid: false, error: `${label} enters at ${position}, which starts enemy-occupied` };
+      }
+    }
+  }
+  for (const withdrawal of scenario.withdrawals || []) {
+    const label = `Player ${withdrawal.playerIndex} withdrawal on turn ${withdrawal.turn}`;
+    if (!unitTypes[withdrawal.unitType]) {
+      return { valid: false, error: `${label} references unknown unit type: ${withdrawal.unitType}` };
+    }
+    if (withdrawal.turn > scenario.turns) {
+      return { valid: false, error: `${label} is after the scenario's last turn (${scenario.turns})` };
+    }
+  }
+  return { valid: true };
+}
@@ -0,0 +1,87 @@
+import { Game, RngRoll } from './types';
+
+/**
+ * Seeded, auditable dice for games.
+ *
+ * Each game has a secret server seed whose SHA-256 hash is published when the
+ * game is created. Roll N of the game is derived purely from (seed, N), and
+ * every roll is appended to `Game.rngRolls`. Once the game is finished the
+ * seed is revealed, so either player can check it against the published hash
+ * and re-derive every logged roll with `verifyRolls`.
+ *
+ * Pure and dependency-free so the client, server and tests all derive the
+ * same values.
+ */
+
+export type DieRoller = (sides: number, purpose: string) => number;
+
+// cyrb53: fast 53-bit string hash, good enough to spread seed/index pairs evenly
+function hash53(input: string): number {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return 4294967296 * (2097151 & h2) + (h1 >>> 0);
+}
+
+/**
+ * Uniform value in [0, 1) for roll `index` of the stream seeded by `seed`
+ */
+export function rngValue(seed: string, index: number): number {
+  return hash53(`${seed}:${index}`) / 2 ** 53;
+}
+
+/**
+ * Value from 1 to `sides` for roll `index` of the stream seeded by `seed`
+ */
+export function rollAt(seed: string, index: number, sides: number): number {
+  return Math.floor(rngValue(seed, index) * sides) + 1;
+}
+
+/**
+ * Die roller that continues the given roll log, appending each roll it makes.
+ * Pass a copy of `game.rngRolls` and store the array back on the game afterwards.
+ */
+export function createDieRoller(seed: string, rolls: RngRoll[]): DieRoller {
+  return (sides, purpose) => {
+    const index = rolls.length;
+    const value = rollAt(seed, index, sides);
+    rolls.push({ index, sides, value, purpose });
+    return value;
+  };
+}
+
+/**
+ * Check that a roll log is contiguous and that every value follows from the seed
+ */
+export function verifyRolls(seed: string, rolls: RngRoll[]): { valid: true } | { valid: false; error: string } {
+  for (let i = 0; i < rolls.length; i++) {
+    const roll = rolls[i];
+    if (roll.index !== i) {
+      return { valid: false, error: `Roll ${i} has index ${roll.index}` };
+    }
+    const expected = rollAt(seed, roll.index, roll.sides);
+    if (roll.value !== expected) {
+      return { valid: false, error: `Roll ${roll.index} (${roll.purpose}) was ${roll.value}, seed gives ${expected}` };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Game as returned to players: the seed stays secret until the game is finished
+ */
+export function toPublicGame(game: Game): Game {
+  if (game.status === 'finished' || game.rngSeed === undefined) {
+    return game;
+  }
+  const { rngSeed: _secret, ...publicGame } = game;
+  return publicGame;
+}
@@ -0,0 +1,184 @@
+import { Hex, HexCoordinate, MapEdge, Scenario, Unit, UnitType } from './types';
+import { HEX_SIDES, getNeighbor, hasSide, hexKey, isInBounds, oppositeSide } from './hex';
+import { DEFAULT_MOVEMENT_RULES, buildHexMap, getEnemyZoneOfControl } from './movement';
+
+/**
+ * Supply lines. Each side draws supply from sources set in the scenario (whole
+ * map edges or specific town hexes). A unit is in supply when it can trace a
+ * path back to one of its side's sources within the supply range, without
+ * passing through enemy units or enemy zones of control (hexes held by a
+ * friendly unit are exempt). Roads stretch the range.
+ *
+ * Supply is checked for every unit at the end of each player turn and stored
+ * on the unit (Unit.outOfSupply) so the client can shade unsupplied counters.
+ */
+
+type SupplyScenario = Pick<Scenario, 'rows' | 'columns' | 'hexes' | 'rules'>;
+
+export const MAP_EDGES: readonly MapEdge[] = ['north', 'east', 'south', 'west'];
+
+function isOnEdge(coord: HexCoordinate, edge: MapEdge, rows: number, columns: number): boolean {
+  switch (edge) {
+    case 'north':
+      return coord.row === 0;
+    case 'south':
+      return coord.row === rows - 1;
+    case 'west':
+      return coord.column === 0;
+    case 'east':
+      return coord.column === columns - 1;
+  }
+}
+
+/**
+ * Every hex the player can draw supply from
+ */
+export function getSupplySourceHexes(scenario: SupplyScenario, playerIndex: number): HexCoordinate[] {
+  const sources = (scenario.rules?.supply?.sources || []).filter(source => source.playerIndex === playerIndex);
+  const found = new Map<string, HexCoordinate>();
+  for (const source of sources) {
+    for (const hex of source.hexes || []) {
+      found.set(hexKey(hex), { row: hex.row, column: hex.column });
+    }
+    for (const edge of source.edges || []) {
+      for (let row = 0; row < scenario.rows; row++) {
+        for (let column = 0; column < scenario.columns; column++) {
+          if (isOnEdge({ row, column }, edge, scenario.rows, scenario.columns)) {
+            found.set(hexKey({ row, column }), { row, column });
+          }
+        }
+      }
+    }
+  }
+  return [...found.values()];
+}
+
+/**
+ * Hexes (as hexKey strings) the player's units can trace supply from, i.e. within
+ * supply range of one of the player's sources. Empty when the scenario has no supply rules.
+ */
+export function getSuppliedHexes(scenario: SupplyScenario, units: Unit[], playerIndex: number): Set<string> {
+  const supply = scenario.rules?.supply;
+  if (!supply) {
+    return new Set();
+  }
+  const hexMap = buildHexMap(scenario);
+  const zoneOfControl = scenario.rules?.zoneOfControl;
+  const enemyZone = zoneOfControl
+    ? getEnemyZoneOfControl(scenario, units, playerIndex, zoneOfControl)
+    : new Set<string>();
+  const friendly = new Set<string>();
+  const enemy = new Set<string>();
+  for (const unit of units) {
+    const key = hexKey({ row: unit.hexY, column: unit.hexX });
+    (unit.ownerPlayerIndex === playerIndex ? friendly : enemy).add(key);
+  }
+  const isBlocked = (hex: Hex) => {
+    const key = hexKey(hex);
+    return enemy.has(key) ||
+      (enemyZone.has(key) && !friendly.has(key)) ||
+      !Number.isFinite(DEFAULT_MOVEMENT_RULES.terrainCosts[hex.terrain]);
+  };
+
+  // Breadth-first from every source at once - step costs are only 1 or the road cost,
+  // so a simple relaxation loop settles quickly on scenario-sized maps
+  const cost = new Map<string, number>();
+  let frontier: Hex[] = [];
+  for (const source of getSupplySourceHexes(scenario, playerIndex)) {
+    const hex = hexMap.get(hexKey(source));
+    if (hex && !isBlocked(hex)) {
+      cost.set(hexKey(hex), 0);
+      frontier.push(hex);
+    }
+  }
+  while (frontier.length > 0) {
+    const next: Hex[] = [];
+    for (const from of frontier) {
+      const fromCost = cost.get(hexKey(from))!;
+      for (const side of HEX_SIDES) {
+        const key = hexKey(getNeighbor(from, side));
+        const to = hexMap.get(key);
+        if (!to || isBlocked(to)) {
+          continue;
+        }
+        const onRoad = hasSide(from.roads, side) || hasSide(to.roads, oppositeSide(side));
+        const toCost = fromCost + (onRoad ? supply.roadCost : 1);
+        if (toCost > supply.range || toCost >= (cost.get(key) ?? Infinity)) {
+          continue;
+        }
+        cost.set(key, toCost);
+        next.push(to);
+      }
+    }
+    frontier = next;
+  }
+  return new Set(cost.keys());
+}
+
+/**
+ * Ids of units that cannot trace supply. Empty when the scenario has no supply rules.
+ */
+export function getOutOfSupplyUnitIds(scenario: SupplyScenario, units: Unit[]): string[] {
+  if (!scenario.rules?.supply) {
+    return [];
+  }
+  const outOfSupply: string[] = [];
+  const suppliedByPlayer = new Map<number, Set<string>>();
+  for (const unit of units) {
+    if (!suppliedByPlayer.has(unit.ownerPlayerIndex)) {
+      suppliedByPlayer.set(unit.ownerPlayerIndex, getSuppliedHexes(scenario, units, unit.ownerPlayerIndex));
+    }
+    if (!suppliedByPlayer.get(unit.ownerPlayerIndex)!.has(hexKey({ row: unit.hexY, column: unit.hexX }))) {
+      outOfSupply.push(unit.unitId);
+    }
+  }
+  return outOfSupply;
+}
+
+/**
+ * Set Unit.outOfSupply from a list of unsupplied unit ids (as recorded in turn events)
+ */
+export function setSupplyStatus(units: Unit[], outOfSupplyIds: string[]): Unit[] {
+  const unsupplied = new Set(outOfSupplyIds);
+  return units.map(unit => {
+    const { outOfSupply: _previous, ...rest } = unit;
+    return unsupplied.has(unit.unitId) ? { ...rest, outOfSupply: true } : rest;
+  });
+}
+
+/**
+ * Movement points available to the unit this phase, reduced when it is out of supply
+ */
+export function getMovementAllowance(scenario: Pick<Scenario, 'rules'>, unit: Unit, unitType: UnitType): number {
+  const supply = scenario.rules?.supply;
+  return unit.outOfSupply && supply ? unitType.movement * supply.movementMultiplier : unitType.movement;
+}
+
+/**
+ * Combat strength multiplier for the unit - below 1 when it is out of supply
+ */
+export function getSupplyCombatMultiplier(scenario: Pick<Scenario, 'rules'>, unit: Unit): number {
+  const supply = scenario.rules?.supply;
+  return unit.outOfSupply && supply ? supply.combatMultiplier : 1;
+}
+
+/**
+ * Check that supply source hexes are town hexes on the map
+ */
+export function validateSupplyRules(
+  scenario: SupplyScenario
+): { valid: true } | { valid: false; error: string } {
+  const hexMap = buildHexMap(scenario);
+  for (const source of scenario.rules?.supply?.sources || []) {
+    for (const hex of source.hexes || []) {
+      const position = `${hex.column + 1}-${hex.row + 1}`;
+      if (!isInBounds(hex, scenario.rows, scenario.columns)) {
+        return { valid: false, error: `Supply source ${position} is outside the ${scenario.columns}x${scenario.rows} map` };
+      }
+      if (hexMap.get(hexKey(hex))?.terrain !== 'town') {
+        return { valid: false, error: `Supply source ${position} must be a town hex` };
+      }
+    }
+  }
+  return { valid: true };
+}
@@ -0,0 +1,360 @@
+import { z } from 'zod';
+import { Hex, TerrainType } from './types';
+
+/**
+ * Import of hexagonal maps made in the Tiled map editor (https://www.mapeditor.org),
+ * from either its XML (.tmx) or JSON (.tmj) format.
+ *
+ * Scenarios use flat-top hexes with odd columns shifted down (see ./hex). In
+ * Tiled terms that is stagger axis X with stagger index Odd, which maps across
+ * cell for cell. Pointy-top maps (stagger axis Y) are turned a quarter turn so
+ * their hexes become flat-top: a quarter turn keeps the map rectangular and
+ * every hex's neighbours intact. Only layouts that end up with the same
+ * stagger as HexGrid are accepted - the others are reported, because copying
+ * them across would put hexes next to the wrong neighbours.
+ *
+ * Tiles are identified by the global tile id stored in the layer data (the
+ * tileset's firstgid plus the tile's id within the tileset), with Tiled's
+ * flip and rotation flags removed. Shared by the editor and any server-side import.
+ */
+
+type Result<T> = ({ valid: true } & T) | { valid: false; error: string };
+
+export interface TiledTileLayer {
+  name: string;
+  width: number;
+  height: number;
+  data: number[]; // Global tile ids, row by row - 0 is an empty cell
+}
+
+// The parts of a Tiled map the importer reads
+export interface TiledMap {
+  orientation: string;
+  width: number;
+  height: number;
+  staggerAxis?: string; // 'x' (flat-top) or 'y' (pointy-top)
+  staggerIndex?: string; // 'odd' or 'even' - which columns (axis x) or rows (axis y) are shifted
+  infinite: boolean;
+  layers: TiledTileLayer[];
+}
+
+export interface TiledImportOptions {
+  terrainByTileId: Record<number, TerrainType>;
+  layerName?: string; // Tile layer holding the terrain - defaults to the first tile layer
+  emptyTerrain?: TerrainType; // Terrain for cells with no tile - defaults to 'clear'
+}
+
+export interface TiledImport {
+  columns: number;
+  rows: number;
+  hexes: Hex[];
+  rotated: boolean; // Pointy-top map turned a quarter turn to make it flat-top
+}
+
+// The parts of a .tmj file the importer reads - anything else in the file is ignored
+interface TmjLayer {
+  type: string;
+  name?: string;
+  width?: number;
+  height?: number;
+  encoding?: string;
+  compression?: string;
+  data?: string | number[];
+  chunks?: unknown;
+  layers?: TmjLayer[]; // Group layers
+}
+
+const TmjLayerSchema: z.ZodType<TmjLayer> = z.lazy(() => z.object({
+  type: z.string(),
+  name: z.string().optional(),
+  width: z.number().optional(),
+  height: z.number().optional(),
+  encoding: z.string().optional(),
+  compression: z.string().optional(),
+  data: z.union([z.string(), z.array(z.number())]).optional(),
+  chunks: z.unknown().optional(),
+  layers: z.array(TmjLayerSchema).optional(),
+}));
+
+const TmjMapSchema = z.object({
+  type: z.literal('map'),
+  orientation: z.string().optional(),
+  width: z.number(),
+  height: z.number(),
+  staggeraxis: z.string().optional(),
+  staggerindex: z.string().optional(),
+  infinite: z.boolean().optional(),
+  layers: z.array(TmjLayerSchema).optional(),
+});
+
+// High bits of a global tile id that record flipping and rotation rather than the tile
+const TILE_ID_MASK = 0x0fffffff;
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w-]+)="([^"]*)"/g)) {
+    attributes[match[1]] = decodeXmlEntities(match[2]);
+  }
+  return attributes;
+}
+
+function decodeBase64TileIds(text: string): number[] | null {
+  let binary: string;
+  try {
+    binary = atob(text.trim());
+  } catch {
+    return null;
+  }
+  const ids: number[] = [];
+  for (let i = 0; i + 3 < binary.length; i += 4) {
+    // Little-endian unsigned 32-bit integers
+    ids.push(
+      (binary.charCodeAt(i) |
+        (binary.charCodeAt(i + 1) << 8) |
+        (binary.charCodeAt(i + 2) << 16) |
+        (binary.charCodeAt(i + 3) << 24)) >>> 0
+    );
+  }
+  return ids;
+}
+
+function decodeLayerData(
+  layerName: string,
+  encoding: string | undefined,
+  compression: string | undefined,
+  content: string | number[]
+): Result<{ data: number[] }> {
+  if (compression) {
+    return { valid: false, error: `Layer "${layerName}" uses ${compression} compression - save it in Tiled with the CSV or uncompressed Base64 layer format` };
+  }
+  let ids: number[] | null;
+  if (Array.isArray(content)) {
+    ids = content;
+  } else if (encoding === 'csv') {
+    ids = content.split(',').map(value => value.trim()).filter(value => value !== '').map(Number);
+  } else if (encoding === 'base64') {
+    ids = decodeBase64TileIds(content);
+  } else {
+    return { valid: false, error: `Layer "${layerName}" has unsupported data encoding: ${encoding ?? 'none'}` };
+  }
+  if (!ids || ids.some(id => !Number.isFinite(id))) {
+    return { valid: false, error: `Layer "${layerName}" has malformed tile data` };
+  }
+  return { valid: true, data: ids.map(id => id & TILE_ID_MASK) };
+}
+
+function parseTmx(text: string): Result<{ map: TiledMap }> {
+  const mapTag = text.match(/<map\b[^>]*>/);
+  if (!mapTag) {
+    return { valid: false, error: 'Not a Tiled map: no <map> element' };
+  }
+  const attributes = parseAttributes(mapTag[0]);
+  const layers: TiledTileLayer[] = [];
+  // Tile layers anywhere in the document, including inside groups
+  for (const match of text.matchAll(/<layer\b([^>]*)>([\s\S]*?)<\/layer>/g)) {
+    const layerAttributes = parseAttributes(match[1]);
+    const name = layerAttributes.name ?? '';
+    const dataMatch = match[2].match(/<data\b([^>]*?)(?:\/>|>([\s\S]*?)<\/data>)/);
+    if (!dataMatch) {
+      return { valid: false, error: `Layer "${name}" has no tile data` };
+    }
+    const dataAttributes = parseAttributes(dataMatch[1]);
+    const body = dataMatch[2] ?? '';
+    if (/<chunk\b/.test(body)) {
+      return { valid: false, error: 'Infinite Tiled maps are not supported - resize the map to a fixed size in Tiled first' };
+    }
+    // Without an encoding, tiles are listed as <tile gid="..."/> elements
+    const decoded = dataAttributes.encoding
+      ? decodeLayerData(name, dataAttributes.encoding, dataAttributes.compression, body)
+      : decodeLayerData(name, undefined, undefined, [...body.matchAll(/<tile\b([^>]*)\/?>/g)].map(tile => Number(parseAttributes(tile[1]).gid ?? 0)));
+    if (!decoded.valid) {
+      return decoded;
+    }
+    layers.push({ name, width: Number(layerAttributes.width), height: Number(layerAttributes.height), data: decoded.data });
+  }
+  return {
+    valid: true,
+    map: {
+      orientation: attributes.orientation ?? '',
+      width: Number(attributes.width),
+      height: Number(attributes.height),
+      staggerAxis: attributes.staggeraxis,
+      staggerIndex: attributes.staggerindex,
+      infinite: attributes.infinite === '1',
+      layers,
+    },
+  };
+}
+
+function collectTmjLayers(layers: TmjLayer[], into: TiledTileLayer[]): Result<{}> {
+  for (const layer of layers) {
+    if (layer.type === 'group') {
+      const nested = collectTmjLayers(layer.layers || [], into);
+      if (!nested.valid) {
+        return nested;
+      }
+    } else if (layer.type === 'tilelayer') {
+      const name = layer.name ?? '';
+      if (layer.chunks) {
+        return { valid: false, error: 'Infinite Tiled maps are not supported - resize the map to a fixed size in Tiled first' };
+      }
+      const decoded = decodeLayerData(name, layer.encoding ?? 'csv', layer.compression || undefined, layer.data ?? []);
+      if (!decoded.valid) {
+        return decoded;
+      }
+      into.push({ name, width: Number(layer.width), height: Number(layer.height), data: decoded.data });
+    }
+  }
+  return { valid: true };
+}
+
+function parseTmj(text: string): Result<{ map: TiledMap }> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { valid: false, error: 'Not a Tiled map: invalid JSON' };
+  }
+  const result = TmjMapSchema.safeParse(parsed);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return {
+      valid: false,
+      error: issue.path.length === 0 || issue.path[0] === 'type'
+        ? 'Not a Tiled map: expected "type": "map"'
+        : `Not a Tiled map: ${issue.path.join('.')}: ${issue.message}`,
+    };
+  }
+  const json = result.data;
+  const layers: TiledTileLayer[] = [];
+  const collected = collectTmjLayers(json.layers || [], layers);
+  if (!collected.valid) {
+    return collected;
+  }
+  return {
+    valid: true,
+    map: {
+      orientation: json.orientation ?? '',
+      width: json.width,
+      height: json.height,
+      staggerAxis: json.staggeraxis,
+      staggerIndex: json.staggerindex,
+      infinite: !!json.infinite,
+      layers,
+    },
+  };
+}
+
+/**
+ * Read a Tiled map from the text of a .tmx or .tmj file
+ */
+export function parseTiledMap(text: string): Result<{ map: TiledMap }> {
+  const trimmed = text.trimStart();
+  return trimmed.startsWith('{') ? parseTmj(trimmed) : parseTmx(trimmed);
+}
+
+function findLayer(map: TiledMap, layerName?: string): Result<{ layer: TiledTileLayer }> {
+  const layer = layerName === undefined ? map.layers[0] : map.layers.find(l => l.name === layerName);
+  if (!layer) {
+    return { valid: false, error: layerName === undefined ? 'The map has no tile layers' : `The map has no tile layer named "${layerName}"` };
+  }
+  if (layer.data.length !== map.width * map.height) {
+    return { valid: false, error: `Layer "${layer.name}" has ${layer.data.length} cells, expected ${map.width}x${map.height}` };
+  }
+  return { valid: true, layer };
+}
+
+/**
+ * Distinct tile ids used by the terrain layer, for building a terrain mapping
+ */
+export function getTiledTileIds(map: TiledMap, layerName?: string): number[] {
+  const found = findLayer(map, layerName);
+  if (!found.valid) {
+    return [];
+  }
+  return [...new Set(found.layer.data.filter(id => id !== 0))].sort((a, b) => a - b);
+}
+
+/**
+ * Where each Tiled cell lands on the scenario grid, or why the map's layout cannot be imported
+ */
+function getCellPlacement(map: TiledMap): Result<{ columns: number; rows: number; rotated: boolean; place: (x: number, y: number) => { row: number; column: number } }> {
+  if (map.orientation !== 'hexagonal') {
+    return { valid: false, error: `Only hexagonal Tiled maps can be imported - this map is ${map.orientation || 'of unknown orientation'}` };
+  }
+  if (map.infinite) {
+    return { valid: false, error: 'Infinite Tiled maps are not supported - resize the map to a fixed size in Tiled first' };
+  }
+  const { width, height } = map;
+  const axis = map.staggerAxis ?? 'y'; // Tiled's defaults
+  const index = map.staggerIndex ?? 'odd';
+
+  if (axis === 'x') {
+    if (index !== 'odd') {
+      return {
+        valid: false,
+        error: 'This flat-top map shifts its even columns down, but scenario maps shift odd columns down, so hexes would end up next to the wrong neighbours. Set Stagger Index to Odd in Tiled and redraw the map.',
+      };
+    }
+    return { valid: true, columns: width, rows: height, rotated: false, place: (x, y) => ({ row: y, column: x }) };
+  }
+
+  if (axis === 'y') {
+    // Even rows shifted right: turned anticlockwise, they become odd columns shifted down
+    if (index === 'even') {
+      return { valid: true, columns: height, rows: width, rotated: true, place: (x, y) => ({ row: width - 1 - x, column: y }) };
+    }
+    // Odd rows shifted right: turned clockwise, they become odd columns only when the last row is even
+    if (height % 2 === 1) {
+      return { valid: true, columns: height, rows: width, rotated: true, place: (x, y) => ({ row: x, column: height - 1 - y }) };
+    }
+    return {
+      valid: false,
+      error: `This pointy-top map shifts its odd rows and has an even number of rows (${height}), so turning it flat-top would leave hexes next to the wrong neighbours. Set Stagger Index to Even in Tiled and redraw the map, or add or remove a row.`,
+    };
+  }
+
+  return { valid: false, error: `Unknown stagger axis: ${axis}` };
+}
+
+/**
+ * Convert a Tiled map into scenario hexes, mapping tile ids to terrain.
+ * Every tile id used must have a terrain.
+ */
+export function importTiledMap(map: TiledMap, options: TiledImportOptions): Result<TiledImport> {
+  const placement = getCellPlacement(map);
+  if (!placement.valid) {
+    return placement;
+  }
+  const found = findLayer(map, options.layerName);
+  if (!found.valid) {
+    return found;
+  }
+
+  const unmapped = getTiledTileIds(map, options.layerName).filter(id => !options.terrainByTileId[id]);
+  if (unmapped.length > 0) {
+    return { valid: false, error: `No terrain chosen for tile id${unmapped.length === 1 ? '' : 's'} ${unmapped.join(', ')}` };
+  }
+
+  const emptyTerrain = options.emptyTerrain ?? 'clear';
+  const hexes: Hex[] = [];
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      const id = found.layer.data[y * map.width + x];
+      const { row, column } = placement.place(x, y);
+      hexes.push({ row, column, terrain: id === 0 ? emptyTerrain : options.terrainByTileId[id], rivers: 0, roads: 0 });
+    }
+  }
+  hexes.sort((a, b) => a.row - b.row || a.column - b.column);
+
+  return { valid: true, columns: placement.columns, rows: placement.rows, hexes, rotated: placement.rotated };
+}
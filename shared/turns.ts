@@ -0,0 +1,124 @@
+import { Game, GamePhase, GameTurnState, Scenario } from './types';
+
+/**
+ * Turn structure shared by the API routes and the client.
+ *
+ * Each game turn is split into player turns: player 1 plays every phase, then
+ * player 2 does the same, then the turn number advances. After the last
+ * phase of player 2 on turn `scenario.turns`, the game is finished.
+ */
+
+export const GAME_PHASES: readonly GamePhase[] = ['reinforcement', 'movement', 'combat'];
+
+export const PLAYER_INDICES = [1, 2] as const;
+
+export type TurnState = GameTurnState;
+
+export type TurnActionValidation =
+  | { valid: true; playerIndex: number }
+  | { valid: false; status: 403 | 409; error: string };
+
+/**
+ * Current turn state, defaulting fields missing from games created before phases existed
+ */
+export function getTurnState(game: Game): TurnState {
+  return {
+    turnNumber: game.turnNumber,
+    currentPlayerIndex: game.currentPlayerIndex ?? 1,
+    phase: game.phase ?? GAME_PHASES[0],
+  };
+}
+
+/**
+ * Player index (1 or 2) of the given user in this game, or null if they are not playing
+ */
+export function getPlayerIndex(game: Game, userId: string): number | null {
+  if (game.player1.userId === userId) {
+    return 1;
+  }
+  if (game.player2?.userId === userId) {
+    return 2;
+  }
+  return null;
+}
+
+/**
+ * Check that the user may act in the game right now: they must be a player,
+ * the game must be active, and it must be their turn.
+ */
+export function validateTurnAction(game: Game, userId: string): TurnActionValidation {
+  const playerIndex = getPlayerIndex(game, userId);
+  if (playerIndex === null) {
+    return { valid: false, status: 403, error: 'You are not a player in this game' };
+  }
+  if (game.status !== 'active') {
+    return { valid: false, status: 409, error: `Game is not active (status: ${game.status})` };
+  }
+  const { currentPlayerIndex, phase } = getTurnState(game);
+  if (currentPlayerIndex !== playerIndex) {
+    return { valid: false, status: 409, error: `It is not your turn (waiting for player ${currentPlayerIndex}, ${phase} phase)` };
+  }
+  return { valid: true, playerIndex };
+}
+
+/**
+ * Turn state that follows the given one, or null once the scenario's last turn is over
+ */
+export function getNextTurnState(state: TurnState, totalTurns: number): TurnState | null {
+  const phaseIndex = GAME_PHASES.indexOf(state.phase);
+  if (phaseIndex < GAME_PHASES.length - 1) {
+    return { ...state, phase: GAME_PHASES[phaseIndex + 1] };
+  }
+  return getNextPlayerTurn(state, totalTurns);
+}
+
+/**
+ * First phase of the next player's turn, or null once the scenario's last turn is over
+ */
+export function getNextPlayerTurn(state: TurnState, totalTurns: number): TurnState | null {
+  if (state.currentPlayerIndex < PLAYER_INDICES.length) {
+    return { turnNumber: state.turnNumber, currentPlayerIndex: state.currentPlayerIndex + 1, phase: GAME_PHASES[0] };
+  }
+  if (state.turnNumber >= totalTurns) {
+    return null;
+  }
+  return { turnNumber: state.turnNumber + 1, currentPlayerIndex: PLAYER_INDICES[0], phase: GAME_PHASES[0] };
+}
+
+/**
+ * Move the game to the given turn state (or finish it when null), resetting
+ * per-turn unit flags when a new player turn begins
+ */
+export function applyTurnState(game: Game, next: TurnState | null): Game {
+  const updatedAt = new Date().toISOString();
+  if (!next) {
+    return { ...game, status: 'finished', updatedAt };
+  }
+  const current = getTurnState(game);
+  if (next.currentPlayerIndex === current.currentPlayerIndex && next.turnNumber === current.turnNumber) {
+    return { ...game, ...next, updatedAt };
+  }
+  // A new player turn begins - their units may move and attack again
+  const units = game.units?.map(unit =>
+    unit.ownerPlayerIndex === next.currentPlayerIndex
+      ? { ...unit, hasMoved: false, hasAttacked: false }
+      : unit
+  );
+  return { ...game, ...next, units, updatedAt };
+}
+
+/**
+ * End the current phase, moving to the next phase, player or turn.
+ * Finishes the game when the scenario's turns are exhausted.
+ */
+export function endPhase(game: Game, scenario: Pick<Scenario, 'turns'>): Game {
+  return applyTurnState(game, getNextTurnState(getTurnState(game), scenario.turns));
+}
+
+/**
+ * End the current player's turn, skipping any phases they have not played.
+ * Finishes the game when the scenario's turns are exhausted.
+ */
+export function endTurn(game: Game, scenario: Pick<Scenario, 'turns'>): Game {
+  return applyTurnState(game, getNextPlayerTurn(getTurnState(game), scenario.turns));
+}
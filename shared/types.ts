@@ -4,10 +4,16 @@ export interface Hex {
   row: number;
   column: number;
   terrain: TerrainType;
+  // Side bitmasks - use hasSide/setSide from ./hex rather than manipulating bits directly
   rivers: number; // Bitmask: 0=top (North), 1=top right, 2=bottom right, 3=bottom (South), 4=bottom left, 5=top left
   roads: number; // Bitmask: 0=top (North), 1=top right, 2=bottom right, 3=bottom (South), 4=bottom left, 5=top left
 }
 
+export interface HexCoordinate {
+  row: number;
+  column: number;
+}
+
 export interface Scenario {
   scenarioId: string;
   title: string;
@@ -16,23 +22,110 @@ export interface Scenario {
   rows: number;
   turns: number;
   hexes?: Hex[]; // Optional array of hex terrain definitions
+  unitTypes?: Record<string, UnitType>; // Unit types available in this scenario, keyed by unit type id
+  startingUnits?: StartingUnit[]; // Initial placement of units for each side
+  combatResultsTable?: CombatResultsTable; // Defaults to DEFAULT_COMBAT_RESULTS_TABLE in shared/combat
+  fogOfWar?: boolean; // Hide enemy units outside each player's spotting range
+  victoryHexes?: VictoryHex[]; // Hexes worth victory points to whoever controls them
+  victoryConditions?: VictoryCondition[]; // Checked at the end of every player turn - the first one met ends the game
+  reinforcements?: Reinforcement[]; // Units arriving after the start, at the owning player's reinforcement phase
+  withdrawals?: Withdrawal[]; // Units forced to leave the map at the owning player's reinforcement phase
+  rules?: ScenarioRules; // Optional rules - zones of control, stacking and supply
+  ownerId?: string; // Index field: userId (Cognito sub) of the creator - unset on scenarios created before ownership was recorded
+  createdBy?: string; // Creator's display name
+  forkedFrom?: ScenarioLineage; // Scenario this one was duplicated from
+  publishedVersion?: number; // Latest published version - unset until the scenario is first published
+  publishedAt?: string; // When publishedVersion was published - edits after this are unpublished draft changes
   createdAt: string;
   updatedAt?: string;
   queryKey?: string; // Index field: constant "ALL_SCENARIOS" for efficient querying without Scan
 }
 
+// The designable part of a scenario - what is created, exported and imported, without identity or ownership
+export type ScenarioContent = Pick<
+  Scenario,
+  | 'title'
+  | 'description'
+  | 'columns'
+  | 'rows'
+  | 'turns'
+  | 'hexes'
+  | 'unitTypes'
+  | 'startingUnits'
+  | 'combatResultsTable'
+  | 'fogOfWar'
+  | 'victoryHexes'
+  | 'victoryConditions'
+  | 'reinforcements'
+  | 'withdrawals'
+  | 'rules'
+>;
+
+// Portable JSON form of a scenario, for moving it between environments or keeping it in git
+export interface ScenarioBundle {
+  formatVersion: number; // Bundle format - older formats are migrated on import
+  exportedAt: string;
+  source?: ScenarioLineage; // Scenario (and version) the bundle was exported from
+  scenario: ScenarioContent;
+}
+
+// Where a forked scenario was copied from - the title is kept in case the source is later deleted
+export interface ScenarioLineage {
+  scenarioId: string;
+  version?: number; // Published version copied - unset when the draft was copied
+  title: string;
+}
+
+// Immutable snapshot of a scenario's draft, stored when it is published. Games pin one.
+export interface ScenarioVersion extends Omit<Scenario, 'queryKey' | 'publishedVersion' | 'publishedAt'> {
+  version: number; // 1-based, increasing with each publish
+  publishedAt: string;
+  publishedBy?: string; // userId (Cognito sub) of the publisher
+}
+
+export interface ScenarioVersionSummary {
+  scenarioId: string;
+  version: number;
+  title: string;
+  publishedAt: string;
+  publishedBy?: string;
+}
+
+// Difference between two scenario versions (or a version and the draft)
+export interface ScenarioDiff {
+  fields: Array<{ field: string; from: unknown; to: unknown }>; // Changed top-level fields other than hexes
+  hexes: Array<{ row: number; column: number; from: Hex | null; to: Hex | null }>; // Changed hexes - null where the hex is absent
+}
+
+export type GamePhase = 'reinforcement' | 'movement' | 'combat';
+
 export interface Game {
   gameId: string;
   status: 'waiting' | 'active' | 'finished';
   scenarioId: string; // Reference to the scenario this game uses
+  scenarioVersion?: number; // Published scenario version the game plays - unset on games created before versioning, which use the draft
   player1: Player; // Required: Creator (Player 1) - always the game creator
   player2?: Player; // Optional: Second player (Player 2) - set when someone joins
   // Denormalized index fields for efficient database queries:
   player1Id: string; // Index field: equals player1.userId for efficient "games created by player1" queries
   player2Id?: string; // Index field: equals player2.userId when player2 exists
   turnNumber: number;
+  currentPlayerIndex?: number; // Player (1 or 2) whose turn it is - defaults to 1 on games created before phases existed
+  phase?: GamePhase; // Phase of the current player's turn - defaults to 'reinforcement'
+  units?: Unit[]; // Units on the map, created from the scenario's starting units
+  combatLog?: CombatRecord[]; // Every resolved attack, in order
+  rngSeedHash?: string; // SHA-256 of rngSeed, published when the game is created
+  rngSeed?: string; // Secret dice seed - only returned to players once the game is finished
+  rngRolls?: RngRoll[]; // Every die roll made from the seed, in order
+  eventSeq?: number; // Sequence number of the last event in the game's event log
+  fogOfWar?: boolean; // Copied from the scenario when the game is created
+  controlledHexes?: Record<string, number>; // Controller (player index) of each victory hex, keyed by hexKey
+  outcome?: GameOutcome; // Set when the game finishes
+  reinforcementsPlaced?: number[]; // Units placed so far for each Scenario.reinforcements entry, by index
+  withdrawnUnits?: Unit[]; // Units removed by scheduled withdrawals, as they were when they left
   createdAt: string;
   updatedAt?: string;
+  version?: number; // Incremented by every save, which only succeeds if the stored game still has the version it was read at - unset until first saved
 }
 
 export interface Player {
@@ -61,15 +154,65 @@ export interface MapDefinition {
   imageHeight?: number;
 }
 
+export interface Reinforcement {
+  playerIndex: number;
+  turn: number; // Due at the start of this turn's reinforcement phase for its side
+  unitType: string; // Key into Scenario.unitTypes
+  count: number;
+  entryHexes: HexCoordinate[]; // Tried in order - units enter on the first one that is not enemy-occupied or full
+}
+
+export interface Withdrawal {
+  playerIndex: number;
+  turn: number; // Removed at the start of this turn's reinforcement phase for its side
+  unitType: string;
+  count: number;
+}
+
+// Result of applying the reinforcement and withdrawal schedule at the start of a reinforcement phase
+export interface ScheduleUpdate {
+  arrived: Unit[];
+  withdrawn: Unit[];
+  reinforcementsPlaced: number[]; // New value of Game.reinforcementsPlaced
+}
+
 export interface StartingUnit {
   playerIndex: number;
   units: {
-    unitType: string;
-    hexX: number;
-    hexY: number;
+    unitType: string; // Key into Scenario.unitTypes
+    hexX: number; // Column
+    hexY: number; // Row
   }[];
 }
 
+export interface ZoneOfControlRules {
+  stopOnEntering: boolean; // A unit entering an enemy zone of control must stop there
+  leaveCost: number; // Extra movement points to leave a hex in an enemy zone of control
+  riversNegate: boolean; // Zones of control do not extend across river hexsides
+}
+
+export type MapEdge = 'north' | 'east' | 'south' | 'west';
+
+export interface SupplySource {
+  playerIndex: number;
+  edges?: MapEdge[]; // Every hex along these map edges is a source
+  hexes?: HexCoordinate[]; // Specific town hexes
+}
+
+export interface SupplyRules {
+  sources: SupplySource[];
+  range: number; // Max length of a supply path, in hexes
+  roadCost: number; // Range used per hex along a road - below 1 lets roads extend supply
+  movementMultiplier: number; // Applied to an out-of-supply unit's movement allowance
+  combatMultiplier: number; // Applied to an out-of-supply unit's attack and defence strength
+}
+
+export interface ScenarioRules {
+  zoneOfControl?: ZoneOfControlRules; // Omitted = units exert no zone of control
+  stackingLimit?: number; // Max units per side in one hex - omitted = unlimited
+  supply?: SupplyRules; // Omitted = every unit is always in supply
+}
+
 export interface UnitType {
   name: string;
   movement: number;
@@ -77,6 +220,7 @@ export interface UnitType {
   defense: number;
   health: number;
   range: number;
+  spottingRange?: number; // Hexes this unit can see under fog of war - defaults to DEFAULT_SPOTTING_RANGE in shared/visibility
   cost?: number;
 }
 
@@ -90,5 +234,96 @@ export interface Unit {
   maxHealth: number;
   hasMoved?: boolean;
   hasAttacked?: boolean;
+  outOfSupply?: boolean; // Set at the end of each player turn when the scenario has supply rules
+}
+
+// Combat result codes: A = attacker, D = defender
+// E = eliminated, R = retreats one hex, S = loses one step; EX = both lose one step; NE = no effect
+export type CombatResultCode = 'AE' | 'AR' | 'AS' | 'NE' | 'EX' | 'DS' | 'DR' | 'DE';
+
+export interface CombatResultsTable {
+  method: 'odds' | 'differential'; // Compare attack:defense as a ratio or as attack minus defense
+  dieSides: number;
+  columns: number[]; // Ascending column thresholds - ratios for odds (e.g. 0.5 = 1:2), differences for differential. Attacks below the first are not allowed
+  results: CombatResultCode[][]; // results[dieRoll - 1][columnIndex]
+  terrainShifts?: Partial<Record<TerrainType, number>>; // Column shift when the defender is in this terrain (negative favours defender)
+  riverShift?: number; // Column shift when every attacker attacks across a river side
+}
+
+export interface CombatLoss {
+  unitId: string;
+  stepsLost: number;
+  eliminated: boolean;
+  retreatedTo?: HexCoordinate;
+}
+
+export interface CombatRecord {
+  turnNumber: number;
+  playerIndex: number; // Attacking player
+  attackerUnitIds: string[];
+  defenderUnitIds: string[];
+  target: HexCoordinate;
+  attackStrength: number;
+  defenseStrength: number;
+  columnIndex: number; // CRT column used, after shifts
+  columnShift: number; // Total terrain and river shift applied
+  dieRoll: number;
+  result: CombatResultCode;
+  losses: CombatLoss[];
+  createdAt: string;
 }
 
+export interface RngRoll {
+  index: number; // Position in the game's roll stream, starting at 0
+  sides: number;
+  value: number; // 1 to sides
+  purpose: string; // What the roll was for, e.g. 'combat'
+}
+
+/**
+ * Entry in a game's append-only event log. Folding a game's events in
+ * sequence order rebuilds its state (see shared/events.ts).
+ */
+export type GameEventData =
+  | { type: 'gameCreated'; game: Game } // Initial state, without the secret dice seed
+  | { type: 'snapshot'; game: Game } // Full state for games that predate the event log
+  | { type: 'playerJoined'; player: Player }
+  | { type: 'unitMoved'; unitId: string; from: HexCoordinate; to: HexCoordinate }
+  | { type: 'attackResolved'; combat: CombatRecord }
+  | { type: 'phaseEnded'; next: GameTurnState | null; controlledHexes?: Record<string, number>; outOfSupply?: string[]; schedule?: ScheduleUpdate; outcome?: GameOutcome } // next is null when the game finished
+  | { type: 'turnEnded'; next: GameTurnState | null; controlledHexes?: Record<string, number>; outOfSupply?: string[]; schedule?: ScheduleUpdate; outcome?: GameOutcome }
+  | { type: 'playerResigned'; playerIndex: number; outcome?: GameOutcome };
+
+export type GameEventType = GameEventData['type'];
+
+export type GameEvent = GameEventData & {
+  gameId: string;
+  seq: number; // 1-based, contiguous per game
+  playerIndex?: number; // Player whose action produced the event
+  rolls?: RngRoll[]; // Dice rolled while producing the event
+  createdAt: string;
+};
+
+export interface GameTurnState {
+  turnNumber: number;
+  currentPlayerIndex: number;
+  phase: GamePhase;
+}
+
+export interface VictoryHex extends HexCoordinate {
+  points: number;
+  initialController?: number; // Player who controls the hex until someone else enters it
+}
+
+export type VictoryCondition =
+  | { type: 'victoryPoints'; playerIndex: number; points: number } // Player reaches this many victory points
+  | { type: 'elimination'; playerIndex: number; percent: number } // Player has eliminated this percentage of the enemy's starting units
+  | { type: 'holdHex'; playerIndex: number; hex: HexCoordinate; turn: number }; // Player controls the hex at the end of game turn `turn`
+
+export type FinishReason = 'victoryPoints' | 'elimination' | 'holdHex' | 'endOfScenario' | 'resignation';
+
+export interface GameOutcome {
+  winner: number | null; // Player index of the winner, null for a draw
+  reason: FinishReason;
+  description: string;
+}
@@ -0,0 +1,91 @@
+import { Scenario, StartingUnit, Unit, UnitType } from './types';
+import { isInBounds } from './hex';
+
+/**
+ * Order-of-battle helpers shared by the scenario editor and the scenario and game API routes
+ */
+
+export interface UnitPlacement {
+  playerIndex: number;
+  unitType: string;
+  hexX: number; // Column
+  hexY: number; // Row
+}
+
+/**
+ * Flatten per-side starting units into a single list of placements
+ */
+export function flattenStartingUnits(startingUnits: StartingUnit[] = []): UnitPlacement[] {
+  return startingUnits.flatMap(side =>
+    side.units.map(unit => ({ playerIndex: side.playerIndex, ...unit }))
+  );
+}
+
+/**
+ * Group placements back into per-side starting units, ordered by player index
+ */
+export function groupStartingUnits(placements: UnitPlacement[]): StartingUnit[] {
+  const bySide = new Map<number, StartingUnit>();
+  for (const { playerIndex, ...unit } of placements) {
+    if (!bySide.has(playerIndex)) {
+      bySide.set(playerIndex, { playerIndex, units: [] });
+    }
+    bySide.get(playerIndex)!.units.push(unit);
+  }
+  return [...bySide.values()].sort((a, b) => a.playerIndex - b.playerIndex);
+}
+
+/**
+ * Check that every starting unit references a defined unit type, sits on the map
+ * and (if the scenario has one) respects the stacking limit
+ */
+export function validateOrderOfBattle(
+  scenario: Pick<Scenario, 'rows' | 'columns' | 'unitTypes' | 'startingUnits' | 'rules'>
+): { valid: true } | { valid: false; error: string } {
+  const unitTypes: Record<string, UnitType> = scenario.unitTypes || {};
+  const stackingLimit = scenario.rules?.stackingLimit;
+  const stacks = new Map<string, number>();
+  for (const placement of flattenStartingUnits(scenario.startingUnits)) {
+    const position = `${placement.hexX + 1}-${placement.hexY + 1}`;
+    if (!unitTypes[placement.unitType]) {
+      return { valid: false, error: `Starting unit at ${position} references unknown unit type: ${placement.unitType}` };
+    }
+    if (!isInBounds({ row: placement.hexY, column: placement.hexX }, scenario.rows, scenario.columns)) {
+      return { valid: false, error: `Starting unit at ${position} is outside the ${scenario.columns}x${scenario.rows} map` };
+    }
+    const stackKey = `${placement.playerIndex}:${position}`;
+    const stacked = (stacks.get(stackKey) ?? 0) + 1;
+    stacks.set(stackKey, stacked);
+    if (stackingLimit !== undefined && stacked > stackingLimit) {
+      return { valid: false, error: `Player ${placement.playerIndex} has more than ${stackingLimit} starting units at ${position}` };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Create the units for a new game from the scenario's starting units.
+ * Unit ids are stable per scenario (p1-u1, p1-u2, ..., p2-u1, ...).
+ */
+export function createUnitsFromScenario(scenario: Pick<Scenario, 'unitTypes' | 'startingUnits'>): Unit[] {
+  const unitTypes: Record<string, UnitType> = scenario.unitTypes || {};
+  const units: Unit[] = [];
+  const countBySide = new Map<number, number>();
+  for (const side of scenario.startingUnits || []) {
+    for (const placement of side.units) {
+      const count = (countBySide.get(side.playerIndex) ?? 0) + 1;
+      countBySide.set(side.playerIndex, count);
+      const health = unitTypes[placement.unitType]?.health ?? 1;
+      units.push({
+        unitId: `p${side.playerIndex}-u${count}`,
+        unitType: placement.unitType,
+        ownerPlayerIndex: side.playerIndex,
+        hexX: placement.hexX,
+        hexY: placement.hexY,
+        currentHealth: health,
+        maxHealth: health,
+      });
+    }
+  }
+  return units;
+}
@@ -0,0 +1,132 @@
+import { Hex, Scenario, ScenarioDiff, ScenarioVersion } from './types';
+import { hexKey } from './hex';
+
+/**
+ * Scenario versioning and lineage, shared by the API and the editor.
+ *
+ * The scenario record is an editable draft. Publishing copies the draft into
+ * an immutable numbered version, and games pin the version they were created
+ * from so an in-progress game always plays the map it started with. Forking
+ * copies a draft or version into a new scenario that records where it came from.
+ */
+
+// Bookkeeping fields that differ between a draft and its versions without being content changes
+const NON_CONTENT_FIELDS = new Set([
+  'scenarioId',
+  'hexes',
+  'ownerId',
+  'createdBy',
+  'forkedFrom',
+  'createdAt',
+  'updatedAt',
+  'queryKey',
+  'publishedVersion',
+  'publishedAt',
+  'publishedBy',
+  'version',
+]);
+
+type VersionedScenario = Scenario | ScenarioVersion;
+
+/**
+ * Whether the draft has been edited since it was last published (or has never been published)
+ */
+export function hasUnpublishedChanges(scenario: Pick<Scenario, 'publishedVersion' | 'publishedAt' | 'updatedAt'>): boolean {
+  if (!scenario.publishedVersion || !scenario.publishedAt) {
+    return true;
+  }
+  return !!scenario.updatedAt && scenario.updatedAt > scenario.publishedAt;
+}
+
+/**
+ * Immutable snapshot of the draft as the given version
+ */
+export function createScenarioVersion(scenario: Scenario, version: number, publishedAt: string, publishedBy?: string): ScenarioVersion {
+  const { queryKey: _queryKey, publishedVersion: _publishedVersion, publishedAt: _publishedAt, ...content } = scenario;
+  return { ...content, version, publishedAt, ...(publishedBy ? { publishedBy } : {}) };
+}
+
+/**
+ * New scenario with the source's content, owned by whoever forked it and not yet published.
+ * Forking a fork records the immediate source, so lineage can be followed back one step at a time.
+ */
+export function forkScenario(
+  source: Scenario | ScenarioVersion,
+  fork: { scenarioId: string; ownerId: string; createdBy: string; title?: string; createdAt: string }
+): Scenario {
+  // Everything but identity, ownership and publishing state is copied
+  const {
+    scenarioId: _scenarioId,
+    ownerId: _ownerId,
+    createdBy: _createdBy,
+    forkedFrom: _forkedFrom,
+    createdAt: _createdAt,
+    updatedAt: _updatedAt,
+    queryKey: _queryKey,
+    publishedVersion: _publishedVersion,
+    publishedAt: _publishedAt,
+    publishedBy: _publishedBy,
+    version,
+    ...content
+  } = source as Scenario & Partial<ScenarioVersion>;
+  return {
+    ...content,
+    scenarioId: fork.scenarioId,
+    ownerId: fork.ownerId,
+    createdBy: fork.createdBy,
+    title: fork.title ?? `${source.title} (copy)`,
+    forkedFrom: { scenarioId: source.scenarioId, ...(version !== undefined && { version }), title: source.title },
+    createdAt: fork.createdAt,
+    queryKey: 'ALL_SCENARIOS',
+  };
+}
+
+// JSON with object keys sorted, so equal values compare equal whatever order the store returned their keys in
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function sameHex(a: Hex | null, b: Hex | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  return a.terrain === b.terrain && a.rivers === b.rivers && a.roads === b.roads;
+}
+
+/**
+ * Content differences between two scenario versions (or a version and the draft)
+ */
+export function diffScenarios(from: VersionedScenario, to: VersionedScenario): ScenarioDiff {
+  const fromFields = from as unknown as Record<string, unknown>;
+  const toFields = to as unknown as Record<string, unknown>;
+  const fieldNames = [...new Set([...Object.keys(fromFields), ...Object.keys(toFields)])]
+    .filter(field => !NON_CONTENT_FIELDS.has(field))
+    .sort();
+  const fields = fieldNames
+    .filter(field => stableStringify(fromFields[field]) !== stableStringify(toFields[field]))
+    .map(field => ({ field, from: fromFields[field] ?? null, to: toFields[field] ?? null }));
+
+  const fromHexes = new Map((from.hexes || []).map(hex => [hexKey(hex), hex]));
+  const toHexes = new Map((to.hexes || []).map(hex => [hexKey(hex), hex]));
+  const hexes: ScenarioDiff['hexes'] = [];
+  for (const key of new Set([...fromHexes.keys(), ...toHexes.keys()])) {
+    const before = fromHexes.get(key) ?? null;
+    const after = toHexes.get(key) ?? null;
+    if (!sameHex(before, after)) {
+      const { row, column } = (after ?? before)!;
+      hexes.push({ row, column, from: before, to: after });
+    }
+  }
+  hexes.sort((a, b) => a.row - b.row || a.column - b.column);
+
+  return { fields, hexes };
+}
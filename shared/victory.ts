@@ -0,0 +1,157 @@
+import { Game, GameOutcome, GameTurnState, Scenario, VictoryCondition } from './types';
+import { hexKey, isInBounds } from './hex';
+import { PLAYER_INDICES } from './turns';
+import { countUnitsEntered } from './reinforcements';
+
+/**
+ * Victory conditions shared by the API (evaluated at the end of every player
+ * turn) and the editor (validation and previews).
+ *
+ * Victory hexes are controlled by the last player to occupy them. Each
+ * scenario condition is a sudden-death check: the first one met ends the
+ * game with a win for its player. If none is met by the end of the last
+ * turn, the player with more victory points wins (equal points is a draw).
+ */
+
+type VictoryScenario = Pick<Scenario, 'rows' | 'columns' | 'turns' | 'startingUnits' | 'reinforcements' | 'victoryHexes' | 'victoryConditions'>;
+
+function opponentOf(playerIndex: number): number {
+  return playerIndex === 1 ? 2 : 1;
+}
+
+/**
+ * Controller of each victory hex after the current unit positions are taken into account
+ */
+export function getHexControl(game: Game, scenario: Pick<Scenario, 'victoryHexes'>): Record<string, number> {
+  const control: Record<string, number> = {};
+  for (const hex of scenario.victoryHexes || []) {
+    const key = hexKey(hex);
+    const occupant = (game.units || []).find(unit => unit.hexY === hex.row && unit.hexX === hex.column);
+    const controller = occupant?.ownerPlayerIndex ?? game.controlledHexes?.[key] ?? hex.initialController;
+    if (controller !== undefined) {
+      control[key] = controller;
+    }
+  }
+  return control;
+}
+
+/**
+ * Victory points held by each player for the given hex control
+ */
+export function getVictoryPoints(
+  scenario: Pick<Scenario, 'victoryHexes'>,
+  control: Record<string, number>
+): Record<number, number> {
+  const points: Record<number, number> = Object.fromEntries(PLAYER_INDICES.map(index => [index, 0]));
+  for (const hex of scenario.victoryHexes || []) {
+    const controller = control[hexKey(hex)];
+    if (controller !== undefined) {
+      points[controller] = (points[controller] ?? 0) + hex.points;
+    }
+  }
+  return points;
+}
+
+function describeHex(coord: { row: number; column: number }): string {
+  return `${coord.column + 1}-${coord.row + 1}`;
+}
+
+function checkCondition(
+  condition: VictoryCondition,
+  game: Game,
+  scenario: VictoryScenario,
+  control: Record<string, number>,
+  ended: GameTurnState,
+  gameTurnOver: boolean
+): GameOutcome | null {
+  const { playerIndex } = condition;
+  switch (condition.type) {
+    case 'victoryPoints': {
+      const points = getVictoryPoints(scenario, control)[playerIndex] ?? 0;
+      return points >= condition.points
+        ? { winner: playerIndex, reason: 'victoryPoints', description: `Player ${playerIndex} reached ${points} victory points` }
+        : null;
+    }
+    case 'elimination': {
+      const enemy = opponentOf(playerIndex);
+      // Withdrawn units left the map but were not eliminated
+      const starting = countUnitsEntered(game, scenario, enemy);
+      if (starting === 0) {
+        return null;
+      }
+      const remaining = [...(game.units || []), ...(game.withdrawnUnits || [])]
+        .filter(unit => unit.ownerPlayerIndex === enemy).length;
+      const percentLost = ((starting - remaining) / starting) * 100;
+      return percentLost >= condition.percent
+        ? { winner: playerIndex, reason: 'elimination', description: `Player ${playerIndex} eliminated ${Math.round(percentLost)}% of player ${enemy}'s units` }
+        : null;
+    }
+    case 'holdHex':
+      return gameTurnOver && ended.turnNumber === condition.turn && control[hexKey(condition.hex)] === playerIndex
+        ? { winner: playerIndex, reason: 'holdHex', description: `Player ${playerIndex} held ${describeHex(condition.hex)} at the end of turn ${condition.turn}` }
+        : null;
+  }
+}
+
+/**
+ * Outcome of the game at the end of a player turn, or null if play continues.
+ * `game.controlledHexes` must already reflect the end-of-turn positions.
+ */
+export function evaluateVictory(
+  game: Game,
+  scenario: VictoryScenario,
+  ended: GameTurnState,
+  next: GameTurnState | null
+): GameOutcome | null {
+  const control = game.controlledHexes || {};
+  const gameTurnOver = !next || next.turnNumber !== ended.turnNumber;
+  for (const condition of scenario.victoryConditions || []) {
+    const outcome = checkCondition(condition, game, scenario, control, ended, gameTurnOver);
+    if (outcome) {
+      return outcome;
+    }
+  }
+  if (next) {
+    return null;
+  }
+
+  // Scenario over without a sudden-death win - decide on victory points
+  const points = getVictoryPoints(scenario, control);
+  const [first, second] = PLAYER_INDICES;
+  const score = `${points[first]}-${points[second]}`;
+  if (points[first] === points[second]) {
+    return { winner: null, reason: 'endOfScenario', description: `Draw on victory points (${score})` };
+  }
+  const winner = points[first] > points[second] ? first : second;
+  return { winner, reason: 'endOfScenario', description: `Player ${winner} won on victory points (${score})` };
+}
+
+/**
+ * Check that victory hexes and conditions fit the scenario
+ */
+export function validateVictoryConditions(scenario: VictoryScenario): { valid: true } | { valid: false; error: string } {
+  const seen = new Set<string>();
+  for (const hex of scenario.victoryHexes || []) {
+    if (!isInBounds(hex, scenario.rows, scenario.columns)) {
+      return { valid: false, error: `Victory hex ${describeHex(hex)} is outside the ${scenario.columns}x${scenario.rows} map` };
+    }
+    if (seen.has(hexKey(hex))) {
+      return { valid: false, error: `Victory hex ${describeHex(hex)} is defined more than once` };
+    }
+    seen.add(hexKey(hex));
+  }
+  for (const condition of scenario.victoryConditions || []) {
+    if (condition.type === 'holdHex') {
+      if (!isInBounds(condition.hex, scenario.rows, scenario.columns)) {
+        return { valid: false, error: `Hold-hex condition targets ${describeHex(condition.hex)}, outside the map` };
+      }
+      if (condition.turn > scenario.turns) {
+        return { valid: false, error: `Hold-hex condition is checked on turn ${condition.turn}, but the scenario has ${scenario.turns} turns` };
+      }
+      if (!seen.has(hexKey(condition.hex))) {
+        return { valid: false, error: `Hold-hex condition targets ${describeHex(condition.hex)}, which is not a victory hex` };
+      }
+    }
+  }
+  return { valid: true };
+}
@@ -0,0 +1,147 @@
+import { CombatRecord, Game, Hex, HexCoordinate, Scenario, TerrainType, Unit } from './types';
+import { hexKey, hexLine, hexSpiral, isInBounds } from './hex';
+import { buildHexMap } from './movement';
+import { toPublicGame } from './rng';
+import { getPlayerIndex } from './turns';
+
+/**
+ * Fog of war shared by the API (redaction - hidden units never leave the
+ * server) and the client (showing which hexes are in view).
+ *
+ * A player sees every hex within spotting range of one of their units, as
+ * long as no blocking terrain lies between them. The hexes at either end of
+ * the line never block, so units in a forest can see out and be seen.
+ */
+
+export const DEFAULT_SPOTTING_RANGE = 3;
+
+export const LINE_OF_SIGHT_BLOCKING_TERRAIN: readonly TerrainType[] = ['mountain', 'forest', 'town'];
+
+type VisibilityScenario = Pick<Scenario, 'rows' | 'columns' | 'hexes' | 'unitTypes'>;
+
+function isSightBlocked(hexMap: Map<string, Hex>, from: HexCoordinate, to: HexCoordinate): boolean {
+  return hexLine(from, to).slice(1, -1).some(coord => {
+    const hex = hexMap.get(hexKey(coord));
+    return !!hex && LINE_OF_SIGHT_BLOCKING_TERRAIN.includes(hex.terrain);
+  });
+}
+
+/**
+ * Whether there is a clear line of sight between two hexes
+ */
+export function hasLineOfSight(scenario: Pick<Scenario, 'rows' | 'columns' | 'hexes'>, from: HexCoordinate, to: HexCoordinate): boolean {
+  return !isSightBlocked(buildHexMap(scenario), from, to);
+}
+
+/**
+ * Keys (see hexKey) of every hex the player can currently see
+ */
+export function getVisibleHexes(scenario: VisibilityScenario, units: Unit[], playerIndex: number): Set<string> {
+  const hexMap = buildHexMap(scenario);
+  const visible = new Set<string>();
+  for (const unit of units) {
+    if (unit.ownerPlayerIndex !== playerIndex) {
+      continue;
+    }
+    const origin = { row: unit.hexY, column: unit.hexX };
+    const range = scenario.unitTypes?.[unit.unitType]?.spottingRange ?? DEFAULT_SPOTTING_RANGE;
+    for (const coord of hexSpiral(origin, range)) {
+      const key = hexKey(coord);
+      if (visible.has(key) || !isInBounds(coord, scenario.rows, scenario.columns)) {
+        continue;
+      }
+      if (!isSightBlocked(hexMap, origin, coord)) {
+        visible.add(key);
+      }
+    }
+  }
+  return visible;
+}
+
+/**
+ * Whether fog of war currently hides anything in this game. Finished games are fully revealed.
+ */
+export function isFogActive(game: Game): boolean {
+  return !!game.fogOfWar && game.status !== 'finished';
+}
+
+/**
+ * Combat record with the enemy units the player can't see left out - their
+ * ids and losses - and enemy retreats into hexes out of view dropped. Both
+ * players know the target hex and the strengths, shown when it was fought.
+ */
+function redactCombat(combat: CombatRecord, playerIndex: number, hiddenUnitIds: Set<string>, visible: Set<string>): CombatRecord {
+  const enemyUnitIds = new Set(combat.playerIndex === playerIndex ? combat.defenderUnitIds : combat.attackerUnitIds);
+  const isShown = (unitId: string) => !hiddenUnitIds.has(unitId);
+  return {
+    ...combat,
+    attackerUnitIds: combat.attackerUnitIds.filter(isShown),
+    defenderUnitIds: combat.defenderUnitIds.filter(isShown),
+    losses: combat.losses
+      .filter(loss => isShown(loss.unitId))
+      .map(({ retreatedTo, ...loss }) =>
+        retreatedTo && (!enemyUnitIds.has(loss.unitId) || visible.has(hexKey(retreatedTo))) ? { ...loss, retreatedTo } : loss
+      ),
+  };
+}
+
+interface PlayerVisibility {
+  playerIndex: number;
+  visible: Set<string>;
+  hiddenUnitIds: Set<string>;
+}
+
+// What a player of a fogged game can see, or null for users not playing it
+function getPlayerVisibility(game: Game, scenario: VisibilityScenario, userId: string): PlayerVisibility | null {
+  const playerIndex = getPlayerIndex(game, userId);
+  if (playerIndex === null) {
+    return null;
+  }
+  const units = game.units || [];
+  const visible = getVisibleHexes(scenario, units, playerIndex);
+  const hiddenUnitIds = new Set(units
+    .filter(unit => unit.ownerPlayerIndex !== playerIndex && !visible.has(hexKey({ row: unit.hexY, column: unit.hexX })))
+    .map(unit => unit.unitId));
+  return { playerIndex, visible, hiddenUnitIds };
+}
+
+/**
+ * Game as the given user may see it: secret seed removed and, under fog of war,
+ * enemy units outside their view removed and redacted from the combat log, and
+ * only their own withdrawn units listed (withdrawals record where units left).
+ * Users who are not playing see no units or combats.
+ */
+export function getPlayerView(game: Game, scenario: VisibilityScenario, userId: string): Game {
+  const publicGame = toPublicGame(game);
+  if (!isFogActive(game)) {
+    return publicGame;
+  }
+  const view = getPlayerVisibility(game, scenario, userId);
+  if (!view) {
+    return { ...publicGame, units: [], withdrawnUnits: [], combatLog: [] };
+  }
+  const { playerIndex, visible, hiddenUnitIds } = view;
+  return {
+    ...publicGame,
+    units: (game.units || []).filter(unit => !hiddenUnitIds.has(unit.unitId)),
+    withdrawnUnits: (game.withdrawnUnits || []).filter(unit => unit.ownerPlayerIndex === playerIndex),
+    combatLog: (game.combatLog || []).map(combat => redactCombat(combat, playerIndex, hiddenUnitIds, visible)),
+  };
+}
+
+/**
+ * A combat just resolved in the game, as getPlayerView shows it in the log
+ */
+export function getCombatView(combat: CombatRecord, game: Game, scenario: VisibilityScenario, userId: string): CombatRecord {
+  const view = isFogActive(game) ? getPlayerVisibility(game, scenario, userId) : null;
+  return view ? redactCombat(combat, view.playerIndex, view.hiddenUnitIds, view.visible) : combat;
+}
+
+/**
+ * Game for listings, where the scenario is not loaded: units, withdrawn units
+ * and combat records are left out entirely while fog of war is active
+ */
+export function getListedGame(game: Game): Game {
+  const publicGame = toPublicGame(game);
+  return isFogActive(game) ? { ...publicGame, units: [], withdrawnUnits: [], combatLog: [] } : publicGame;
+}
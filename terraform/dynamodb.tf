@@ -58,6 +58,16 @@ resource "aws_dynamodb_table" "player_games" {
     type = "S"
   }
 
+  attribute {
+    name = "updatedAt"
+    type = "S"
+  }
+
+  attribute {
+    name = "playerStatus"
+    type = "S"
+  }
+
   # GSI to query players by gameId (reverse lookup: which players are in a game)
   # Can also filter by playerIndex to get only creators (playerIndex = 1) or joiners (playerIndex > 1)
   global_secondary_index {
@@ -66,11 +76,76 @@ resource "aws_dynamodb_table" "player_games" {
     projection_type = "ALL" # Include all attributes in the index
   }
 
+  # GSI to list a player's games, most recently updated first (rows copy the game's updatedAt)
+  global_secondary_index {
+    name            = "playerId-updatedAt-index"
+    hash_key        = "playerId"
+    range_key       = "updatedAt"
+    projection_type = "KEYS_ONLY" # Games are read from the games table
+  }
+
+  # GSI to list a player's games with one status, most recently updated first
+  # playerStatus is "<playerId>#<status>", e.g. "abc123#active"
+  global_secondary_index {
+    name            = "playerStatus-updatedAt-index"
+    hash_key        = "playerStatus"
+    range_key       = "updatedAt"
+    projection_type = "KEYS_ONLY" # Games are read from the games table
+  }
+
   tags = merge(local.common_tags, {
     Name = "${local.service_name}-player-games"
   })
 }
 
+# Game Events Table
+# Append-only event log per game - the game's state can be rebuilt by folding its events
+# Composite key: gameId (PK) + seq (SK, 1-based sequence number)
+resource "aws_dynamodb_table" "game_events" {
+  name           = "${local.service_name}-game-events"
+  billing_mode   = "PAY_PER_REQUEST"
+  hash_key       = "gameId"
+  range_key      = "seq"
+
+  attribute {
+    name = "gameId"
+    type = "S"
+  }
+
+  attribute {
+    name = "seq"
+    type = "N"
+  }
+
+  tags = merge(local.common_tags, {
+    Name = "${local.service_name}-game-events"
+  })
+}
+
+# Scenario Versions Table
+# Immutable published snapshots of each scenario - games pin the version they were created from
+# Composite key: scenarioId (PK) + version (SK, 1-based version number)
+resource "aws_dynamodb_table" "scenario_versions" {
+  name           = "${local.service_name}-scenario-versions"
+  billing_mode   = "PAY_PER_REQUEST"
+  hash_key       = "scenarioId"
+  range_key      = "version"
+
+  attribute {
+    name = "scenarioId"
+    type = "S"
+  }
+
+  attribute {
+    name = "version"
+    type = "N"
+  }
+
+  tags = merge(local.common_tags, {
+    Name = "${local.service_name}-scenario-versions"
+  })
+}
+
 # DynamoDB Table for Scenarios
 resource "aws_dynamodb_table" "scenarios" {
   name           = "${local.service_name}-scenarios"
@@ -92,6 +167,11 @@ resource "aws_dynamodb_table" "scenarios" {
     type = "S"
   }
 
+  attribute {
+    name = "ownerId"
+    type = "S"
+  }
+
   # GSI to query all scenarios efficiently (without Scan)
   # Uses constant partition key "ALL_SCENARIOS" and sorts by createdAt
   global_secondary_index {
@@ -101,6 +181,15 @@ resource "aws_dynamodb_table" "scenarios" {
     projection_type = "ALL" # Include all attributes in the index
   }
 
+  # GSI to query a user's own scenarios ("my scenarios"), most recent first
+  # Scenarios created before ownership was recorded have no ownerId and are not in this index
+  global_secondary_index {
+    name            = "ownerId-createdAt-index"
+    hash_key        = "ownerId"
+    range_key       = "createdAt"
+    projection_type = "ALL" # Include all attributes in the index
+  }
+
   tags = merge(local.common_tags, {
     Name = "${local.service_name}-scenarios"
   })
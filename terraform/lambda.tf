@@ -44,9 +44,13 @@ resource "aws_iam_role_policy" "lambda_dynamodb_policy" {
           aws_dynamodb_table.player_games.arn,
           "${aws_dynamodb_table.player_games.arn}/*",
           "${aws_dynamodb_table.player_games.arn}/index/*",
+          aws_dynamodb_table.game_events.arn,
+          "${aws_dynamodb_table.game_events.arn}/*",
           aws_dynamodb_table.scenarios.arn,
           "${aws_dynamodb_table.scenarios.arn}/*",
-          "${aws_dynamodb_table.scenarios.arn}/index/*"
+          "${aws_dynamodb_table.scenarios.arn}/index/*",
+          aws_dynamodb_table.scenario_versions.arn,
+          "${aws_dynamodb_table.scenario_versions.arn}/*"
         ]
       },
       {
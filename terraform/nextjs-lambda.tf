@@ -100,9 +100,11 @@ resource "aws_lambda_function" "game" {
       COGNITO_REGION        = var.aws_region
       COGNITO_DOMAIN        = "${aws_cognito_user_pool_domain.auth_domain.domain}.auth.${var.aws_region}.amazoncognito.com"
       # DynamoDB table names for API routes
-      GAMES_TABLE        = aws_dynamodb_table.games.name
-      PLAYER_GAMES_TABLE = aws_dynamodb_table.player_games.name
-      SCENARIOS_TABLE    = aws_dynamodb_table.scenarios.name
+      GAMES_TABLE             = aws_dynamodb_table.games.name
+      PLAYER_GAMES_TABLE      = aws_dynamodb_table.player_games.name
+      GAME_EVENTS_TABLE       = aws_dynamodb_table.game_events.name
+      SCENARIOS_TABLE         = aws_dynamodb_table.scenarios.name
+      SCENARIO_VERSIONS_TABLE = aws_dynamodb_table.scenario_versions.name
       # AWS_REGION is automatically provided by Lambda - don't set it manually
     }
   }
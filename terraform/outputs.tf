@@ -28,11 +28,21 @@ output "player_games_table_name" {
   value       = aws_dynamodb_table.player_games.name
 }
 
+output "game_events_table_name" {
+  description = "DynamoDB Game Events table name"
+  value       = aws_dynamodb_table.game_events.name
+}
+
 output "scenarios_table_name" {
   description = "DynamoDB Scenarios table name"
   value       = aws_dynamodb_table.scenarios.name
 }
 
+output "scenario_versions_table_name" {
+  description = "DynamoDB Scenario Versions table name"
+  value       = aws_dynamodb_table.scenario_versions.name
+}
+
 output "cognito_user_pool_id" {
   description = "Cognito User Pool ID"
   value       = aws_cognito_user_pool.users.id